@@ -1,10 +1,44 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Emotion, VoiceOption, GeneratedAudio, AppMode, ConversationLine } from './types';
-import { VOICES, EMOTION_LABELS, VOICE_LABELS, EMOTION_TAGS } from './constants';
-import { generateSpeech, getAudioContext } from './services/geminiService';
-import { bufferToWav } from './services/audioUtils';
-import { Waveform } from './components/Waveform';
-import { Mic, Play, Loader2, Sparkles, Trash2, Globe, Users, User, ArrowLeft, ArrowRight, X, MessageSquare, FileText, List, ArrowUp, Pause, Download, Music, Settings, Key } from 'lucide-react';
+import { BatchItem, BatchSettings, Emotion, EmotionMix, LexiconEntry, MixInfo, MixSettings, PostProcessPresetId, PostProcessSettings, PromptTemplate, SpeechLanguage, VoiceOption, GeneratedAudio, AppMode, ConversationLine, ConversationRenderMode, LineTake, CastMember, SpeechProviderSettings, Project, ProjectState, UsageBudgets, UsageRecord } from './types';
+import { BASE_VOICES, DEFAULT_PERSONAS, SPEECH_LANGUAGES, speechLanguage, DEFAULT_BATCH_SETTINGS, DEFAULT_MIX_SETTINGS, DEFAULT_PROMPT_TEMPLATES, DEFAULT_PROMPT_TEMPLATE_IDS, DEFAULT_USAGE_BUDGETS, POST_PROCESS_PRESETS, EMOTION_TAGS, DEFAULT_CAST, CAST_COLORS } from './constants';
+import { generateSpeech, getAudioContext, MAX_CHUNK_CHARS, previewPrompt } from './services/geminiService';
+import { chunkText } from './services/textChunker';
+import { castNameKey, castProblem, renderLine, renderScript, assembleTakes, isTakeFresh, voiceOf, LineRenderContext, previewScriptPrompt } from './services/lineRenderer';
+import { formatScript, parseScript, normalizeLine, lineSpeakerLabel, splitEmotionTag } from './services/scriptFormat';
+import { exportAudio, exportExtension, DEFAULT_EXPORT_OPTIONS, ExportOptions } from './services/audioExport';
+import * as historyStore from './services/historyStore';
+import { SPEECH_PROVIDERS, getSpeechProvider } from './services/speechProvider';
+import { Waveform, WaveformThumbnail } from './components/Waveform';
+import { ErrorNotice } from './components/ErrorNotice';
+import { EmotionMixer } from './components/EmotionMixer';
+import { PersonaManager } from './components/PersonaManager';
+import { LexiconManager } from './components/LexiconManager';
+import { exportLexiconCsv, importLexiconCsv, preparePronunciation, splitRuby } from './services/pronunciation';
+import { exportPersonaLibrary, importPersonaLibrary } from './services/personas';
+import { DEFAULT_EMOTION_MIX, dominantEmotion, formatEmotionMix, mixFromEmotion } from './services/emotionMix';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { belongsToProject, BUNDLE_EXTENSION, createProject, DEFAULT_PROJECT_ID, exportProjectBundle, importProjectBundle, projectStateOf } from './services/projects';
+import { ExportDialog } from './components/ExportDialog';
+import { CueEditor } from './components/CueEditor';
+import { MarkupEditor } from './components/MarkupEditor';
+import { PostProcessPanel } from './components/PostProcessPanel';
+import { MixPanel } from './components/MixPanel';
+import { TakeCompare } from './components/TakeCompare';
+import { BatchPanel } from './components/BatchPanel';
+import { PromptTemplateManager } from './components/PromptTemplateManager';
+import { UsageDashboard } from './components/UsageDashboard';
+import { presetSettings, withPostProcess } from './services/postProcess';
+import { dropAlternates, groupTakes, hasAlternates, promoteTake, rateTake, takesOf, TakeView } from './services/takes';
+import { checkMarkup } from './services/markup';
+import { formatTemplateRef, resolveTemplate, templateRef } from './services/promptTemplates';
+import { DEFAULT_FILENAME_TEMPLATE, exportArchive, formatFileName } from './services/archive';
+import { buildCues, formatSrt, formatVtt, SubtitleCue } from './services/subtitles';
+import { detectScriptFormat, exportScript, importScript, ScriptFileFormat, SCRIPT_FILE_FORMATS } from './services/scriptInterchange';
+import { describeError, classifyError, SpeechErrorKind } from './services/speechErrors';
+import { formatUsage, nextUsageReset, recordUsage, UsageAmount, usageAlerts, describeUsageAlert, usageDay, usageKeyId, usageTotals, exportUsageCsv } from './services/usage';
+import { detectLocale, emotionLabel, formatBytes, formatClockTime, setActiveLocale, t, voiceLabel } from './services/i18n';
+import { LOCALES } from './locales';
+import { Mic, Play, Loader2, Sparkles, Trash2, Globe, Users, User, ArrowLeft, ArrowRight, X, MessageSquare, FileText, List, ArrowUp, Pause, Download, Music, Settings, Key, RefreshCw, Plus, Captions, FileUp, Undo2, UserCog, BookOpen, SlidersHorizontal, Layers, ListChecks, CheckSquare, Square, FileArchive, FileCode } from 'lucide-react';
 
 // Custom hook for persistent state
 function usePersistentState<T>(key: string, initialValue: T): [T, (value: T | ((val: T) => T)) => void] {
@@ -18,53 +52,177 @@ function usePersistentState<T>(key: string, initialValue: T): [T, (value: T | ((
     }
   });
 
+  // Updaters see the latest value, so overlapping async work (batch runs) doesn't drop updates
   const setValue = useCallback((value: T | ((val: T) => T)) => {
-    try {
-      const valueToStore = value instanceof Function ? value(state) : value;
-      setState(valueToStore);
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
-    } catch (error) {
-      console.error(error);
-    }
-  }, [key, state]);
+    setState(prev => {
+      const valueToStore = value instanceof Function ? value(prev) : value;
+      try {
+        window.localStorage.setItem(key, JSON.stringify(valueToStore));
+      } catch (error) {
+        console.error(error);
+      }
+      return valueToStore;
+    });
+  }, [key]);
 
   return [state, setValue];
 }
 
-const MAX_CHARS = 1200; // Limit to ensure WAV file is < 10MB (approx 3.5 mins at 24kHz)
+// Read a value saved under a key from before the current settings layout
+function readLegacy(key: string) {
+  try {
+    const item = window.localStorage.getItem(key);
+    return item ? JSON.parse(item) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Build the initial cast from the two-speaker settings used before casts existed
+function legacyCast(): CastMember[] {
+  return DEFAULT_CAST.map((member, i) => ({
+    ...member,
+    name: readLegacy(`kanjo_spk${i + 1}_name`) ?? t('cast.defaultName', { letter: member.id }),
+    voiceId: readLegacy(`kanjo_spk${i + 1}_id`) ?? member.voiceId,
+  }));
+}
 
 const App: React.FC = () => {
+  // Display language; set before anything below renders a message
+  const [locale, setLocale] = usePersistentState<string>('kanjo_locale', detectLocale());
+  setActiveLocale(locale);
+
   // --- Persistent State ---
   const [mode, setMode] = usePersistentState<AppMode>('kanjo_mode', 'single');
 
   // Single Mode Data
   const [singleText, setSingleText] = usePersistentState<string>('kanjo_single_text', "");
-  // Default to NEUTRAL, controls removed from UI
-  const [selectedEmotion, setSelectedEmotion] = usePersistentState<Emotion>('kanjo_emotion', Emotion.NEUTRAL);
-  const [selectedVoiceId, setSelectedVoiceId] = usePersistentState<string>('kanjo_voice_id', VOICES[0].id);
+  // Starts from the single emotion saved before blends existed
+  const [emotionMix, setEmotionMix] = usePersistentState<EmotionMix>('kanjo_emotion_mix', mixFromEmotion(readLegacy('kanjo_emotion') ?? Emotion.NEUTRAL));
+  const [selectedVoiceId, setSelectedVoiceId] = usePersistentState<string>('kanjo_voice_id', BASE_VOICES[0].id);
   const [singleDescription, setSingleDescription] = usePersistentState<string>('kanjo_single_desc', "");
 
   // Conversation Mode Data
   const [convLines, setConvLines] = usePersistentState<ConversationLine[]>('kanjo_conv_lines', []);
-  const [speaker1Id, setSpeaker1Id] = usePersistentState<string>('kanjo_spk1_id', VOICES[0].id);
-  const [speaker2Id, setSpeaker2Id] = usePersistentState<string>('kanjo_spk2_id', VOICES[1].id);
-  const [speaker1Name, setSpeaker1Name] = usePersistentState<string>('kanjo_spk1_name', "Aさん");
-  const [speaker2Name, setSpeaker2Name] = usePersistentState<string>('kanjo_spk2_name', "Bさん");
+  const [cast, setCast] = usePersistentState<CastMember[]>('kanjo_cast', legacyCast());
   const [contextDescription, setContextDescription] = usePersistentState<string>('kanjo_context', "");
   const [isScriptMode, setIsScriptMode] = usePersistentState<boolean>('kanjo_script_mode', false);
+  const [renderMode, setRenderMode] = usePersistentState<ConversationRenderMode>('kanjo_render_mode', 'script');
+  const [lineGap, setLineGap] = usePersistentState<number>('kanjo_line_gap', 0.5);
+
+  // Language the text is read in, and whether to ask for fillers; both per project
+  const [language, setLanguage] = usePersistentState<SpeechLanguage>('kanjo_language', 'ja');
+  const [fillers, setFillers] = usePersistentState<boolean>('kanjo_fillers', true);
   const [apiKey, setApiKey] = usePersistentState<string>('kanjo_api_key', "");
-  const [remainingCount, setRemainingCount] = usePersistentState<number>('kanjo_remaining', 10);
-  const [lastResetDate, setLastResetDate] = usePersistentState<string>('kanjo_last_reset', "");
+  const [exportOptions, setExportOptions] = usePersistentState<ExportOptions>('kanjo_export_options', DEFAULT_EXPORT_OPTIONS);
+  const [filenameTemplate, setFilenameTemplate] = usePersistentState<string>('kanjo_filename_template', DEFAULT_FILENAME_TEMPLATE);
+  const [providerSettings, setProviderSettings] = usePersistentState<SpeechProviderSettings>('kanjo_provider', { id: 'gemini' });
+  const [historyLimit, setHistoryLimit] = usePersistentState<number>('kanjo_history_limit', 50); // 0 = unlimited
+
+  // Projects: the keys above hold the open project's working copy, mirrored into its entry here
+  const [projects, setProjects] = usePersistentState<Project[]>('kanjo_projects', []);
+  const [activeProjectId, setActiveProjectId] = usePersistentState<string>('kanjo_project_id', DEFAULT_PROJECT_ID);
+
+  const projectState: ProjectState = {
+    mode,
+    singleText,
+    emotionMix,
+    voiceId: selectedVoiceId,
+    singleDescription,
+    convLines,
+    cast,
+    contextDescription,
+    renderMode,
+    lineGap,
+    language,
+    fillers,
+  };
+
+  // User persona library; listed after the base voices everywhere a voice can be picked
+  const [personas, setPersonas] = usePersistentState<VoiceOption[]>('kanjo_personas', DEFAULT_PERSONAS);
+  const voices = [...BASE_VOICES, ...personas];
+
+  // Pronunciation lexicon applied to every generation
+  const [lexicon, setLexicon] = usePersistentState<LexiconEntry[]>('kanjo_lexicon', []);
+
+  // Effects chain applied to every new generation; the custom preset is edited in the post-process panel
+  const [postProcessPreset, setPostProcessPreset] = usePersistentState<PostProcessPresetId>('kanjo_post_process', 'none');
+  const [customPostProcess, setCustomPostProcess] = usePersistentState<PostProcessSettings>(
+    'kanjo_post_process_custom',
+    POST_PROCESS_PRESETS.find(p => p.id === 'podcast')!.settings, // Starts as a copy of the podcast preset
+  );
+
+  const [mixSettings, setMixSettings] = usePersistentState<MixSettings>('kanjo_mix_settings', DEFAULT_MIX_SETTINGS);
+  const [batchSettings, setBatchSettings] = usePersistentState<BatchSettings>('kanjo_batch_settings', DEFAULT_BATCH_SETTINGS);
+
+  // Usage ledger per masked API key and usage day, and the budgets checked against it
+  const [usageLedger, setUsageLedger] = usePersistentState<UsageRecord[]>('kanjo_usage', []);
+  const [usageBudgets, setUsageBudgets] = usePersistentState<UsageBudgets>('kanjo_usage_budgets', DEFAULT_USAGE_BUDGETS);
+
+  // Takes generated per request (whole-script and single mode); grouped under one history entry
+  const [takeCount, setTakeCount] = usePersistentState<number>('kanjo_take_count', 1);
+
+  // User prompt templates; the built-in defaults come from constants and are never stored
+  const [userPromptTemplates, setUserPromptTemplates] = usePersistentState<PromptTemplate[]>('kanjo_prompt_templates', []);
+  const [promptTemplateIds, setPromptTemplateIds] = usePersistentState<Record<AppMode, string>>('kanjo_prompt_template_ids', DEFAULT_PROMPT_TEMPLATE_IDS);
 
   // Derived State from IDs
-  const selectedVoice = VOICES.find(v => v.id === selectedVoiceId) || VOICES[0];
-  const speaker1 = VOICES.find(v => v.id === speaker1Id) || VOICES[0];
-  const speaker2 = VOICES.find(v => v.id === speaker2Id) || VOICES[1];
+  const selectedVoice = voices.find(v => v.id === selectedVoiceId) || voices[0];
+  const promptTemplates = [...DEFAULT_PROMPT_TEMPLATES, ...userPromptTemplates];
+  const activeTemplates: Record<AppMode, PromptTemplate> = {
+    single: resolveTemplate(promptTemplates, 'single', promptTemplateIds.single),
+    conversation: resolveTemplate(promptTemplates, 'conversation', promptTemplateIds.conversation),
+  };
+
+  const lineRenderContext: LineRenderContext = {
+    cast,
+    voices,
+    contextDescription,
+    lexicon,
+    promptTemplates: activeTemplates,
+    language,
+    fillers,
+    apiKey: apiKey || undefined,
+    provider: providerSettings,
+  };
+
+  const needsApiKey = getSpeechProvider(providerSettings.id).requiresApiKey && !apiKey && !process.env.API_KEY;
+
+  // Usage of the key in use; `now` ticks each minute so the usage day rolls over on screen
+  const [now, setNow] = useState(() => Date.now());
+  const usageKey = usageKeyId(apiKey);
+  const todayUsage = usageTotals(usageLedger, usageKey, usageDay(now));
+  const usageAlertList = usageAlerts(usageLedger, usageBudgets, usageKey, now);
+  // Called for every provider request. Only engines behind an API key count against a quota; local ones aren't recorded
+  const trackUsage = (amount: UsageAmount) => {
+    if (!getSpeechProvider(providerSettings.id).requiresApiKey) return;
+    setUsageLedger(prev => recordUsage(prev, usageKey, amount));
+  };
 
   // Temporary UI State (Not persisted)
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [generationProgress, setGenerationProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [retryStatus, setRetryStatus] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ title: string; message: string; kind?: SpeechErrorKind; tone?: 'error' | 'info' } | null>(null);
+  // A bare buffer keeps its name; history items are named from a template (`template` overrides the saved one)
+  const [exportTarget, setExportTarget] = useState<{ buffer: AudioBuffer; filename: string } | { items: GeneratedAudio[]; template?: string } | null>(null);
+  const [subtitleTarget, setSubtitleTarget] = useState<{ item: GeneratedAudio; cues: SubtitleCue[] } | null>(null);
   const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [showPersonaManager, setShowPersonaManager] = useState<boolean>(false);
+  const [showLexicon, setShowLexicon] = useState<boolean>(false);
+  const [showPostProcess, setShowPostProcess] = useState<boolean>(false);
+  const [mixSource, setMixSource] = useState<GeneratedAudio | null>(null);
+  const [showBatch, setShowBatch] = useState<boolean>(false);
+  const [showPromptTemplates, setShowPromptTemplates] = useState<boolean>(false);
+  const [showUsage, setShowUsage] = useState<boolean>(false);
+  const [historyLimitDraft, setHistoryLimitDraft] = useState<string | null>(null); // null = not being edited
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null); // null = history is not in selection mode
   const [history, setHistory] = useState<GeneratedAudio[]>([]);
+  const projectHistory = history.filter(item => belongsToProject(item, activeProjectId));
+  const selectedItems = selectedIds ? projectHistory.filter(item => selectedIds.includes(item.id)) : [];
+  const [storageUsage, setStorageUsage] = useState<historyStore.StorageUsage | null>(null);
+  const [lineTakes, setLineTakes] = useState<Record<string, LineTake>>({});
+  const [renderingLineId, setRenderingLineId] = useState<string | null>(null);
 
   // Audio Player State
   const [currentlyPlayingId, setCurrentlyPlayingId] = useState<string | null>(null);
@@ -82,56 +240,84 @@ const App: React.FC = () => {
   const pausedAtRef = useRef<number>(0);
   const activeBufferRef = useRef<AudioBuffer | null>(null);
   const animationFrameRef = useRef<number>(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   // --- Logic ---
 
+  // Upgrade lines saved with the old 'Both' speaker value
+  useEffect(() => {
+    const normalized = convLines.map(normalizeLine);
+    if (normalized.some((line, i) => line !== convLines[i])) {
+      setConvLines(normalized);
+    }
+  }, []);
+
   // Initialize script text when switching modes
   useEffect(() => {
     if (isScriptMode) {
-      const text = convLines.map(line => {
-        const prefix = line.speaker === 'A' ? 'A' : line.speaker === 'B' ? 'B' : 'A&B';
-        return `${prefix}: ${line.text}`;
-      }).join('\n');
-      setScriptText(text);
+      setScriptText(formatScript(convLines, cast));
     }
   }, [isScriptMode, convLines]);
 
-  // Reset logic: 17:00 JST
+  // Keep the open project's saved state in step with the editor
   useEffect(() => {
-    const checkReset = () => {
-      const now = new Date();
-      // JST is UTC+9. 17:00 JST is 08:00 UTC.
-      // But we can just use local time since the user is in Japan (or wants JST).
-      // However, for reliability, let's calculate based on "today's 17:00".
-
-      const today17 = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 17, 0, 0);
-
-      // We need a unique ID for "this period". 
-      // A period starts at 17:00 and ends the next day at 17:00.
-      // If currently before 17:00, the "period start" was yesterday 17:00.
-      // If currently after 17:00, the "period start" is today 17:00.
-      let periodStartStr = "";
-      if (now < today17) {
-        const yesterday = new Date(today17);
-        yesterday.setDate(yesterday.getDate() - 1);
-        periodStartStr = yesterday.toISOString().split('T')[0] + " 17:00";
-      } else {
-        periodStartStr = today17.toISOString().split('T')[0] + " 17:00";
+    setProjects(prev => {
+      if (!prev.some(p => p.id === activeProjectId)) {
+        return [...prev, createProject(t('project.defaultName', { number: prev.length + 1 }), projectState, activeProjectId)];
       }
+      return prev.map(p => p.id === activeProjectId ? { ...p, ...projectState, updatedAt: Date.now() } : p);
+    });
+  }, [activeProjectId, mode, singleText, emotionMix, selectedVoiceId, singleDescription, convLines, cast, contextDescription, renderMode, lineGap, language, fillers]);
 
-      if (lastResetDate !== periodStartStr) {
-        setRemainingCount(10);
-        setLastResetDate(periodStartStr);
-        console.log("Quota reset to 10 for period starting:", periodStartStr);
-      }
-    };
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // Restore saved history from IndexedDB
+  useEffect(() => {
+    historyStore.loadHistory(getAudioContext())
+      .then(items => setHistory(prev => {
+        // Keep anything generated while loading
+        const loadedIds = new Set(prev.map(item => item.id));
+        return [...prev, ...items.filter(item => !loadedIds.has(item.id))];
+      }))
+      .catch(e => console.error("Failed to load history:", e));
+  }, []);
+
+  // Apply retention limit whenever it changes; the limit counts each project separately
+  useEffect(() => {
+    const projectIds = [...new Set([activeProjectId, ...projects.map(p => p.id)])];
+    projectIds
+      .reduce((chain, id) => chain.then(() => pruneProjectHistory(id)), Promise.resolve())
+      .catch(e => console.error("Failed to prune history:", e));
+  }, [historyLimit]);
+
+  // Refresh storage usage while the settings panel is open
+  useEffect(() => {
+    if (!showSettings) return;
+    historyStore.getStorageUsage()
+      .then(setStorageUsage)
+      .catch(e => console.error("Failed to read storage usage:", e));
+  }, [showSettings, history]);
 
-    checkReset();
-    const timer = setInterval(checkReset, 60000); // Check every minute
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
     return () => clearInterval(timer);
-  }, [lastResetDate, setRemainingCount, setLastResetDate]);
+  }, []);
+
+  // Tell the user once when a generation brings a budget near or over its limit
+  const raisedAlertsRef = useRef<string[] | null>(null);
+  useEffect(() => {
+    const ids = usageAlertList.map(alert => `${alert.period}-${alert.metric}-${alert.exceeded}`);
+    const fresh = raisedAlertsRef.current === null ? [] : usageAlertList.filter((_, i) => !raisedAlertsRef.current!.includes(ids[i]));
+    raisedAlertsRef.current = ids;
+    if (fresh.length > 0) {
+      setNotice({ title: t('usage.alertTitle'), message: fresh.map(describeUsageAlert).join(' / '), tone: 'info' });
+    }
+  }, [usageLedger]);
 
   // Audio Player Logic
   const stopSource = () => {
@@ -167,9 +353,16 @@ const App: React.FC = () => {
       stopSource();
     }
 
+    // Route playback through a shared analyser so the player can show a live spectrum
+    if (!analyserRef.current) {
+      analyserRef.current = ctx.createAnalyser();
+      analyserRef.current.fftSize = 256;
+      analyserRef.current.connect(ctx.destination);
+    }
+
     const source = ctx.createBufferSource();
     source.buffer = buffer;
-    source.connect(ctx.destination);
+    source.connect(analyserRef.current);
 
     // Start at current context time
     const startAt = ctx.currentTime;
@@ -210,7 +403,10 @@ const App: React.FC = () => {
   };
 
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newTime = parseFloat(e.target.value);
+    seekTo(parseFloat(e.target.value));
+  };
+
+  const seekTo = (newTime: number) => {
     setCurrentTime(newTime);
     pausedAtRef.current = newTime;
 
@@ -222,12 +418,54 @@ const App: React.FC = () => {
     }
   };
 
+  // Opens the export dialog; the actual encoding happens in handleExport
   const handleDownload = (buffer: AudioBuffer, filename: string) => {
-    const blob = bufferToWav(buffer);
+    setExportTarget({ buffer, filename });
+  };
+
+  // One item downloads as a single file, several as a ZIP with a manifest
+  const handleDownloadItems = (items: GeneratedAudio[], template?: string) => {
+    if (items.length > 0) setExportTarget({ items, template });
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+    if (!exportTarget) return;
+    try {
+      if (!('items' in exportTarget)) {
+        const blob = await exportAudio(exportTarget.buffer, options);
+        downloadBlob(blob, `${exportTarget.filename}.${exportExtension(options.format)}`);
+        return;
+      }
+      const { items } = exportTarget;
+      const template = exportTarget.template ?? filenameTemplate;
+      if (items.length === 1) {
+        const blob = await exportAudio(items[0].audioBuffer, options);
+        downloadBlob(blob, `${formatFileName(items[0], template)}.${exportExtension(options.format)}`);
+      } else {
+        downloadBlob(await exportArchive(items, options, template), `kanjo-voice-${Date.now()}.zip`);
+      }
+    } catch (error: any) {
+      console.error("Failed to export:", error);
+      setNotice({ title: t('notice.exportFailed'), message: error.message || t('common.unknownError') });
+    }
+  };
+
+  const handleOpenSubtitles = (item: GeneratedAudio) => {
+    setSubtitleTarget({ item, cues: buildCues(item) });
+  };
+
+  const handleExportSubtitles = (format: 'srt' | 'vtt') => {
+    if (!subtitleTarget) return;
+    const content = format === 'srt' ? formatSrt(subtitleTarget.cues) : formatVtt(subtitleTarget.cues);
+    const blob = new Blob([content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' });
+    downloadBlob(blob, `kanjo-voice-${subtitleTarget.item.id}.${format}`);
+  };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${filename}.wav`;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -242,19 +480,110 @@ const App: React.FC = () => {
 
   // ---
 
-  const handleAddLine = (speaker: 'A' | 'B' | 'Both') => {
-    if (!newLineText.trim()) return;
+  const handleAddLine = (speaker: string, partner?: string) => {
+    // A tag typed at the start of the line becomes the line's emotion
+    const { emotion, text } = splitEmotionTag(newLineText.trim());
+    if (!text) return;
     const newLine: ConversationLine = {
       id: Date.now().toString(),
       speaker,
-      text: newLineText,
+      text,
     };
+    if (partner) newLine.partner = partner;
+    if (emotion) newLine.emotion = emotion;
     setConvLines(prev => [...prev, newLine]);
     setNewLineText(""); // Clear input
   };
 
+  const handleSetLineEmotion = (id: string, emotion?: Emotion) => {
+    setConvLines(prev => prev.map(line => {
+      if (line.id !== id) return line;
+      const { emotion: _previous, ...rest } = line;
+      return emotion ? { ...rest, emotion } : rest;
+    }));
+  };
+
   const handleDeleteLine = (id: string) => {
     setConvLines(prev => prev.filter(line => line.id !== id));
+    setLineTakes(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Start a cancellable generation; the returned signal is threaded through every request
+  const beginGeneration = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setNotice(null);
+    setIsGenerating(true);
+    return controller.signal;
+  };
+
+  const endGeneration = () => {
+    abortControllerRef.current = null;
+    setIsGenerating(false);
+    setGenerationProgress(null);
+    setRetryStatus(null);
+    setRenderingLineId(null);
+  };
+
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleRetry = (attempt: number, delayMs: number) => {
+    setRetryStatus(t('generate.retrying', { attempt, seconds: Math.ceil(delayMs / 1000) }));
+  };
+
+  // `note` goes in front of the error's own explanation (e.g. what was kept despite the failure)
+  const showGenerationError = (error: unknown, note?: string) => {
+    const kind = classifyError(error).kind;
+    const { title, message } = describeError(error);
+    setNotice({ title, message: note ? `${note} ${message}` : message, kind });
+    if (kind === 'invalidKey') setShowSettings(true);
+  };
+
+  // Malformed markup is reported up front, before any request is made
+  const reportMarkupErrors = (problems: string[]) => {
+    if (problems.length === 0) return false;
+    setNotice({ title: t('notice.markupErrors', { count: problems.length }), message: problems.slice(0, 5).join(' / ') });
+    return true;
+  };
+
+  const reportCastProblem = (): boolean => {
+    const problem = castProblem(cast);
+    if (problem) setNotice({ title: t('cast.invalid'), message: problem });
+    return !!problem;
+  };
+
+  const lineMarkupErrors = (lines: ConversationLine[]) =>
+    lines.flatMap((line, i) => checkMarkup(line.text).errors.map(e => t('notice.lineMarkupError', { line: i + 1, message: e.message })));
+
+  // Re-render just one line of a per-line conversation and audition it
+  const handleRegenerateLine = async (line: ConversationLine) => {
+    if (isGenerating) return;
+    if (reportMarkupErrors(checkMarkup(line.text).errors.map(e => e.message))) return;
+    if (reportCastProblem()) return;
+    if (needsApiKey) {
+      setNotice({ title: t('notice.noApiKey'), message: t('notice.noApiKeyMessage'), kind: 'invalidKey' });
+      setShowSettings(true);
+      return;
+    }
+
+    const signal = beginGeneration();
+    setRenderingLineId(line.id);
+    try {
+      const take = await renderLine(line, { ...lineRenderContext, signal, onRetry: handleRetry, onRequest: trackUsage });
+      setLineTakes(prev => ({ ...prev, [line.id]: take }));
+      playAudio(`take-${line.id}`, take.audioBuffer);
+    } catch (error) {
+      console.error("Failed to regenerate line:", error);
+      showGenerationError(error);
+    } finally {
+      endGeneration();
+    }
   };
 
   const handleInsertTag = (tag: string) => {
@@ -267,39 +596,83 @@ const App: React.FC = () => {
     if (el) el.focus();
   };
 
-  const parseScriptText = (text: string): ConversationLine[] => {
-    const lines = text.split('\n');
-    return lines.map((line, idx) => {
-      let speaker: 'A' | 'B' | 'Both' = 'A'; // Default
-      let content = line.trim();
-
-      if (content.match(/^(A&B|Both|二人|2人)[:：]/i)) {
-        speaker = 'Both';
-        content = content.replace(/^(A&B|Both|二人|2人)[:：]/i, '').trim();
-      } else if (content.match(/^(A|1)[:：]/i) || content.startsWith(`${speaker1Name}:`)) {
-        speaker = 'A';
-        content = content.replace(/^(A|1)[:：]/i, '').replace(`${speaker1Name}:`, '').trim();
-      } else if (content.match(/^(B|2)[:：]/i) || content.startsWith(`${speaker2Name}:`)) {
-        speaker = 'B';
-        content = content.replace(/^(B|2)[:：]/i, '').replace(`${speaker2Name}:`, '').trim();
-      } else if (content) {
-        if (content.startsWith(speaker1Name)) {
-          speaker = 'A';
-          content = content.substring(speaker1Name.length + 1).trim();
-        } else if (content.startsWith(speaker2Name)) {
-          speaker = 'B';
-          content = content.substring(speaker2Name.length + 1).trim();
-        }
+  const parseScriptText = (text: string): ConversationLine[] => parseScript(text, cast, convLines);
+
+  // Picking a persona also picks up its default emotion
+  const handleSelectVoice = (id: string) => {
+    setSelectedVoiceId(id);
+    const voice = voices.find(v => v.id === id);
+    if (voice?.defaultEmotion) setEmotionMix(mixFromEmotion(voice.defaultEmotion));
+  };
+
+  const handleImportPersonas = async (file: File) => {
+    const result = importPersonaLibrary(await file.text(), personas);
+    setPersonas(result.personas);
+    if (result.errors.length > 0) {
+      setNotice({ title: t('notice.personasFailed', { count: result.errors.length }), message: result.errors.slice(0, 5).join(' / ') });
+    } else {
+      setNotice({ title: t('notice.personasImported'), message: t('notice.personasImportedMessage', { added: result.added, updated: result.updated }), tone: 'info' });
+    }
+  };
+
+  const handleImportLexicon = async (file: File) => {
+    const result = importLexiconCsv(await file.text(), lexicon);
+    setLexicon(result.entries);
+    if (result.issues.length > 0) {
+      setNotice({ title: t('notice.lexiconFailed', { count: result.issues.length }), message: result.issues.slice(0, 5).join(' / ') });
+    }
+  };
+
+  const handleExportPersonas = () => {
+    downloadBlob(new Blob([exportPersonaLibrary(personas)], { type: 'application/json' }), 'kanjo-personas.json');
+  };
+
+  const handleAddCastMember = () => {
+    const used = new Set(cast.map(m => m.voiceId));
+    const voice = voices.find(v => !used.has(v.id)) || voices[0];
+    setCast(prev => [...prev, {
+      id: `cast-${Date.now()}`,
+      name: t('cast.defaultName', { letter: String.fromCharCode(65 + prev.length) }),
+      voiceId: voice.id,
+    }]);
+  };
+
+  const handleUpdateCastMember = (id: string, patch: Partial<CastMember>) => {
+    setCast(prev => prev.map(m => m.id === id ? { ...m, ...patch } : m));
+  };
+
+  const handleRemoveCastMember = (id: string) => {
+    if (convLines.some(line => line.speaker === id || line.partner === id)) {
+      if (!confirm(t('cast.removeWithLines'))) return;
+      setConvLines(prev => prev.filter(line => line.speaker !== id && line.partner !== id));
+    }
+    setCast(prev => prev.filter(m => m.id !== id));
+  };
+
+  const handleImportScript = async (file: File) => {
+    const text = await file.text();
+    const result = importScript(text, detectScriptFormat(file.name, text), cast);
+
+    if (result.lines.length > 0) {
+      if (convLines.length === 0 || confirm(t('conversation.replaceLines', { count: result.lines.length }))) {
+        setCast(result.cast);
+        setConvLines(result.lines);
       }
+    }
 
-      if (!content) return null;
+    if (result.issues.length > 0) {
+      const shown = result.issues.slice(0, 5).map(issue => t('common.rowIssue', { row: issue.row, message: issue.message }));
+      if (result.issues.length > shown.length) shown.push(t('common.andMore', { count: result.issues.length - shown.length }));
+      setNotice({ title: t('notice.scriptFailed', { file: file.name, count: result.issues.length }), message: shown.join(' / ') });
+    } else {
+      setNotice(null);
+    }
+  };
 
-      return {
-        id: `script-${idx}-${Date.now()}`,
-        speaker,
-        text: content
-      };
-    }).filter(Boolean) as ConversationLine[];
+  const handleExportScript = (format: ScriptFileFormat) => {
+    const lines = isScriptMode ? parseScriptText(scriptText) : convLines;
+    const { extension, mime } = SCRIPT_FILE_FORMATS.find(f => f.id === format)!;
+    downloadBlob(new Blob([exportScript(lines, cast, format)], { type: mime }), `kanjo-script.${extension}`);
   };
 
   const saveScript = () => {
@@ -316,23 +689,18 @@ const App: React.FC = () => {
 
     const textToGenerate = mode === 'single'
       ? singleText
-      : linesToUse.map(line => {
-        if (line.speaker === 'Both') {
-          return `${speaker1Name} & ${speaker2Name}: ${line.text}`;
-        }
-        const name = line.speaker === 'A' ? speaker1Name : speaker2Name;
-        return `${name}: ${line.text}`;
-      }).join('\n');
+      : formatScript(linesToUse, cast);
 
     if (!textToGenerate.trim()) return;
 
-    if (textToGenerate.length > MAX_CHARS) {
-      alert(`テキストが長すぎます。${MAX_CHARS}文字以内で入力してください。`);
-      return;
-    }
+    const markupErrors = mode === 'single'
+      ? checkMarkup(singleText).errors.map(e => e.message)
+      : lineMarkupErrors(linesToUse);
+    if (reportMarkupErrors(markupErrors)) return;
+    if (mode === 'conversation' && reportCastProblem()) return;
 
-    if (!apiKey && !process.env.API_KEY) {
-      alert("APIキーが設定されていません。画面右上の設定ボタンからAPIキーを入力してください。");
+    if (needsApiKey) {
+      setNotice({ title: t('notice.noApiKey'), message: t('notice.noApiKeyMessage'), kind: 'invalidKey' });
       setShowSettings(true);
       return;
     }
@@ -346,38 +714,100 @@ const App: React.FC = () => {
       console.warn("Could not resume AudioContext:", e);
     }
 
-    setIsGenerating(true);
+    const signal = beginGeneration();
+    const renderContext = { ...lineRenderContext, signal, onRetry: handleRetry, onRequest: trackUsage };
+    const perLine = mode === 'conversation' && renderMode === 'perLine';
 
     try {
-      const audioBuffer = await generateSpeech({
-        mode,
-        text: textToGenerate,
-        emotion: selectedEmotion,
-        voice: selectedVoice,
-        speaker1,
-        speaker2,
-        speaker1Name: mode === 'conversation' ? speaker1Name : undefined,
-        speaker2Name: mode === 'conversation' ? speaker2Name : undefined,
-        contextDescription: mode === 'conversation' ? contextDescription : singleDescription,
-        apiKey: apiKey || undefined,
-      });
+      const buffers: AudioBuffer[] = [];
+      let failure: { error: unknown } | undefined; // A later take failed after earlier ones finished
+      // Per-line renders reuse cached line takes, so asking for several takes only makes sense for whole requests
+      const takes = perLine ? 1 : Math.max(1, takeCount);
+      // Chunk/segment progress of each take, folded into one bar across all takes
+      const reportProgress = (take: number) => (completed: number, total: number) => {
+        setRetryStatus(null); // Progress means the last retry went through
+        setGenerationProgress(total > 1 || takes > 1 ? { completed: take * total + completed, total: total * takes } : null);
+      };
+
+      if (perLine) {
+        // Only render lines without a current take; the rest are reused as-is
+        const lineTakeMap = { ...lineTakes };
+        const pending = linesToUse.filter(line => !isTakeFresh(lineTakeMap[line.id], line, renderContext));
+        for (let i = 0; i < pending.length; i++) {
+          setGenerationProgress({ completed: i, total: pending.length });
+          setRenderingLineId(pending[i].id);
+          const take = await renderLine(pending[i], renderContext);
+          setRetryStatus(null);
+          lineTakeMap[take.lineId] = take;
+          setLineTakes(prev => ({ ...prev, [take.lineId]: take }));
+        }
+        buffers.push(assembleTakes(linesToUse.map(line => lineTakeMap[line.id]), lineGap));
+      } else {
+        // History keeps the text as written; the engine gets readings substituted
+        const spoken = preparePronunciation(textToGenerate, lexicon);
+        for (let take = 0; take < takes; take++) {
+          try {
+            if (mode === 'conversation') {
+              buffers.push(await renderScript(linesToUse, renderContext, reportProgress(take)));
+            } else {
+              buffers.push(await generateSpeech({
+                mode,
+                text: spoken.text,
+                emotionMix,
+                voice: selectedVoice,
+                contextDescription: singleDescription,
+                pronunciationNotes: spoken.notes,
+                promptTemplate: activeTemplates.single,
+                language,
+                fillers,
+                apiKey: apiKey || undefined,
+                provider: providerSettings,
+                signal,
+                onRetry: handleRetry,
+                onRequest: trackUsage,
+                onProgress: reportProgress(take),
+              }));
+            }
+          } catch (error) {
+            // Finished takes are still saved; the failure (or cancel) is reported once they are
+            if (buffers.length === 0) throw error;
+            failure = { error };
+            break;
+          }
+        }
+      }
 
-      const newItem: GeneratedAudio = {
-        id: Date.now().toString(),
+      const id = Date.now().toString();
+      const generated: GeneratedAudio[] = buffers.map(audioBuffer => ({
+        id,
         text: textToGenerate,
         mode,
-        emotion: selectedEmotion,
+        emotion: mode === 'single' ? dominantEmotion(emotionMix) : undefined,
+        emotionMix: mode === 'single' ? emotionMix : undefined,
         voiceName: mode === 'single' ? selectedVoice.name : undefined,
-        speaker1: mode === 'conversation' ? speaker1.name : undefined,
-        speaker2: mode === 'conversation' ? speaker2.name : undefined,
-        speaker1Name: mode === 'conversation' ? speaker1Name : undefined,
-        speaker2Name: mode === 'conversation' ? speaker2Name : undefined,
+        cast: mode === 'conversation'
+          ? cast.map(m => ({ name: m.name, voiceName: voiceOf(m, voices).name }))
+          : undefined,
         contextDescription: mode === 'conversation' ? contextDescription : singleDescription,
+        renderMode: mode === 'conversation' ? renderMode : undefined,
+        lineGap: perLine ? lineGap : undefined,
+        promptTemplates: (perLine ? [activeTemplates.single, activeTemplates.conversation] : [activeTemplates[mode]]).map(templateRef),
+        language,
+        provider: providerSettings.id,
+        projectId: activeProjectId,
         timestamp: Date.now(),
         audioBuffer
-      };
+      }));
 
-      setHistory(prev => [newItem, ...prev]);
+      // A failed effects pass shouldn't cost the take, so fall back to the unprocessed audio
+      const grouped = groupTakes(generated);
+      const newItem = await withPostProcess(grouped, postProcessPreset, presetSettings(postProcessPreset, customPostProcess))
+        .catch(error => {
+          console.error("Post-processing failed:", error);
+          return grouped;
+        });
+
+      addToHistory(newItem);
 
       // Auto play
       playAudio(newItem.id, newItem.audioBuffer);
@@ -386,17 +816,72 @@ const App: React.FC = () => {
         setConvLines(linesToUse);
       }
 
-      // Decrement remaining count
-      setRemainingCount(prev => Math.max(0, prev - 1));
+      if (failure) showGenerationError(failure.error, t('takes.partialSaved', { count: buffers.length, total: takes }));
 
-    } catch (error: any) {
+    } catch (error) {
       console.error("Failed to generate:", error);
-      alert(`エラーが発生しました: ${error.message || "不明なエラー"}`);
+      showGenerationError(error);
     } finally {
-      setIsGenerating(false);
+      endGeneration();
     }
   };
 
+  // Batch worker: one single-mode request per item, using the current provider, lexicon and post-processing.
+  // Errors propagate so the queue can record them against the item.
+  const runBatchItem = async (item: BatchItem, signal: AbortSignal, onRetry: (attempt: number, delayMs: number) => void): Promise<GeneratedAudio> => {
+    const markupErrors = checkMarkup(item.text).errors;
+    if (markupErrors.length > 0) throw new Error(markupErrors.map(e => e.message).join(' / '));
+
+    const voice = voices.find(v => v.id === item.voiceId) || selectedVoice;
+    const itemMix = mixFromEmotion(item.emotion || voice.defaultEmotion || Emotion.NEUTRAL);
+    const spoken = preparePronunciation(item.text, lexicon);
+    const audioBuffer = await generateSpeech({
+      mode: 'single',
+      text: spoken.text,
+      emotionMix: itemMix,
+      voice,
+      contextDescription: item.description,
+      pronunciationNotes: spoken.notes,
+      promptTemplate: activeTemplates.single,
+      language: item.language || language,
+      fillers,
+      apiKey: apiKey || undefined,
+      provider: providerSettings,
+      signal,
+      onRetry,
+      onRequest: trackUsage,
+    });
+
+    const generated: GeneratedAudio = {
+      id: `${Date.now()}-${item.id}`,
+      label: item.id,
+      batchOutput: true,
+      text: item.text,
+      mode: 'single',
+      emotion: dominantEmotion(itemMix),
+      emotionMix: itemMix,
+      voiceName: voice.name,
+      contextDescription: item.description,
+      promptTemplates: [templateRef(activeTemplates.single)],
+      language: item.language || language,
+      provider: providerSettings.id,
+      projectId: activeProjectId,
+      timestamp: Date.now(),
+      audioBuffer,
+    };
+    const result = await withPostProcess(generated, postProcessPreset, presetSettings(postProcessPreset, customPostProcess))
+      .catch(error => {
+        console.error("Post-processing failed:", error);
+        return generated;
+      });
+    addToHistory(result);
+    return result;
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev && (prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]));
+  };
+
   const deleteHistoryItem = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (currentlyPlayingId === id) {
@@ -408,42 +893,335 @@ const App: React.FC = () => {
       activeBufferRef.current = null;
     }
     setHistory(prev => prev.filter(item => item.id !== id));
+    historyStore.deleteHistoryItem(id).catch(e => console.error("Failed to delete history item:", e));
+  };
+
+  const resetPlayer = () => {
+    stopSource();
+    setCurrentlyPlayingId(null);
+    setIsPlaying(false);
+    setCurrentTime(0);
+    pausedAtRef.current = 0;
+    activeBufferRef.current = null;
+  };
+
+  // Only the open project's history is cleared
+  const clearAllHistory = () => {
+    const ids = projectHistory.map(item => item.id);
+    setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+    resetPlayer();
+    historyStore.deleteHistoryItems(ids).catch(e => console.error("Failed to clear history:", e));
+  };
+
+  // --- Projects ---
+
+  const applyProjectState = (state: ProjectState) => {
+    setMode(state.mode);
+    setSingleText(state.singleText);
+    setEmotionMix(state.emotionMix || mixFromEmotion(state.emotion || Emotion.NEUTRAL));
+    setSelectedVoiceId(state.voiceId);
+    setSingleDescription(state.singleDescription);
+    setConvLines(state.convLines.map(normalizeLine));
+    setCast(state.cast);
+    setContextDescription(state.contextDescription);
+    setRenderMode(state.renderMode);
+    setLineGap(state.lineGap);
+    setLanguage(state.language || 'ja');
+    setFillers(state.fillers ?? true);
+  };
+
+  const openProject = (project: Project) => {
+    if (isGenerating) return;
+    resetPlayer();
+    setLineTakes({});
+    setIsScriptMode(false);
+    setNotice(null);
+    applyProjectState(projectStateOf(project));
+    setActiveProjectId(project.id);
+  };
+
+  const handleSwitchProject = (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (project && id !== activeProjectId) openProject(project);
+  };
+
+  const handleCreateProject = () => {
+    const project = createProject(t('project.defaultName', { number: projects.length + 1 }), {
+      mode: 'single',
+      singleText: "",
+      emotionMix: DEFAULT_EMOTION_MIX,
+      voiceId: BASE_VOICES[0].id,
+      singleDescription: "",
+      convLines: [],
+      cast: DEFAULT_CAST.map(member => ({ ...member, name: t('cast.defaultName', { letter: member.id }) })),
+      contextDescription: "",
+      renderMode: 'script',
+      lineGap: 0.5,
+    });
+    setProjects(prev => [...prev, project]);
+    openProject(project);
+  };
+
+  const handleDuplicateProject = (id: string) => {
+    const source = projects.find(p => p.id === id);
+    if (!source) return;
+    const state = id === activeProjectId ? projectState : projectStateOf(source);
+    setProjects(prev => [...prev, createProject(t('common.copyOf', { name: source.name }), state)]);
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, name } : p));
+  };
+
+  const handleDeleteProject = (id: string) => {
+    const project = projects.find(p => p.id === id);
+    const remaining = projects.filter(p => p.id !== id);
+    if (!project || remaining.length === 0) return;
+    if (!confirm(t('project.deleteConfirm', { name: project.name }))) return;
+
+    const ids = history.filter(item => belongsToProject(item, id)).map(item => item.id);
+    setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+    historyStore.deleteHistoryItems(ids).catch(e => console.error("Failed to delete project history:", e));
+
+    if (id === activeProjectId) openProject(remaining[0]);
+    setProjects(remaining);
+  };
+
+  const handleExportProject = async (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!project) return;
+    try {
+      const snapshot = id === activeProjectId ? { ...project, ...projectState } : project;
+      const blob = await exportProjectBundle(snapshot, history.filter(item => belongsToProject(item, id)));
+      downloadBlob(blob, `${project.name}.${BUNDLE_EXTENSION}`);
+    } catch (error: any) {
+      console.error("Project export failed:", error);
+      setNotice({ title: t('notice.projectExportFailed'), message: error.message || t('common.unknownError') });
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const { project, items } = await importProjectBundle(file, getAudioContext());
+      await Promise.all(items.map(item => historyStore.saveHistoryItem(item)));
+      setHistory(prev => [...items, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+      setProjects(prev => [...prev, project]);
+      openProject(project);
+    } catch (error: any) {
+      console.error("Project import failed:", error);
+      setNotice({ title: t('notice.projectImportFailed'), message: error.message || t('common.unknownError') });
+    }
+  };
+
+  // The limit is only applied once editing ends, so intermediate values ("1" on the way to "100") never prune
+  const applyHistoryLimit = () => {
+    if (historyLimitDraft === null) return;
+    const limit = Math.max(0, parseInt(historyLimitDraft, 10) || 0);
+    setHistoryLimitDraft(null);
+    if (limit === historyLimit) return;
+    const counts = history.filter(item => !item.batchOutput).reduce((acc, item) => {
+      const id = item.projectId || DEFAULT_PROJECT_ID;
+      return acc.set(id, (acc.get(id) || 0) + 1);
+    }, new Map<string, number>());
+    const removed = limit > 0 ? [...counts.values()].reduce((sum, count) => sum + Math.max(0, count - limit), 0) : 0;
+    if (removed > 0 && !confirm(t('settings.historyLimitConfirm', { limit, count: removed }))) return;
+    setHistoryLimit(limit);
+  };
+
+  // Retention never reaches into other projects: each keeps its own newest `historyLimit` items.
+  // Batch output is left alone, so a long batch can't push earlier work out of history.
+  const pruneProjectHistory = async (projectId: string) => {
+    const removed = await historyStore.pruneHistory(historyLimit, record => belongsToProject(record, projectId) && !record.batchOutput);
+    if (removed.length > 0) {
+      setHistory(prev => prev.filter(h => !removed.includes(h.id)));
+    }
+  };
+
+  // Newest first; persisting and pruning happen in the background
+  const addToHistory = (item: GeneratedAudio) => {
+    setHistory(prev => [item, ...prev]);
+    historyStore.saveHistoryItem(item)
+      .then(() => item.batchOutput ? undefined : pruneProjectHistory(item.projectId || DEFAULT_PROJECT_ID))
+      .catch(e => console.error("Failed to save history:", e));
+  };
+
+  // A mix becomes its own entry; the speech entry it was built from is left untouched
+  const handleSaveMix = (buffer: AudioBuffer, info: MixInfo) => {
+    if (!mixSource) return;
+    const { audioBuffer, originalBuffer, postProcess, postProcessSettings, mix, take, rating, alternateTakes, batchOutput, ...meta } = mixSource;
+    const item: GeneratedAudio = {
+      ...meta,
+      id: Date.now().toString(),
+      projectId: activeProjectId,
+      timestamp: Date.now(),
+      audioBuffer: buffer,
+      mix: info,
+    };
+    addToHistory(item);
+    setMixSource(null);
+    playAudio(item.id, item.audioBuffer);
+  };
+
+  const updateHistoryItem = (item: GeneratedAudio) => {
+    setHistory(prev => prev.map(h => h.id === item.id ? item : h));
+    historyStore.saveHistoryItem(item).catch(e => console.error("Failed to save history:", e));
+  };
+
+  // The chosen take plays under the entry's own id so the rest of the player keeps working
+  const takePlayerId = (item: GeneratedAudio, take: TakeView) => take.chosen ? item.id : `${item.id}:take-${take.take}`;
+
+  const playingTakeOf = (item: GeneratedAudio): number | null => {
+    if (currentlyPlayingId === item.id) return item.take || 1;
+    const prefix = `${item.id}:take-`;
+    return currentlyPlayingId?.startsWith(prefix) ? Number(currentlyPlayingId.slice(prefix.length)) : null;
+  };
+
+  // A/B: switching between takes of the same entry continues from the current playhead position
+  const handlePlayTake = (item: GeneratedAudio, take: TakeView) => {
+    const id = takePlayerId(item, take);
+    if (id === currentlyPlayingId && isPlaying) {
+      handlePause();
+      return;
+    }
+    const sameEntry = playingTakeOf(item) !== null;
+    const position = !sameEntry ? 0
+      : isPlaying ? getAudioContext().currentTime - startTimeRef.current : pausedAtRef.current;
+    playAudio(id, take.audioBuffer, Math.max(0, Math.min(position, take.audioBuffer.duration - 0.05)));
+  };
+
+  const handlePromoteTake = (item: GeneratedAudio, take: number) => {
+    const promoted = promoteTake(item, take);
+    updateHistoryItem(promoted);
+    // Player ids follow take positions, which just swapped, so stop instead of leaving a stale id
+    if (playingTakeOf(item) !== null) {
+      stopSource();
+      setIsPlaying(false);
+      setCurrentlyPlayingId(null);
+    }
+  };
+
+  const handleDeleteUnchosenTakes = (items: GeneratedAudio[]) => {
+    const targets = items.filter(hasAlternates);
+    const count = targets.reduce((sum, item) => sum + item.alternateTakes!.length, 0);
+    if (count === 0 || !confirm(t('history.deleteUnchosenConfirm', { count }))) return;
+    if (currentlyPlayingId?.includes(':take-')) resetPlayer();
+    targets.forEach(item => updateHistoryItem(dropAlternates(item)));
+  };
+
+  // Re-run the effects chain on a history item from its unprocessed audio
+  const handleReprocess = async (item: GeneratedAudio, preset: PostProcessPresetId) => {
+    try {
+      const updated = await withPostProcess(item, preset, presetSettings(preset, customPostProcess));
+      updateHistoryItem(updated);
+      if (currentlyPlayingId === item.id) playAudio(updated.id, updated.audioBuffer);
+    } catch (error: any) {
+      console.error("Post-processing failed:", error);
+      setNotice({ title: t('notice.postProcessFailed'), message: error.message || t('common.unknownError') });
+    }
+  };
+
+  // --- Prompt templates ---
+
+  const handleSavePromptTemplate = (template: PromptTemplate) => {
+    setUserPromptTemplates(prev => prev.some(entry => entry.id === template.id)
+      ? prev.map(entry => entry.id === template.id ? template : entry)
+      : [...prev, template]);
+  };
+
+  const handleDeletePromptTemplate = (id: string) => {
+    setUserPromptTemplates(prev => prev.filter(entry => entry.id !== id));
+    setPromptTemplateIds(prev => ({
+      single: prev.single === id ? DEFAULT_PROMPT_TEMPLATE_IDS.single : prev.single,
+      conversation: prev.conversation === id ? DEFAULT_PROMPT_TEMPLATE_IDS.conversation : prev.conversation,
+    }));
+  };
+
+  // Renders a template against what is in the editor right now
+  const previewTemplate = (template: PromptTemplate): string => {
+    if (template.mode === 'conversation') {
+      const lines = isScriptMode ? parseScriptText(scriptText) : convLines;
+      return previewScriptPrompt(lines, { ...lineRenderContext, promptTemplates: { conversation: template } });
+    }
+    const spoken = preparePronunciation(singleText.trim() || t('single.previewText'), lexicon);
+    return previewPrompt({
+      mode: 'single',
+      text: spoken.text,
+      emotionMix,
+      voice: selectedVoice,
+      contextDescription: singleDescription,
+      pronunciationNotes: spoken.notes,
+      promptTemplate: template,
+      language,
+      fillers,
+    });
   };
 
+  // Put a history item's settings back into the editor so it can be regenerated as it was
+  const handleRestoreSettings = (item: GeneratedAudio) => {
+    if (isGenerating) return;
+    setMode(item.mode);
+    setLanguage(item.language || 'ja');
+    // Templates that still exist are selected again (their current version, which may have been edited since)
+    item.promptTemplates?.forEach(ref => {
+      const template = promptTemplates.find(entry => entry.id === ref.id);
+      if (template) setPromptTemplateIds(prev => ({ ...prev, [template.mode]: template.id }));
+    });
+    if (item.mode === 'single') {
+      setSingleText(item.text);
+      setSingleDescription(item.contextDescription || "");
+      setEmotionMix(item.emotionMix || mixFromEmotion(item.emotion || Emotion.NEUTRAL));
+      const voice = voices.find(v => v.name === item.voiceName);
+      if (voice) setSelectedVoiceId(voice.id);
+    } else {
+      setConvLines(parseScript(item.text, cast));
+      setContextDescription(item.contextDescription || "");
+      if (item.renderMode) setRenderMode(item.renderMode);
+      if (item.lineGap !== undefined) setLineGap(item.lineGap);
+      setIsScriptMode(false);
+    }
+  };
+
+  // Show inline reading overrides as real ruby
+  const renderRuby = (text: string) => splitRuby(text).map((segment, i) => segment.reading
+    ? <ruby key={i}>{segment.text}<rt className="text-[9px] opacity-70">{segment.reading}</rt></ruby>
+    : <React.Fragment key={i}>{segment.text}</React.Fragment>);
+
   const renderHistoryBubble = (item: GeneratedAudio) => {
     if (item.mode === 'single') {
-      return <p className="text-sm text-slate-200 font-medium font-mono whitespace-pre-wrap">{item.text}</p>;
+      return <p className="text-sm text-slate-200 font-medium font-mono whitespace-pre-wrap">{renderRuby(item.text)}</p>;
     }
+    // Items saved before casts existed only know two speaker names
+    const names = item.cast?.map(m => m.name) || [item.speaker1Name || '', item.speaker2Name || ''];
     const lines = item.text.split('\n');
     return (
       <div className="space-y-2 mt-2">
         {lines.map((line, idx) => {
-          let type: 'A' | 'B' | 'Both' | 'None' = 'None';
+          let index = -1;
+          let together = false;
           let content = line;
 
-          const bothPrefix = `${item.speaker1Name} & ${item.speaker2Name}:`;
-
-          if (line.startsWith(bothPrefix)) {
-            type = 'Both';
-            content = line.replace(bothPrefix, '').trim();
-          } else if (line.startsWith(`${item.speaker1Name}:`)) {
-            type = 'A';
-            content = line.replace(`${item.speaker1Name}:`, '').trim();
-          } else if (line.startsWith(`${item.speaker2Name}:`)) {
-            type = 'B';
-            content = line.replace(`${item.speaker2Name}:`, '').trim();
+          const match = line.match(/^(.+?):\s*(.*)$/);
+          if (match) {
+            const refs = match[1].split(' & ');
+            const indices = refs.map(ref => names.indexOf(ref));
+            if (indices.every(i => i >= 0)) {
+              index = indices[0];
+              together = refs.length > 1;
+              content = match[2].trim();
+            }
           }
-          if (type === 'None') return <div key={idx} className="text-center text-xs text-slate-500 my-1">{content}</div>
+          if (index === -1) return <div key={idx} className="text-center text-xs text-slate-500 my-1">{content}</div>
 
+          const color = CAST_COLORS[index % CAST_COLORS.length];
+          const isLeft = index % 2 === 0;
           return (
-            <div key={idx} className={`flex ${type === 'A' ? 'justify-start' : type === 'B' ? 'justify-end' : 'justify-center'}`}>
-              <div className={`max-w-[85%] rounded-lg px-3 py-1.5 text-xs ${type === 'A'
-                ? 'bg-indigo-900/40 text-indigo-100 border border-indigo-500/30 rounded-tl-none'
-                : type === 'B'
-                  ? 'bg-purple-900/40 text-purple-100 border border-purple-500/30 rounded-tr-none'
-                  : 'bg-gradient-to-r from-indigo-900/40 to-purple-900/40 text-slate-100 border border-slate-500/30 font-bold'
+            <div key={idx} className={`flex ${together ? 'justify-center' : isLeft ? 'justify-start' : 'justify-end'}`}>
+              <div className={`max-w-[85%] rounded-lg px-3 py-1.5 text-xs border ${together
+                ? 'bg-gradient-to-r from-indigo-900/40 to-purple-900/40 text-slate-100 border-slate-500/30 font-bold'
+                : `${color.bubble} ${isLeft ? 'rounded-tl-none' : 'rounded-tr-none'}`
                 }`}>
-                {content}
+                {names.length > 2 && !together && <span className={`font-bold mr-1 ${color.text}`}>{names[index]}:</span>}
+                {renderRuby(content)}
               </div>
             </div>
           )
@@ -457,13 +1235,170 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col items-center p-4 md:p-8 font-sans">
 
+      {exportTarget && (
+        <ExportDialog
+          sourceSampleRate={'items' in exportTarget ? exportTarget.items[0].audioBuffer.sampleRate : exportTarget.buffer.sampleRate}
+          options={exportOptions}
+          onChange={setExportOptions}
+          onExport={handleExport}
+          onClose={() => setExportTarget(null)}
+          naming={'items' in exportTarget ? {
+            template: exportTarget.template ?? filenameTemplate,
+            onChange: (template) => exportTarget.template !== undefined
+              ? setExportTarget({ ...exportTarget, template })
+              : setFilenameTemplate(template),
+            preview: formatFileName(exportTarget.items[0], exportTarget.template ?? filenameTemplate),
+            count: exportTarget.items.length,
+          } : undefined}
+        />
+      )}
+
+      {showPersonaManager && (
+        <PersonaManager
+          personas={personas}
+          usedIds={new Set([selectedVoiceId, ...cast.map(m => m.voiceId)])}
+          onChange={setPersonas}
+          onImport={handleImportPersonas}
+          onExport={handleExportPersonas}
+          onClose={() => setShowPersonaManager(false)}
+        />
+      )}
+
+      {showPostProcess && (
+        <PostProcessPanel
+          preset={postProcessPreset}
+          custom={customPostProcess}
+          onSelect={setPostProcessPreset}
+          onChangeCustom={setCustomPostProcess}
+          onClose={() => setShowPostProcess(false)}
+        />
+      )}
+
+      {showPromptTemplates && (
+        <PromptTemplateManager
+          mode={mode}
+          templates={promptTemplates}
+          selectedIds={{ single: activeTemplates.single.id, conversation: activeTemplates.conversation.id }}
+          onSelect={(templateMode, id) => setPromptTemplateIds(prev => ({ ...prev, [templateMode]: id }))}
+          onSave={handleSavePromptTemplate}
+          onDelete={handleDeletePromptTemplate}
+          preview={previewTemplate}
+          onClose={() => setShowPromptTemplates(false)}
+        />
+      )}
+
+      {showUsage && (
+        <UsageDashboard
+          ledger={usageLedger}
+          budgets={usageBudgets}
+          onBudgetsChange={setUsageBudgets}
+          activeKeyId={usageKey}
+          now={now}
+          onExport={() => downloadBlob(new Blob([exportUsageCsv(usageLedger)], { type: 'text/csv' }), 'kanjo-usage.csv')}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+
+      <BatchPanel
+        open={showBatch}
+        voices={voices}
+        defaultVoice={selectedVoice}
+        settings={batchSettings}
+        onChangeSettings={setBatchSettings}
+        run={runBatchItem}
+        playingId={currentlyPlayingId}
+        isPlaying={isPlaying}
+        onPlay={(audio) => currentlyPlayingId === audio.id && isPlaying ? handlePause() : playAudio(audio.id, audio.audioBuffer)}
+        onDownload={(audio) => handleDownload(audio.audioBuffer, audio.label || `kanjo-voice-${audio.id}`)}
+        onSaveAll={(items) => handleDownloadItems(items, '{id}')}
+        onClose={() => setShowBatch(false)}
+      />
+
+      {mixSource && (
+        <MixPanel
+          source={mixSource}
+          settings={mixSettings}
+          onChangeSettings={setMixSettings}
+          onPreview={(buffer) => playAudio(`mix-${mixSource.id}`, buffer)}
+          onSave={handleSaveMix}
+          onClose={() => setMixSource(null)}
+        />
+      )}
+
+      {showLexicon && (
+        <LexiconManager
+          lexicon={lexicon}
+          onChange={setLexicon}
+          onImport={handleImportLexicon}
+          onExport={() => downloadBlob(new Blob([exportLexiconCsv(lexicon)], { type: 'text/csv' }), 'kanjo-lexicon.csv')}
+          onClose={() => setShowLexicon(false)}
+        />
+      )}
+
+      {subtitleTarget && (
+        <CueEditor
+          cues={subtitleTarget.cues}
+          duration={subtitleTarget.item.audioBuffer.duration}
+          onChange={(cues) => setSubtitleTarget({ ...subtitleTarget, cues })}
+          onPreview={(time) => playAudio(subtitleTarget.item.id, subtitleTarget.item.audioBuffer, time)}
+          onExport={handleExportSubtitles}
+          onClose={() => setSubtitleTarget(null)}
+        />
+      )}
+
       {/* Header */}
       <header className="mb-8 text-center max-w-2xl w-full relative">
-        <div className="absolute right-0 top-0">
+        <div className="absolute left-0 top-0 z-40">
+          <ProjectSwitcher
+            projects={projects}
+            activeId={activeProjectId}
+            itemCounts={history.reduce<Record<string, number>>((counts, item) => {
+              const id = item.projectId || DEFAULT_PROJECT_ID;
+              counts[id] = (counts[id] || 0) + 1;
+              return counts;
+            }, {})}
+            onSwitch={handleSwitchProject}
+            onCreate={handleCreateProject}
+            onDuplicate={handleDuplicateProject}
+            onRename={handleRenameProject}
+            onDelete={handleDeleteProject}
+            onImport={handleImportProject}
+            onExport={handleExportProject}
+          />
+        </div>
+        <div className="absolute right-0 top-0 flex">
+          <button
+            onClick={() => setShowBatch(true)}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-all"
+            title={t('app.batch')}
+          >
+            <ListChecks className="w-6 h-6" />
+          </button>
+          <button
+            onClick={() => setShowPostProcess(true)}
+            className={`p-2 hover:text-white hover:bg-slate-800 rounded-full transition-all ${postProcessPreset === 'none' ? 'text-slate-400' : 'text-indigo-400'}`}
+            title={t('app.postProcess')}
+          >
+            <SlidersHorizontal className="w-6 h-6" />
+          </button>
+          <button
+            onClick={() => setShowPromptTemplates(true)}
+            className={`p-2 hover:text-white hover:bg-slate-800 rounded-full transition-all ${activeTemplates.single.builtIn && activeTemplates.conversation.builtIn ? 'text-slate-400' : 'text-indigo-400'}`}
+            title={t('app.promptTemplates')}
+          >
+            <FileCode className="w-6 h-6" />
+          </button>
+          <button
+            onClick={() => setShowLexicon(true)}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-all"
+            title={t('app.lexicon')}
+          >
+            <BookOpen className="w-6 h-6" />
+          </button>
           <button
             onClick={() => setShowSettings(!showSettings)}
             className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-all"
-            title="設定"
+            title={t('app.settings')}
           >
             <Settings className="w-6 h-6" />
           </button>
@@ -472,11 +1407,28 @@ const App: React.FC = () => {
         {showSettings && (
           <div className="absolute top-12 right-0 z-50 w-72 bg-slate-800 border border-slate-700 rounded-xl shadow-2xl p-4 text-left animate-in fade-in zoom-in-95 duration-200">
             <div className="flex items-center gap-2 mb-3 text-indigo-400 font-bold">
-              <Key className="w-4 h-4" /> API設定
+              <Key className="w-4 h-4" /> {t('settings.api')}
             </div>
+            <label className="block text-xs text-slate-400 mb-1">{t('settings.engine')}</label>
+            <select
+              value={providerSettings.id}
+              onChange={(e) => setProviderSettings({ ...providerSettings, id: e.target.value as SpeechProviderSettings['id'] })}
+              className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-sm text-white focus:ring-1 focus:ring-indigo-500 outline-none mb-2"
+            >
+              {SPEECH_PROVIDERS.map(p => <option key={p.id} value={p.id}>{t(p.label)}</option>)}
+            </select>
+            {providerSettings.id === 'local-http' && (
+              <input
+                type="text"
+                value={providerSettings.endpoint || ""}
+                onChange={(e) => setProviderSettings({ ...providerSettings, endpoint: e.target.value })}
+                placeholder="http://localhost:5000/tts"
+                className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-sm text-white focus:ring-1 focus:ring-indigo-500 outline-none mb-2"
+              />
+            )}
             <p className="text-xs text-slate-400 mb-2">
-              Google Gemini APIキーを入力してください。<br />
-              キーはブラウザにのみ保存されます。
+              {t('settings.apiKeyHelp')}<br />
+              {t('settings.apiKeyStored')}
             </p>
             <input
               type="password"
@@ -485,12 +1437,48 @@ const App: React.FC = () => {
               placeholder="AIzaSy..."
               className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-sm text-white focus:ring-1 focus:ring-indigo-500 outline-none mb-2"
             />
+            <div className="flex items-center gap-2 mt-3 mb-2 text-indigo-400 font-bold">
+              <List className="w-4 h-4" /> {t('settings.history')}
+            </div>
+            <label className="flex items-center justify-between text-xs text-slate-400 mb-2">
+              {t('settings.historyLimit')}
+              <input
+                type="number"
+                min={0}
+                value={historyLimitDraft ?? historyLimit}
+                onChange={(e) => setHistoryLimitDraft(e.target.value)}
+                onBlur={applyHistoryLimit}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                  if (e.key === 'Escape') setHistoryLimitDraft(null);
+                }}
+                className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white text-right focus:ring-1 focus:ring-indigo-500 outline-none"
+              />
+            </label>
+            <p className="text-[10px] text-slate-500 mb-2">{t('settings.historyLimitBatchNote')}</p>
+            {storageUsage && (
+              <p className="text-[10px] text-slate-500 mb-2">
+                {t('settings.storageUsage', { count: storageUsage.itemCount, size: formatBytes(storageUsage.audioBytes) })}
+                {storageUsage.usage !== undefined && storageUsage.quota !== undefined &&
+                  t('settings.browserUsage', { usage: formatBytes(storageUsage.usage), quota: formatBytes(storageUsage.quota) })}
+              </p>
+            )}
+            <div className="flex items-center gap-2 mt-3 mb-2 text-indigo-400 font-bold">
+              <Globe className="w-4 h-4" /> {t('settings.displayLanguage')}
+            </div>
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-sm text-white focus:ring-1 focus:ring-indigo-500 outline-none mb-2"
+            >
+              {LOCALES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
             <div className="text-right">
               <button
                 onClick={() => setShowSettings(false)}
                 className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1 rounded"
               >
-                完了
+                {t('common.done')}
               </button>
             </div>
           </div>
@@ -499,19 +1487,27 @@ const App: React.FC = () => {
         <div className="flex items-center justify-center gap-3 mb-2">
           <Sparkles className="w-8 h-8 text-indigo-400" />
           <h1 className="text-4xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-400 via-purple-400 to-pink-400">
-            感情ボイス AI
+            {t('app.title')}
           </h1>
         </div>
-        <p className="text-slate-400 mb-4">Gemini 2.5 日本語 Text-to-Speech</p>
-
-        {/* Remaining Count Badge */}
-        <div className="inline-flex items-center gap-2 px-4 py-1.5 bg-slate-800/80 border border-slate-700/50 rounded-full shadow-lg backdrop-blur-sm">
-          <div className={`w-2 h-2 rounded-full animate-pulse ${remainingCount > 3 ? 'bg-green-500' : remainingCount > 0 ? 'bg-yellow-500' : 'bg-red-500'}`} />
+        <p className="text-slate-400 mb-4">{t('app.subtitle')}</p>
+
+        {/* Usage Badge */}
+        <button
+          onClick={() => setShowUsage(true)}
+          className="inline-flex items-center gap-2 px-4 py-1.5 bg-slate-800/80 border border-slate-700/50 rounded-full shadow-lg backdrop-blur-sm hover:border-slate-500 transition-colors"
+          title={t('usage.title')}
+        >
+          <div className={`w-2 h-2 rounded-full animate-pulse ${usageAlertList.some(a => a.exceeded) ? 'bg-red-500' : usageAlertList.length > 0 ? 'bg-yellow-500' : 'bg-green-500'}`} />
           <span className="text-xs font-semibold text-slate-300">
-            今日の残り生成回数: <span className={`text-sm ${remainingCount === 0 ? 'text-red-400' : 'text-indigo-400'}`}>{remainingCount}</span> / 10
+            {t('app.usageToday')} <span className={`text-sm ${usageAlertList.some(a => a.period === 'daily' && a.exceeded) ? 'text-red-400' : 'text-indigo-400'}`}>{t('usage.requestCount', { count: todayUsage.requests })}</span>
+            {usageBudgets.daily.requests !== undefined && ` / ${formatUsage('requests', usageBudgets.daily.requests)}`}
           </span>
-          <span className="text-[10px] text-slate-500 ml-1">(毎日 17:00 リセット)</span>
-        </div>
+          <span className="text-[10px] text-slate-500">
+            {t('app.usageSummary', { characters: formatUsage('characters', todayUsage.characters), seconds: formatUsage('seconds', todayUsage.seconds) })}
+          </span>
+          <span className="text-[10px] text-slate-500 ml-1">{t('app.quotaReset', { time: formatClockTime(nextUsageReset(now)) })}</span>
+        </button>
       </header>
 
       {/* Main Container */}
@@ -529,7 +1525,7 @@ const App: React.FC = () => {
                 : 'text-slate-400 hover:text-white hover:bg-slate-700/50'
                 }`}
             >
-              <User className="w-4 h-4" /> シングル (1人)
+              <User className="w-4 h-4" /> {t('mode.single')}
             </button>
             <button
               onClick={() => setMode('conversation')}
@@ -538,7 +1534,7 @@ const App: React.FC = () => {
                 : 'text-slate-400 hover:text-white hover:bg-slate-700/50'
                 }`}
             >
-              <Users className="w-4 h-4" /> 会話 (2人)
+              <Users className="w-4 h-4" /> {t('mode.conversation')}
             </button>
           </div>
 
@@ -547,27 +1543,47 @@ const App: React.FC = () => {
             <>
               {/* Voice Select */}
               <div className="bg-slate-800/50 rounded-2xl p-4 border border-slate-700 shadow-xl">
-                <label className="block text-sm font-medium text-slate-400 mb-2 flex items-center gap-2">
-                  <Globe className="w-4 h-4" /> 声の選択
-                </label>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium text-slate-400 flex items-center gap-2">
+                    <Globe className="w-4 h-4" /> {t('single.voice')}
+                  </label>
+                  <button
+                    onClick={() => setShowPersonaManager(true)}
+                    className="text-xs text-slate-400 hover:text-white flex items-center gap-1"
+                  >
+                    <UserCog className="w-3 h-3" /> {t('single.managePersonas')}
+                  </button>
+                </div>
                 <select
                   value={selectedVoiceId}
-                  onChange={(e) => setSelectedVoiceId(e.target.value)}
+                  onChange={(e) => handleSelectVoice(e.target.value)}
                   className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
                 >
-                  {VOICES.map(v => <option key={v.id} value={v.id}>{VOICE_LABELS[v.name]}</option>)}
+                  <optgroup label={t('single.baseVoices')}>
+                    {BASE_VOICES.map(v => <option key={v.id} value={v.id}>{voiceLabel(v)}</option>)}
+                  </optgroup>
+                  {personas.length > 0 && (
+                    <optgroup label={t('single.personas')}>
+                      {personas.map(v => <option key={v.id} value={v.id}>{voiceLabel(v)}</option>)}
+                    </optgroup>
+                  )}
                 </select>
+                {selectedVoice.description && (
+                  <p className="text-[11px] text-slate-500 mt-2">{selectedVoice.description}</p>
+                )}
               </div>
 
+              <EmotionMixer mix={emotionMix} onChange={setEmotionMix} />
+
               {/* Character Description (New) */}
               <div className="bg-slate-800/50 rounded-2xl p-4 border border-slate-700 shadow-xl">
                 <label className="block text-sm font-medium text-slate-400 mb-2 flex items-center gap-2">
-                  <User className="w-4 h-4" /> 人物像・話し方の指定
+                  <User className="w-4 h-4" /> {t('single.description')}
                 </label>
                 <textarea
                   value={singleDescription}
                   onChange={(e) => setSingleDescription(e.target.value)}
-                  placeholder="例: 30代のサラリーマン。少し疲れ気味だが誠実な話し方。"
+                  placeholder={t('single.descriptionPlaceholder')}
                   className="w-full h-16 bg-slate-900/80 border border-slate-700 rounded-lg p-3 text-sm text-white placeholder-slate-600 focus:ring-1 focus:ring-indigo-500 resize-none"
                 />
               </div>
@@ -576,10 +1592,11 @@ const App: React.FC = () => {
               <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-xl backdrop-blur-sm">
                 <div className="flex justify-between items-center mb-2">
                   <label className="block text-sm font-medium text-slate-400 flex items-center gap-2">
-                    <Mic className="w-4 h-4" /> テキスト入力
+                    <Mic className="w-4 h-4" /> {t('single.text')}
                   </label>
-                  <span className={`text-xs ${singleText.length > MAX_CHARS ? 'text-red-400 font-bold' : 'text-slate-500'}`}>
-                    {singleText.length} / {MAX_CHARS}
+                  <span className={`text-xs ${singleText.length > MAX_CHUNK_CHARS ? 'text-indigo-400' : 'text-slate-500'}`}>
+                    {t('single.charCount', { count: singleText.length })}
+                    {singleText.length > MAX_CHUNK_CHARS && t('single.chunkCount', { count: chunkText(singleText, MAX_CHUNK_CHARS, 'single', language).length })}
                   </span>
                 </div>
                 <div className="flex gap-2 overflow-x-auto custom-scrollbar mb-2 pb-1">
@@ -587,24 +1604,22 @@ const App: React.FC = () => {
                     <button
                       key={tag.tag}
                       onClick={() => {
-                        if (singleText.length + tag.tag.length <= MAX_CHARS) {
-                          setSingleText(prev => prev + tag.tag);
-                          textareaRef.current?.focus();
-                        }
+                        setSingleText(prev => prev + tag.tag);
+                        textareaRef.current?.focus();
                       }}
                       className="text-[10px] bg-slate-700 hover:bg-slate-600 text-slate-300 px-2 py-1 rounded transition-colors whitespace-nowrap"
                     >
-                      {tag.label}
+                      {t(tag.label)}
                     </button>
                   ))}
                 </div>
-                <textarea
-                  ref={textareaRef}
+                <MarkupEditor
+                  textareaRef={textareaRef}
                   value={singleText}
-                  onChange={(e) => setSingleText(e.target.value)}
-                  maxLength={MAX_CHARS}
-                  placeholder="ここに読み上げさせたい日本語を入力してください..."
-                  className="w-full h-40 bg-slate-900/80 border border-slate-700 rounded-xl p-4 text-base md:text-lg text-white placeholder-slate-600 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all resize-none leading-relaxed"
+                  onChange={setSingleText}
+                  placeholder={t('single.textPlaceholder')}
+                  boxClassName="w-full h-40 bg-slate-900/80 border border-slate-700 rounded-xl focus-within:ring-2 focus-within:ring-indigo-500 focus-within:border-transparent transition-all"
+                  textClassName="p-4 text-base md:text-lg leading-relaxed"
                 />
               </div>
             </>
@@ -613,58 +1628,60 @@ const App: React.FC = () => {
           {/* CONVERSATION MODE UI */}
           {mode === 'conversation' && (
             <>
-              {/* Speaker Config */}
+              {/* Cast Config */}
               <div className="grid grid-cols-2 gap-4">
-                <div className="bg-slate-800/50 rounded-2xl p-3 border border-slate-700 shadow-xl space-y-2">
-                  <div className="flex items-center gap-2 text-indigo-400 font-bold text-xs uppercase tracking-wider">
-                    <User className="w-3 h-3" /> Speaker A (左)
-                  </div>
-                  <input
-                    type="text"
-                    value={speaker1Name}
-                    onChange={(e) => setSpeaker1Name(e.target.value)}
-                    className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white focus:border-indigo-500 outline-none"
-                    placeholder="名前"
-                  />
-                  <select
-                    value={speaker1Id}
-                    onChange={(e) => setSpeaker1Id(e.target.value)}
-                    className="w-full bg-slate-900 border border-slate-700 rounded p-1 text-xs text-white focus:ring-1 focus:ring-indigo-500 outline-none"
-                  >
-                    {VOICES.map(v => <option key={v.id} value={v.id}>{v.name} ({v.gender === 'Male' ? '男' : '女'})</option>)}
-                  </select>
-                </div>
-
-                <div className="bg-slate-800/50 rounded-2xl p-3 border border-slate-700 shadow-xl space-y-2">
-                  <div className="flex items-center gap-2 text-purple-400 font-bold text-xs uppercase tracking-wider">
-                    <User className="w-3 h-3" /> Speaker B (右)
-                  </div>
-                  <input
-                    type="text"
-                    value={speaker2Name}
-                    onChange={(e) => setSpeaker2Name(e.target.value)}
-                    className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white focus:border-purple-500 outline-none"
-                    placeholder="名前"
-                  />
-                  <select
-                    value={speaker2Id}
-                    onChange={(e) => setSpeaker2Id(e.target.value)}
-                    className="w-full bg-slate-900 border border-slate-700 rounded p-1 text-xs text-white focus:ring-1 focus:ring-purple-500 outline-none"
-                  >
-                    {VOICES.map(v => <option key={v.id} value={v.id}>{v.name} ({v.gender === 'Male' ? '男' : '女'})</option>)}
-                  </select>
-                </div>
+                {cast.map((member, index) => {
+                  const color = CAST_COLORS[index % CAST_COLORS.length];
+                  return (
+                    <div key={member.id} className="relative group bg-slate-800/50 rounded-2xl p-3 border border-slate-700 shadow-xl space-y-2">
+                      <div className={`flex items-center gap-2 font-bold text-xs uppercase tracking-wider ${color.text}`}>
+                        <User className="w-3 h-3" /> {t('cast.speaker', { letter: String.fromCharCode(65 + index) })}
+                      </div>
+                      {cast.length > 2 && (
+                        <button
+                          onClick={() => handleRemoveCastMember(member.id)}
+                          className="absolute top-2 right-2 p-1 text-slate-500 opacity-0 group-hover:opacity-100 hover:text-red-400 transition-all"
+                          title={t('cast.remove')}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
+                      <input
+                        type="text"
+                        value={member.name}
+                        onChange={(e) => handleUpdateCastMember(member.id, { name: e.target.value })}
+                        className={`w-full bg-slate-900 border rounded px-2 py-1 text-xs text-white focus:border-indigo-500 outline-none ${
+                          !castNameKey(member.name) || cast.some(m => m.id !== member.id && castNameKey(m.name) === castNameKey(member.name)) ? 'border-red-500' : 'border-slate-600'
+                        }`}
+                        placeholder={t('cast.namePlaceholder')}
+                      />
+                      <select
+                        value={member.voiceId}
+                        onChange={(e) => handleUpdateCastMember(member.id, { voiceId: e.target.value })}
+                        className="w-full bg-slate-900 border border-slate-700 rounded p-1 text-xs text-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                      >
+                        {voices.map(v => <option key={v.id} value={v.id}>{voiceLabel(v)} ({v.gender === 'Male' ? t('cast.male') : t('cast.female')})</option>)}
+                      </select>
+                    </div>
+                  );
+                })}
+                <button
+                  onClick={handleAddCastMember}
+                  className="min-h-[96px] rounded-2xl border border-dashed border-slate-700 text-slate-500 hover:text-white hover:border-slate-500 flex items-center justify-center gap-1 text-xs transition-colors"
+                >
+                  <Plus className="w-4 h-4" /> {t('cast.add')}
+                </button>
               </div>
 
               {/* Context / Situation */}
               <div className="bg-slate-800/50 rounded-2xl p-4 border border-slate-700 shadow-xl">
                 <label className="block text-xs font-medium text-slate-400 mb-2 flex items-center gap-2">
-                  <MessageSquare className="w-3 h-3" /> シチュエーション・関係性 (AIへの指示)
+                  <MessageSquare className="w-3 h-3" /> {t('conversation.context')}
                 </label>
                 <textarea
                   value={contextDescription}
                   onChange={(e) => setContextDescription(e.target.value)}
-                  placeholder="例: 上司と部下。上司は怒っているが、部下はとぼけている。漫才のような掛け合い。"
+                  placeholder={t('conversation.contextPlaceholder')}
                   className="w-full h-16 bg-slate-900/80 border border-slate-700 rounded-lg p-3 text-sm text-white placeholder-slate-600 focus:ring-1 focus:ring-indigo-500 resize-none"
                 />
               </div>
@@ -674,6 +1691,60 @@ const App: React.FC = () => {
 
                 {/* Header (Toggle) */}
                 <div className="bg-slate-800 border-b border-slate-700 p-2 flex justify-end gap-2">
+                  <div className="mr-auto flex items-center gap-2">
+                    <select
+                      value={renderMode}
+                      onChange={(e) => setRenderMode(e.target.value as ConversationRenderMode)}
+                      className="bg-slate-900 border border-slate-700 rounded px-1 py-1 text-[10px] text-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                      title={t('conversation.renderMode')}
+                    >
+                      <option value="script">{t('conversation.renderScript')}</option>
+                      <option value="perLine">{t('conversation.renderPerLine')}</option>
+                    </select>
+                    {renderMode === 'perLine' && (
+                      <label className="flex items-center gap-1 text-[10px] text-slate-400" title={t('conversation.lineGap')}>
+                        {t('conversation.lineGapShort')}
+                        <input
+                          type="range"
+                          min={0}
+                          max={2}
+                          step={0.1}
+                          value={lineGap}
+                          onChange={(e) => setLineGap(parseFloat(e.target.value))}
+                          className="w-16 accent-indigo-500"
+                        />
+                        <span className="font-mono w-8">{lineGap.toFixed(1)}s</span>
+                      </label>
+                    )}
+                  </div>
+                  <label
+                    className="flex items-center gap-1 text-xs px-2 py-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700/50 cursor-pointer transition-colors"
+                    title={t('conversation.importScript')}
+                  >
+                    <FileUp className="w-3 h-3" />
+                    <input
+                      type="file"
+                      accept=".fountain,.spmd,.csv,.json,.txt"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) handleImportScript(file);
+                      }}
+                    />
+                  </label>
+                  <select
+                    value=""
+                    onChange={(e) => handleExportScript(e.target.value as ScriptFileFormat)}
+                    disabled={convLines.length === 0 && !scriptText.trim()}
+                    className="bg-slate-900 border border-slate-700 rounded px-1 py-1 text-[10px] text-white focus:ring-1 focus:ring-indigo-500 outline-none disabled:opacity-50"
+                    title={t('conversation.exportScript')}
+                  >
+                    <option value="" disabled>{t('conversation.exportPlaceholder')}</option>
+                    {SCRIPT_FILE_FORMATS.map(f => (
+                      <option key={f.id} value={f.id}>{f.label}</option>
+                    ))}
+                  </select>
                   <button
                     onClick={() => {
                       if (isScriptMode) saveScript();
@@ -684,7 +1755,7 @@ const App: React.FC = () => {
                       : 'text-slate-400 hover:text-white hover:bg-slate-700/50'
                       }`}
                   >
-                    <FileText className="w-3 h-3" /> スクリプト編集
+                    <FileText className="w-3 h-3" /> {t('conversation.scriptEditor')}
                   </button>
                   <button
                     onClick={() => setIsScriptMode(false)}
@@ -693,7 +1764,7 @@ const App: React.FC = () => {
                       : 'text-slate-400 hover:text-white hover:bg-slate-700/50'
                       }`}
                   >
-                    <List className="w-3 h-3" /> 吹き出しモード
+                    <List className="w-3 h-3" /> {t('conversation.bubbles')}
                   </button>
                 </div>
 
@@ -701,17 +1772,20 @@ const App: React.FC = () => {
                 {isScriptMode ? (
                   <div className="flex-1 flex flex-col p-4 bg-slate-900/50">
                     <div className="text-[10px] text-slate-500 mb-2">
-                      A: Aさんのセリフ / B: Bさんのセリフ / A&B: 二人同時<br />
-                      例) <br />
-                      A: おはよう<br />
-                      B: (Happy) おはようございます！<br />
-                      A&B: やったー！
+                      {t('conversation.scriptHelp')}<br />
+                      {t('conversation.example')} <br />
+                      {cast[0]?.name}: {t('conversation.exampleGreeting')}<br />
+                      {cast[1]?.name}: (Happy) {t('conversation.exampleReply')}<br />
+                      {cast[0]?.name} & {cast[1]?.name}: {t('conversation.exampleTogether')}<br />
+                      {t('conversation.markupHelp')} [pause 800ms] / [slow]…[/slow] / [fast]…[/fast] / [emph]…[/emph]
                     </div>
-                    <textarea
+                    <MarkupEditor
+                      byLine
                       value={scriptText}
-                      onChange={(e) => setScriptText(e.target.value)}
-                      className="flex-1 w-full bg-slate-800 border border-slate-600 rounded-lg p-3 text-sm font-mono text-white resize-none focus:ring-2 focus:ring-indigo-500 outline-none leading-relaxed"
-                      placeholder="スクリプトを入力..."
+                      onChange={setScriptText}
+                      placeholder={t('conversation.scriptPlaceholder')}
+                      boxClassName="flex-1 w-full bg-slate-800 border border-slate-600 rounded-lg focus-within:ring-2 focus-within:ring-indigo-500"
+                      textClassName="p-3 text-sm font-mono leading-relaxed"
                     />
                     <div className="mt-2 flex gap-2">
                       {EMOTION_TAGS.map((tag) => (
@@ -720,7 +1794,7 @@ const App: React.FC = () => {
                           onClick={() => handleInsertTag(tag.tag)}
                           className="text-[10px] bg-slate-700 hover:bg-slate-600 text-slate-300 px-2 py-1 rounded transition-colors whitespace-nowrap"
                         >
-                          {tag.label}
+                          {t(tag.label)}
                         </button>
                       ))}
                     </div>
@@ -732,48 +1806,96 @@ const App: React.FC = () => {
                       {convLines.length === 0 && (
                         <div className="h-full flex flex-col items-center justify-center text-slate-600 space-y-2">
                           <MessageSquare className="w-8 h-8 opacity-20" />
-                          <span className="text-xs">下の入力欄から会話を追加してください</span>
+                          <span className="text-xs">{t('conversation.empty')}</span>
                         </div>
                       )}
-                      {convLines.map((line) => (
-                        <div key={line.id} className={`flex items-start gap-2 ${line.speaker === 'A' ? 'justify-start' : line.speaker === 'B' ? 'justify-end' : 'justify-center'}`}>
-                          {line.speaker === 'A' && (
-                            <div className="w-6 h-6 rounded-full bg-indigo-600 flex items-center justify-center text-[10px] text-white font-bold shrink-0 mt-1">A</div>
-                          )}
-
-                          <div className={`relative group max-w-[80%] p-3 rounded-2xl text-sm ${line.speaker === 'A'
-                            ? 'bg-indigo-900/60 text-indigo-100 rounded-tl-none border border-indigo-500/20'
-                            : line.speaker === 'B'
-                              ? 'bg-purple-900/60 text-purple-100 rounded-tr-none border border-purple-500/20'
-                              : 'bg-gradient-to-r from-indigo-900/60 to-purple-900/60 text-slate-100 border border-slate-500/30 text-center mx-4 font-bold'
-                            }`}>
-                            {line.text}
-                            <button
-                              onClick={() => handleDeleteLine(line.id)}
-                              className="absolute -top-2 -right-2 bg-slate-800 rounded-full p-1 text-slate-400 opacity-0 group-hover:opacity-100 transition-all hover:text-red-400 border border-slate-600"
-                            >
-                              <X className="w-3 h-3" />
-                            </button>
+                      {convLines.map((line) => {
+                        const index = Math.max(0, cast.findIndex(m => m.id === line.speaker));
+                        const color = CAST_COLORS[index % CAST_COLORS.length];
+                        const isLeft = index % 2 === 0;
+                        const avatar = (
+                          <div className={`w-6 h-6 rounded-full ${color.avatar} flex items-center justify-center text-[10px] text-white font-bold shrink-0 mt-1`} title={cast[index]?.name}>
+                            {String.fromCharCode(65 + index)}
                           </div>
-
-                          {line.speaker === 'B' && (
-                            <div className="w-6 h-6 rounded-full bg-purple-600 flex items-center justify-center text-[10px] text-white font-bold shrink-0 mt-1">B</div>
-                          )}
-                        </div>
-                      ))}
+                        );
+                        return (
+                          <div key={line.id} className={`flex items-start gap-2 ${line.partner ? 'justify-center' : isLeft ? 'justify-start' : 'justify-end'}`}>
+                            {!line.partner && isLeft && avatar}
+
+                            <div className={`relative group max-w-[80%] p-3 rounded-2xl text-sm border ${line.partner
+                              ? 'bg-gradient-to-r from-indigo-900/60 to-purple-900/60 text-slate-100 border-slate-500/30 text-center mx-4 font-bold'
+                              : `${color.bubble} ${isLeft ? 'rounded-tl-none' : 'rounded-tr-none'}`
+                              }`}>
+                              <div className={`flex items-center gap-1 mb-0.5 ${line.partner ? 'justify-center' : ''}`}>
+                                {(line.partner || cast.length > 2) && (
+                                  <span className="text-[10px] opacity-60">{lineSpeakerLabel(line, cast)}</span>
+                                )}
+                                <select
+                                  value={line.emotion || ''}
+                                  onChange={(e) => handleSetLineEmotion(line.id, (e.target.value || undefined) as Emotion | undefined)}
+                                  className={`text-[9px] rounded-full px-1.5 py-0.5 outline-none cursor-pointer font-normal transition-opacity ${line.emotion
+                                    ? 'bg-pink-500/30 text-pink-200 border border-pink-400/40'
+                                    : 'bg-slate-900/40 text-slate-400 border border-transparent opacity-0 group-hover:opacity-100 focus:opacity-100'
+                                    }`}
+                                  title={t('conversation.lineEmotion')}
+                                >
+                                  <option value="">{t('conversation.inherit')}</option>
+                                  {Object.values(Emotion).map(e => (
+                                    <option key={e} value={e}>{emotionLabel(e)}</option>
+                                  ))}
+                                </select>
+                              </div>
+                              {renderRuby(line.text)}
+                              {renderMode === 'perLine' && (
+                                <div className="flex items-center justify-end gap-1 mt-1">
+                                  {isTakeFresh(lineTakes[line.id], line, lineRenderContext) ? (
+                                    <button
+                                      onClick={() => playAudio(`take-${line.id}`, lineTakes[line.id].audioBuffer)}
+                                      className="p-0.5 text-green-400 hover:text-green-300"
+                                      title={t('conversation.playTake')}
+                                    >
+                                      <Play className="w-3 h-3 fill-current" />
+                                    </button>
+                                  ) : lineTakes[line.id] && (
+                                    <span className="text-[9px] text-yellow-500" title={t('conversation.staleHint')}>{t('conversation.stale')}</span>
+                                  )}
+                                  <button
+                                    onClick={() => handleRegenerateLine(line)}
+                                    disabled={isGenerating}
+                                    className="p-0.5 text-slate-400 hover:text-white disabled:opacity-40"
+                                    title={t('conversation.regenerateLine')}
+                                  >
+                                    {renderingLineId === line.id
+                                      ? <Loader2 className="w-3 h-3 animate-spin" />
+                                      : <RefreshCw className="w-3 h-3" />}
+                                  </button>
+                                </div>
+                              )}
+                              <button
+                                onClick={() => handleDeleteLine(line.id)}
+                                className="absolute -top-2 -right-2 bg-slate-800 rounded-full p-1 text-slate-400 opacity-0 group-hover:opacity-100 transition-all hover:text-red-400 border border-slate-600"
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            </div>
+
+                            {!line.partner && !isLeft && avatar}
+                          </div>
+                        );
+                      })}
                     </div>
 
                     {/* Input Area */}
                     <div className="bg-slate-800 p-3 border-t border-slate-700">
                       <div className="flex gap-1 overflow-x-auto custom-scrollbar mb-2 pb-1">
-                        <span className="text-[10px] text-slate-500 self-center mr-1">感情:</span>
+                        <span className="text-[10px] text-slate-500 self-center mr-1">{t('conversation.emotion')}</span>
                         {EMOTION_TAGS.map((tag) => (
                           <button
                             key={tag.tag}
                             onClick={() => handleInsertTag(tag.tag)}
                             className="text-[10px] bg-slate-700 hover:bg-slate-600 text-slate-300 px-2 py-1 rounded transition-colors whitespace-nowrap"
                           >
-                            {tag.label}
+                            {t(tag.label)}
                           </button>
                         ))}
                       </div>
@@ -787,35 +1909,55 @@ const App: React.FC = () => {
                           if (e.key === 'Enter' && !e.shiftKey) {
                           }
                         }}
-                        placeholder="発言を入力..."
+                        placeholder={t('conversation.linePlaceholder')}
                         className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm focus:ring-1 focus:ring-indigo-500 outline-none mb-2"
                       />
 
-                      <div className="grid grid-cols-5 gap-2">
-                        <button
-                          onClick={() => handleAddLine('A')}
-                          disabled={!newLineText.trim()}
-                          className="col-span-2 flex items-center justify-center gap-1 bg-indigo-700 hover:bg-indigo-600 disabled:opacity-50 text-white py-2 rounded-lg text-xs font-bold transition-colors"
-                        >
-                          <ArrowLeft className="w-3 h-3" /> {speaker1Name}
-                        </button>
-
-                        <button
-                          onClick={() => handleAddLine('Both')}
-                          disabled={!newLineText.trim()}
-                          className="col-span-1 flex items-center justify-center gap-1 bg-slate-600 hover:bg-slate-500 disabled:opacity-50 text-white py-2 rounded-lg text-xs font-bold transition-colors"
-                          title="二人同時"
-                        >
-                          <ArrowUp className="w-3 h-3" /> & <ArrowUp className="w-3 h-3" />
-                        </button>
-
-                        <button
-                          onClick={() => handleAddLine('B')}
-                          disabled={!newLineText.trim()}
-                          className="col-span-2 flex items-center justify-center gap-1 bg-purple-700 hover:bg-purple-600 disabled:opacity-50 text-white py-2 rounded-lg text-xs font-bold transition-colors"
-                        >
-                          {speaker2Name} <ArrowRight className="w-3 h-3" />
-                        </button>
+                      <div className="flex flex-wrap gap-2">
+                        {cast.map((member, index) => {
+                          const color = CAST_COLORS[index % CAST_COLORS.length];
+                          const isLeft = index % 2 === 0;
+                          return (
+                            <React.Fragment key={member.id}>
+                              <button
+                                onClick={() => handleAddLine(member.id)}
+                                disabled={!newLineText.trim()}
+                                className={`flex-1 min-w-[30%] flex items-center justify-center gap-1 ${color.button} disabled:opacity-50 text-white py-2 rounded-lg text-xs font-bold transition-colors`}
+                              >
+                                {isLeft && <ArrowLeft className="w-3 h-3" />} {member.name} {!isLeft && <ArrowRight className="w-3 h-3" />}
+                              </button>
+
+                              {/* Lines spoken together sit between the first two speakers, as in the two-person layout */}
+                              {index === 0 && cast.length === 2 && (
+                                <button
+                                  onClick={() => handleAddLine(cast[0].id, cast[1].id)}
+                                  disabled={!newLineText.trim()}
+                                  className="flex items-center justify-center gap-1 bg-slate-600 hover:bg-slate-500 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-xs font-bold transition-colors"
+                                  title={t('conversation.together')}
+                                >
+                                  <ArrowUp className="w-3 h-3" /> & <ArrowUp className="w-3 h-3" />
+                                </button>
+                              )}
+                            </React.Fragment>
+                          );
+                        })}
+                        {cast.length > 2 && (
+                          <select
+                            value=""
+                            onChange={(e) => {
+                              const [a, b] = e.target.value.split('|');
+                              if (a && b) handleAddLine(a, b);
+                            }}
+                            disabled={!newLineText.trim()}
+                            className="flex-1 min-w-[30%] bg-slate-600 disabled:opacity-50 text-white py-2 px-1 rounded-lg text-xs font-bold outline-none"
+                            title={t('conversation.together')}
+                          >
+                            <option value="">{t('conversation.togetherPick')}</option>
+                            {cast.flatMap((a, i) => cast.slice(i + 1).map(b => (
+                              <option key={`${a.id}|${b.id}`} value={`${a.id}|${b.id}`}>{a.name} & {b.name}</option>
+                            )))}
+                          </select>
+                        )}
                       </div>
                     </div>
                   </>
@@ -824,7 +1966,45 @@ const App: React.FC = () => {
             </>
           )}
 
+          {notice && (
+            <ErrorNotice
+              title={notice.title}
+              message={notice.message}
+              tone={notice.tone || (notice.kind === 'cancelled' ? 'info' : 'error')}
+              action={notice.kind === 'invalidKey' ? { label: t('generate.openSettings'), onClick: () => setShowSettings(true) } : undefined}
+              onClose={() => setNotice(null)}
+            />
+          )}
+
           {/* Action Button */}
+          <div className="flex items-center justify-end gap-2 -mb-3 text-xs text-slate-400">
+            <label htmlFor="speech-language">{t('generate.language')}</label>
+            <select
+              id="speech-language"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as SpeechLanguage)}
+              className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-white focus:ring-1 focus:ring-indigo-500 outline-none"
+            >
+              {SPEECH_LANGUAGES.map(l => <option key={l.id} value={l.id}>{t(l.label)}</option>)}
+            </select>
+            <label className="flex items-center gap-1 ml-2" title={t('generate.fillersHint')}>
+              <input type="checkbox" checked={fillers} onChange={(e) => setFillers(e.target.checked)} className="accent-indigo-500" />
+              {t('generate.fillers')}
+            </label>
+            {!(mode === 'conversation' && renderMode === 'perLine') && (
+              <>
+                <label htmlFor="take-count" className="ml-2">{t('generate.takes')}</label>
+                <select
+                  id="take-count"
+                  value={takeCount}
+                  onChange={(e) => setTakeCount(Number(e.target.value))}
+                  className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                >
+                  {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </>
+            )}
+          </div>
           <button
             onClick={handleGenerate}
             disabled={isGenerating || !hasContent}
@@ -835,14 +2015,25 @@ const App: React.FC = () => {
           >
             {isGenerating ? (
               <>
-                <Loader2 className="w-6 h-6 animate-spin" /> 生成中...
+                <Loader2 className="w-6 h-6 animate-spin" /> {t('generate.running')}
+                {generationProgress && ` (${generationProgress.completed}/${generationProgress.total})`}
+                {retryStatus && <span className="text-sm font-normal"> {retryStatus}</span>}
               </>
             ) : (
               <>
-                <Sparkles className="w-6 h-6" /> 音声を生成
+                <Sparkles className="w-6 h-6" /> {t('generate.start')}
               </>
             )}
           </button>
+
+          {isGenerating && (
+            <button
+              onClick={handleCancelGeneration}
+              className="w-full -mt-3 py-2 rounded-xl text-sm text-slate-400 hover:text-white hover:bg-slate-800 border border-slate-700 flex items-center justify-center gap-2 transition-colors"
+            >
+              <X className="w-4 h-4" /> {t('common.cancel')}
+            </button>
+          )}
         </div>
 
         {/* Right Column: Output & History */}
@@ -852,14 +2043,18 @@ const App: React.FC = () => {
           <div className="bg-slate-900 rounded-2xl p-4 border border-slate-700 shadow-inner relative overflow-hidden shrink-0 flex flex-col justify-end min-h-[160px]">
             <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-slate-800 via-slate-900 to-slate-950 opacity-50 pointer-events-none" />
 
-            {/* Waveform Visualization */}
-            <div className="absolute inset-0 z-0 opacity-30 flex items-center">
-              <Waveform isPlaying={isPlaying} />
-            </div>
-
             <div className="relative z-10 w-full space-y-4">
               {currentlyPlayingId ? (
                 <>
+                  {/* Waveform Visualization */}
+                  <Waveform
+                    buffer={activeBufferRef.current}
+                    currentTime={currentTime}
+                    isPlaying={isPlaying}
+                    analyser={analyserRef.current}
+                    onSeek={seekTo}
+                  />
+
                   <div className="flex justify-between items-center px-1">
                     <span className="text-xs text-indigo-400 font-mono">{formatTime(currentTime)}</span>
                     <span className="text-xs text-slate-500 font-mono">{formatTime(duration)}</span>
@@ -884,9 +2079,13 @@ const App: React.FC = () => {
                     </button>
 
                     <button
-                      onClick={() => activeBufferRef.current && handleDownload(activeBufferRef.current, `kanjo-voice-${currentlyPlayingId}`)}
+                      onClick={() => {
+                        const playing = history.find(item => item.id === currentlyPlayingId);
+                        if (playing) handleDownloadItems([playing]);
+                        else if (activeBufferRef.current) handleDownload(activeBufferRef.current, `kanjo-voice-${currentlyPlayingId}`);
+                      }}
                       className="w-10 h-10 bg-slate-800 text-slate-400 rounded-full flex items-center justify-center hover:bg-slate-700 hover:text-white transition-all border border-slate-700"
-                      title="音声保存 (WAV)"
+                      title={t('player.download')}
                     >
                       <Download className="w-4 h-4" />
                     </button>
@@ -895,7 +2094,7 @@ const App: React.FC = () => {
               ) : (
                 <div className="h-full flex flex-col items-center justify-center text-slate-600 py-4">
                   <Music className="w-10 h-10 mb-2 opacity-20" />
-                  <span className="text-sm">再生する履歴を選択</span>
+                  <span className="text-sm">{t('player.empty')}</span>
                 </div>
               )}
             </div>
@@ -905,45 +2104,127 @@ const App: React.FC = () => {
           <div className="flex-1 bg-slate-800/50 rounded-2xl border border-slate-700 shadow-xl overflow-hidden flex flex-col min-h-[400px]">
             <div className="p-4 border-b border-slate-700 bg-slate-800/80 backdrop-blur-md sticky top-0 z-20 flex justify-between items-center">
               <h2 className="font-semibold text-slate-300 flex items-center gap-2">
-                <List className="w-4 h-4" /> 履歴
+                <List className="w-4 h-4" /> {t('history.title')}
               </h2>
-              {history.length > 0 && (
-                <button
-                  onClick={(e) => { e.stopPropagation(); setHistory([]); stopSource(); setCurrentlyPlayingId(null); }}
-                  className="text-xs text-slate-500 hover:text-red-400"
-                >
-                  全て削除
-                </button>
+              {selectedIds ? (
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setSelectedIds(selectedItems.length === projectHistory.length ? [] : projectHistory.map(item => item.id))}
+                    className="text-xs text-slate-400 hover:text-white"
+                  >
+                    {selectedItems.length === projectHistory.length ? t('history.deselectAll') : t('history.selectAll')}
+                  </button>
+                  <button
+                    onClick={() => handleDownloadItems(selectedItems)}
+                    disabled={selectedItems.length === 0}
+                    className="text-xs text-indigo-300 hover:text-white flex items-center gap-1 disabled:opacity-40"
+                  >
+                    <FileArchive className="w-3 h-3" /> {t('history.saveZip', { count: selectedItems.length })}
+                  </button>
+                  <button onClick={() => setSelectedIds(null)} className="text-xs text-slate-500 hover:text-white">
+                    {t('common.done')}
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3">
+                  {projectHistory.length > 0 && (
+                    <button
+                      onClick={() => setSelectedIds([])}
+                      className="text-xs text-slate-500 hover:text-white flex items-center gap-1"
+                    >
+                      <CheckSquare className="w-3 h-3" /> {t('history.select')}
+                    </button>
+                  )}
+                  {projectHistory.some(hasAlternates) && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDeleteUnchosenTakes(projectHistory); }}
+                      className="text-xs text-slate-500 hover:text-red-400"
+                    >
+                      {t('history.deleteUnchosen')}
+                    </button>
+                  )}
+                  {projectHistory.length > 0 && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); clearAllHistory(); }}
+                      className="text-xs text-slate-500 hover:text-red-400"
+                    >
+                      {t('history.clear')}
+                    </button>
+                  )}
+                </div>
               )}
             </div>
 
             <div className="overflow-y-auto flex-1 p-4 space-y-3 custom-scrollbar">
-              {history.length === 0 && (
+              {projectHistory.length === 0 && (
                 <div className="text-center text-slate-500 py-10 italic">
-                  まだ履歴がありません。
+                  {t('history.empty')}
                 </div>
               )}
 
-              {history.map((item) => (
+              {projectHistory.map((item) => (
                 <div
                   key={item.id}
-                  onClick={() => playAudio(item.id, item.audioBuffer)}
-                  className={`group relative p-4 rounded-xl border transition-all cursor-pointer hover:shadow-lg ${currentlyPlayingId === item.id
+                  onClick={() => selectedIds ? toggleSelected(item.id) : playAudio(item.id, item.audioBuffer)}
+                  className={`group relative p-4 rounded-xl border transition-all cursor-pointer hover:shadow-lg ${currentlyPlayingId === item.id || selectedIds?.includes(item.id)
                     ? "bg-slate-700/80 border-indigo-500/50 ring-1 ring-indigo-500/20"
                     : "bg-slate-800 border-slate-700 hover:bg-slate-750 hover:border-slate-600"
                     }`}
                 >
                   <div className="flex justify-between items-start mb-2 border-b border-slate-700/50 pb-2">
                     <div className="flex items-center gap-2 flex-wrap">
+                      {selectedIds && (selectedIds.includes(item.id)
+                        ? <CheckSquare className="w-4 h-4 text-indigo-400" />
+                        : <Square className="w-4 h-4 text-slate-500" />)}
                       <span className={`text-[10px] px-2 py-0.5 rounded-full uppercase font-bold tracking-wider ${item.mode === 'conversation' ? 'bg-purple-600 text-white' : 'bg-indigo-600 text-white'}`}>
-                        {item.mode === 'single' ? 'SINGLE' : 'CONV'}
+                        {item.mode === 'single' ? t('history.single') : t('history.conversation')}
                       </span>
+                      {item.mix && (
+                        <span className="text-[10px] text-emerald-300 bg-emerald-500/10 px-1.5 py-0.5 rounded" title={[item.mix.music, ...item.mix.sfx.map(s => s.name)].filter(Boolean).join(' / ')}>
+                          {t('history.mix')}
+                        </span>
+                      )}
+                      {item.emotionMix && (
+                        <span className="text-[10px] text-pink-300 bg-pink-500/10 px-1.5 py-0.5 rounded">
+                          {formatEmotionMix(item.emotionMix)}
+                        </span>
+                      )}
+                      <select
+                        value={item.postProcess || 'none'}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => handleReprocess(item, e.target.value as PostProcessPresetId)}
+                        className={`text-[10px] rounded px-1 py-0.5 border-none outline-none cursor-pointer ${item.postProcess ? 'bg-teal-500/10 text-teal-300' : 'bg-slate-900 text-slate-500'}`}
+                        title={t('app.postProcess')}
+                      >
+                        {POST_PROCESS_PRESETS.map(p => <option key={p.id} value={p.id}>{p.id === 'none' ? t('history.noPostProcess') : t(p.label)}</option>)}
+                        <option value="custom">{t('common.custom')}</option>
+                      </select>
+                      {item.originalBuffer && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); playAudio(`original-${item.id}`, item.originalBuffer!); }}
+                          className={`text-[10px] px-1.5 py-0.5 rounded transition-colors ${currentlyPlayingId === `original-${item.id}` ? 'bg-teal-500 text-white' : 'bg-slate-900 text-slate-400 hover:text-white'}`}
+                          title={t('history.playOriginal')}
+                        >
+                          {t('history.original')}
+                        </button>
+                      )}
+                      {item.promptTemplates?.some(ref => !DEFAULT_PROMPT_TEMPLATES.some(entry => entry.id === ref.id)) && (
+                        <span className="text-[10px] text-sky-300 bg-sky-500/10 px-1.5 py-0.5 rounded" title={t('app.promptTemplates')}>
+                          {item.promptTemplates.map(formatTemplateRef).join(' / ')}
+                        </span>
+                      )}
+                      {item.language && item.language !== 'ja' && (
+                        <span className="text-[10px] text-slate-300 bg-slate-900 px-1.5 py-0.5 rounded" title={t('generate.language')}>
+                          {t(speechLanguage(item.language).label)}
+                        </span>
+                      )}
                       {item.contextDescription && (
                         <span className="text-[10px] text-slate-400 truncate max-w-[150px] italic">
-                          {item.mode === 'conversation' ? 'Sit: ' : 'Char: '}{item.contextDescription}
+                          {item.mode === 'conversation' ? t('history.situation') : t('history.character')}{item.contextDescription}
                         </span>
                       )}
                     </div>
+                    <WaveformThumbnail buffer={item.audioBuffer} color={item.mode === 'conversation' ? '#c084fc' : '#818cf8'} />
                     {item.mode === 'single' && (
                       <div className="text-xs text-slate-400 bg-slate-900 px-2 py-0.5 rounded flex items-center gap-1">
                         <span className="w-2 h-2 rounded-full bg-green-500"></span>
@@ -957,18 +2238,51 @@ const App: React.FC = () => {
                     {renderHistoryBubble(item)}
                   </div>
 
+                  {hasAlternates(item) && (
+                    <TakeCompare
+                      takes={takesOf(item)}
+                      playingTake={playingTakeOf(item)}
+                      isPlaying={isPlaying}
+                      onPlay={(take) => handlePlayTake(item, take)}
+                      onRate={(take, rating) => updateHistoryItem(rateTake(item, take, rating))}
+                      onPromote={(take) => handlePromoteTake(item, take)}
+                      onDeleteUnchosen={() => handleDeleteUnchosenTakes([item])}
+                    />
+                  )}
+
                   <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                     <button
-                      onClick={(e) => { e.stopPropagation(); handleDownload(item.audioBuffer, `kanjo-voice-${item.id}`); }}
+                      onClick={(e) => { e.stopPropagation(); handleRestoreSettings(item); }}
+                      className="p-1.5 hover:bg-slate-600/50 rounded-lg text-slate-400 hover:text-white transition-colors"
+                      title={t('history.restore')}
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleOpenSubtitles(item); }}
+                      className="p-1.5 hover:bg-slate-600/50 rounded-lg text-slate-400 hover:text-white transition-colors"
+                      title={t('history.subtitles')}
+                    >
+                      <Captions className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setMixSource(item); }}
+                      className="p-1.5 hover:bg-slate-600/50 rounded-lg text-slate-400 hover:text-white transition-colors"
+                      title={t('history.mixMusic')}
+                    >
+                      <Layers className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDownloadItems([item]); }}
                       className="p-1.5 hover:bg-slate-600/50 rounded-lg text-slate-400 hover:text-white transition-colors"
-                      title="保存"
+                      title={t('common.save')}
                     >
                       <Download className="w-4 h-4" />
                     </button>
                     <button
                       onClick={(e) => deleteHistoryItem(item.id, e)}
                       className="p-1.5 hover:bg-red-500/20 rounded-lg text-slate-500 hover:text-red-400 transition-colors"
-                      title="削除"
+                      title={t('common.delete')}
                     >
                       <Trash2 className="w-4 h-4" />
                     </button>
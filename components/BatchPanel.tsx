@@ -0,0 +1,326 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CircleCheck, Download, FileArchive, FileUp, ListChecks, Loader2, Pause, Play, Plus, RotateCcw, Trash2, TriangleAlert, X } from 'lucide-react';
+import { BatchItem, BatchSettings, GeneratedAudio, MessageKey, VoiceOption } from '../types';
+import { speechLanguage } from '../constants';
+import { BatchQueue, createBatchQueue, importBatchCsv, parseBatchText } from '../services/batch';
+import { ScriptIssue } from '../services/scriptInterchange';
+import { emotionLabel, t, voiceLabel } from '../services/i18n';
+
+interface BatchPanelProps {
+  open: boolean; // The panel stays mounted while closed so the queue keeps running
+  voices: VoiceOption[];
+  defaultVoice: VoiceOption; // Used by items without a voice
+  settings: BatchSettings;
+  onChangeSettings: (settings: BatchSettings) => void;
+  run: (item: BatchItem, signal: AbortSignal, onRetry: (attempt: number, delayMs: number) => void) => Promise<GeneratedAudio>;
+  playingId: string | null;
+  isPlaying: boolean;
+  onPlay: (audio: GeneratedAudio) => void;
+  onDownload: (audio: GeneratedAudio) => void;
+  onSaveAll: (audios: GeneratedAudio[]) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItem['status'], MessageKey> = {
+  pending: 'batch.status.pending',
+  running: 'batch.status.running',
+  done: 'batch.status.done',
+  failed: 'batch.status.failed',
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  open, voices, defaultVoice, settings, onChangeSettings, run, playingId, isPlaying, onPlay, onDownload, onSaveAll, onClose,
+}) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const [finished, setFinished] = useState(false); // Show the summary once the queue runs dry
+  const [stopReason, setStopReason] = useState<string | null>(null); // Set when the queue paused itself
+  const [input, setInput] = useState('');
+  const [issues, setIssues] = useState<ScriptIssue[]>([]);
+
+  // The queue outlives renders; the worker it calls is refreshed every render so it sees current settings
+  const runRef = useRef(run);
+  runRef.current = run;
+  const queueRef = useRef<BatchQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createBatchQueue({
+      ...settings,
+      run: (item, signal, onRetry) => runRef.current(item, signal, onRetry),
+      onChange: (next) => {
+        setItems(next);
+        setRunning(!queueRef.current!.isPaused());
+      },
+      onIdle: () => {
+        setRunning(false);
+        setFinished(true);
+        setStopReason(null);
+      },
+      onStopped: (_, reason) => {
+        setRunning(false);
+        setFinished(true);
+        setStopReason(reason);
+      },
+    });
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => {
+    queue.configure(settings);
+  }, [settings.concurrency, settings.intervalMs]);
+
+  // Abort requests still in flight if the app itself goes away
+  useEffect(() => () => queue.clear(), []);
+
+  const addItems = (result: { items: BatchItem[]; issues: ScriptIssue[] }) => {
+    setIssues(result.issues);
+    if (result.items.length === 0) return;
+    setFinished(false);
+    setStopReason(null);
+    queue.add(result.items);
+  };
+
+  const handleAddText = () => {
+    if (!input.trim()) return;
+    addItems(parseBatchText(input, voices, items));
+    setInput('');
+  };
+
+  const handleImportFile = async (file: File) => {
+    const text = await file.text();
+    addItems(/\.csv$/i.test(file.name) ? importBatchCsv(text, voices, items) : parseBatchText(text, voices, items));
+  };
+
+  const handleStart = () => {
+    setFinished(false);
+    setStopReason(null);
+    queue.start();
+    setRunning(!queue.isPaused());
+  };
+
+  const handlePause = () => {
+    queue.pause();
+    setRunning(false);
+  };
+
+  const handleRetry = (ids: string[]) => {
+    setFinished(false);
+    queue.retry(ids);
+    handleStart();
+  };
+
+  const handleClear = () => {
+    if (items.some(i => i.status === 'running' || i.status === 'pending') && !confirm(t('batch.clearConfirm'))) return;
+    queue.clear();
+    setRunning(false);
+    setFinished(false);
+    setStopReason(null);
+    setIssues([]);
+  };
+
+  const done = items.filter(i => i.status === 'done');
+  const failed = items.filter(i => i.status === 'failed');
+  const pending = items.filter(i => i.status === 'pending').length;
+  const progress = items.length > 0 ? (done.length + failed.length) / items.length : 0;
+  const voiceName = (item: BatchItem) => {
+    const voice = voices.find(v => v.id === item.voiceId);
+    return voice ? voiceLabel(voice) : t('batch.defaultVoice', { voice: voiceLabel(defaultVoice) });
+  };
+
+  if (!open) return null;
+
+  const inputClass = "w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-white outline-none focus:ring-1 focus:ring-indigo-500";
+  const button = "px-3 py-1.5 rounded text-xs text-white flex items-center gap-1 disabled:opacity-50";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] bg-slate-800 border border-slate-700 rounded-xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+          <div className="flex items-center gap-2 text-indigo-400 font-bold">
+            <ListChecks className="w-4 h-4" /> {t('batch.title')}
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors" title={t('batch.closeHint')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar">
+          {/* Input */}
+          <div className="space-y-2">
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              rows={4}
+              placeholder={t('batch.placeholder')}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-xs text-white placeholder-slate-600 outline-none focus:ring-1 focus:ring-indigo-500 resize-y font-mono"
+            />
+            <div className="flex items-center justify-between">
+              <label className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white flex items-center gap-1 cursor-pointer">
+                <FileUp className="w-3 h-3" /> {t('batch.importCsv')}
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt,text/csv,text/plain"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportFile(file).finally(() => { e.target.value = ''; });
+                  }}
+                />
+              </label>
+              <button onClick={handleAddText} disabled={!input.trim()} className={`${button} bg-slate-700 hover:bg-slate-600`}>
+                <Plus className="w-3 h-3" /> {t('batch.enqueue')}
+              </button>
+            </div>
+            {issues.length > 0 && (
+              <ul className="text-[11px] text-amber-300 space-y-0.5">
+                {issues.slice(0, 5).map((issue, i) => <li key={i}>{t('common.rowIssue', { row: issue.row, message: issue.message })}</li>)}
+                {issues.length > 5 && <li>{t('common.andMore', { count: issues.length - 5 })}</li>}
+              </ul>
+            )}
+          </div>
+
+          {/* Pacing */}
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+            <label className="flex items-center gap-1">
+              {t('batch.concurrency')}
+              <select
+                value={settings.concurrency}
+                onChange={(e) => onChangeSettings({ ...settings, concurrency: Number(e.target.value) })}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-white outline-none"
+              >
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              {t('batch.interval')}
+              <input
+                type="number"
+                min={0}
+                max={60}
+                step={0.5}
+                value={settings.intervalMs / 1000}
+                onChange={(e) => onChangeSettings({ ...settings, intervalMs: Math.max(0, Number(e.target.value)) * 1000 })}
+                className={inputClass}
+              />
+              {t('common.seconds')}
+            </label>
+          </div>
+
+          {/* Progress */}
+          {items.length > 0 && (
+            <div className="space-y-1">
+              <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress * 100}%` }} />
+              </div>
+              <div className="text-[11px] text-slate-500">
+                {t('batch.progress', { done: done.length, total: items.length })}{failed.length > 0 && t('batch.progressFailed', { count: failed.length })}{pending > 0 && t('batch.progressPending', { count: pending })}
+              </div>
+            </div>
+          )}
+
+          {/* Summary */}
+          {finished && items.length > 0 && (
+            failed.length === 0 && !stopReason ? (
+              <div className="rounded-lg bg-emerald-500/10 border border-emerald-500/30 p-2 text-xs text-emerald-300 flex items-center gap-1">
+                <CircleCheck className="w-3 h-3" /> {t('batch.allDone', { count: done.length })}
+              </div>
+            ) : (
+              <div className="rounded-lg bg-red-500/10 border border-red-500/30 p-2 text-xs text-red-300 space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-1 font-bold">
+                    <TriangleAlert className="w-3 h-3" /> {t('batch.someFailed', { failed: failed.length, done: done.length })}
+                  </span>
+                  <button onClick={() => handleRetry(failed.map(i => i.id))} className="flex items-center gap-1 hover:text-white">
+                    <RotateCcw className="w-3 h-3" /> {t('batch.retryFailed')}
+                  </button>
+                </div>
+                {stopReason && (
+                  <div className="text-[11px]">{t('batch.stopped', { reason: stopReason, count: pending })}</div>
+                )}
+                <ul className="space-y-0.5 text-[11px]">
+                  {failed.map(item => <li key={item.id}><span className="font-mono">{item.id}</span>: {item.error}</li>)}
+                </ul>
+              </div>
+            )
+          )}
+
+          {/* Queue */}
+          {items.length === 0 ? (
+            <div className="text-xs text-slate-500 text-center py-4">{t('batch.empty')}</div>
+          ) : (
+            <div className="divide-y divide-slate-700/60">
+              {items.map(item => (
+                <div key={item.id} className="flex items-center gap-2 py-1.5 text-xs">
+                  <span className={`w-12 shrink-0 flex items-center gap-1 ${
+                    item.status === 'done' ? 'text-emerald-400' : item.status === 'failed' ? 'text-red-400' : item.status === 'running' ? 'text-indigo-300' : 'text-slate-500'
+                  }`} title={item.error}>
+                    {item.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                    {t(STATUS_LABELS[item.status])}
+                  </span>
+                  <span className="w-24 shrink-0 font-mono text-slate-300 truncate" title={item.id}>{item.id}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-slate-200 truncate" title={item.text}>{item.text}</div>
+                    <div className="text-[10px] text-slate-500 truncate">
+                      {voiceName(item)}{item.emotion && ` · ${emotionLabel(item.emotion)}`}{item.language && ` · ${t(speechLanguage(item.language).label)}`}{item.description && ` · ${item.description}`}
+                    </div>
+                    {item.status === 'running' && item.retrying && (
+                      <div className="text-[10px] text-yellow-400">
+                        {t('generate.retrying', { attempt: item.retrying.attempt, seconds: Math.ceil(item.retrying.delayMs / 1000) })}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {item.result && (
+                      <>
+                        <button onClick={() => onPlay(item.result!)} className="p-1 text-slate-400 hover:text-white" title={t('common.play')}>
+                          {playingId === item.result.id && isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                        </button>
+                        <button onClick={() => onDownload(item.result!)} className="p-1 text-slate-400 hover:text-white" title={t('batch.saveAs', { id: item.id })}>
+                          <Download className="w-3 h-3" />
+                        </button>
+                      </>
+                    )}
+                    {item.status === 'failed' && (
+                      <button onClick={() => handleRetry([item.id])} className="p-1 text-slate-400 hover:text-white" title={t('common.retry')}>
+                        <RotateCcw className="w-3 h-3" />
+                      </button>
+                    )}
+                    <button onClick={() => queue.remove(item.id)} className="p-1 text-slate-500 hover:text-red-400" title={t('batch.remove')}>
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex items-center gap-2">
+          <button onClick={handleClear} disabled={items.length === 0} className="text-xs text-slate-500 hover:text-red-400 disabled:opacity-50">
+            {t('batch.clear')}
+          </button>
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={() => onSaveAll(done.map(i => i.result!))}
+              disabled={done.length === 0}
+              className={`${button} bg-slate-700 hover:bg-slate-600`}
+            >
+              <FileArchive className="w-3 h-3" /> {t('batch.saveZip')}
+            </button>
+            {running ? (
+              <button onClick={handlePause} className={`${button} bg-slate-700 hover:bg-slate-600`}>
+                <Pause className="w-3 h-3" /> {t('batch.pause')}
+              </button>
+            ) : (
+              <button onClick={handleStart} disabled={pending === 0} className={`${button} bg-indigo-600 hover:bg-indigo-500`}>
+                <Play className="w-3 h-3" /> {done.length + failed.length > 0 ? t('batch.resume') : t('batch.start')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
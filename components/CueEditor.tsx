@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Captions, Play, X, FileDown } from 'lucide-react';
+import { SubtitleCue } from '../services/subtitles';
+import { t } from '../services/i18n';
+
+interface CueEditorProps {
+  cues: SubtitleCue[];
+  duration: number;
+  onChange: (cues: SubtitleCue[]) => void;
+  onPreview: (time: number) => void;
+  onExport: (format: 'srt' | 'vtt') => void;
+  onClose: () => void;
+}
+
+export const CueEditor: React.FC<CueEditorProps> = ({ cues, duration, onChange, onPreview, onExport, onClose }) => {
+  const update = (index: number, patch: Partial<SubtitleCue>) => {
+    onChange(cues.map((cue, i) => i === index ? { ...cue, ...patch } : cue));
+  };
+
+  // Text being typed into a time field, keyed "index:field"; parsed only when the field is left
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const commitTime = (index: number, field: 'start' | 'end') => {
+    const key = `${index}:${field}`;
+    const value = parseFloat(drafts[key]);
+    if (!isNaN(value)) update(index, { [field]: Math.min(duration, Math.max(0, value)) });
+    setDrafts(({ [key]: _, ...rest }) => rest);
+  };
+
+  const timeInput = (index: number, field: 'start' | 'end') => (
+    <input
+      type="number"
+      min={0}
+      max={duration}
+      step={0.05}
+      value={drafts[`${index}:${field}`] ?? cues[index][field].toFixed(2)}
+      onChange={(e) => setDrafts(prev => ({ ...prev, [`${index}:${field}`]: e.target.value }))}
+      onBlur={() => commitTime(index, field)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className="w-16 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[11px] font-mono text-white text-right focus:ring-1 focus:ring-indigo-500 outline-none"
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] bg-slate-800 border border-slate-700 rounded-xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+          <div className="flex items-center gap-2 text-indigo-400 font-bold">
+            <Captions className="w-4 h-4" /> {t('subtitles.title')}
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar">
+          {cues.length === 0 && (
+            <div className="text-center text-slate-500 text-sm py-6">{t('subtitles.empty')}</div>
+          )}
+          {cues.map((cue, i) => {
+            const invalid = cue.end <= cue.start || (i > 0 && cue.start < cues[i - 1].end);
+            return (
+              <div key={i} className={`flex items-start gap-2 p-2 rounded-lg border ${invalid ? 'border-yellow-600/60 bg-yellow-900/10' : 'border-slate-700 bg-slate-900/40'}`}>
+                <span className="text-[10px] text-slate-500 w-5 pt-1 text-right">{i + 1}</span>
+                <div className="flex flex-col gap-1 shrink-0">
+                  {timeInput(i, 'start')}
+                  {timeInput(i, 'end')}
+                </div>
+                <div className="flex-1 space-y-1">
+                  {cue.speaker !== undefined && (
+                    <input
+                      type="text"
+                      value={cue.speaker}
+                      onChange={(e) => update(i, { speaker: e.target.value })}
+                      className="w-full bg-transparent text-[11px] font-bold text-purple-300 outline-none"
+                    />
+                  )}
+                  <textarea
+                    value={cue.text}
+                    onChange={(e) => update(i, { text: e.target.value })}
+                    rows={1}
+                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white resize-y focus:ring-1 focus:ring-indigo-500 outline-none"
+                  />
+                </div>
+                <button
+                  onClick={() => onPreview(cue.start)}
+                  className="p-1 text-slate-400 hover:text-white"
+                  title={t('subtitles.playFrom')}
+                >
+                  <Play className="w-3 h-3 fill-current" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2 p-4 border-t border-slate-700">
+          <button
+            onClick={() => onExport('srt')}
+            disabled={cues.length === 0}
+            className="flex-1 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-sm font-bold flex items-center justify-center gap-2"
+          >
+            <FileDown className="w-4 h-4" /> SRT
+          </button>
+          <button
+            onClick={() => onExport('vtt')}
+            disabled={cues.length === 0}
+            className="flex-1 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white text-sm font-bold flex items-center justify-center gap-2"
+          >
+            <FileDown className="w-4 h-4" /> WebVTT
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
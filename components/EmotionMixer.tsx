@@ -0,0 +1,73 @@
+import React from 'react';
+import { Sliders, RotateCcw } from 'lucide-react';
+import { Emotion, EmotionMix } from '../types';
+import { DEFAULT_EMOTION_MIX, formatEmotionMix, normalizeMix } from '../services/emotionMix';
+import { emotionLabel, t } from '../services/i18n';
+
+interface EmotionMixerProps {
+  mix: EmotionMix;
+  onChange: (mix: EmotionMix) => void;
+}
+
+export const EmotionMixer: React.FC<EmotionMixerProps> = ({ mix, onChange }) => {
+  const weightOf = (emotion: Emotion) => mix.components.find(c => c.emotion === emotion)?.weight || 0;
+  const shares = normalizeMix(mix).components;
+  const shareOf = (emotion: Emotion) => shares.find(c => c.emotion === emotion)?.weight || 0;
+
+  const setWeight = (emotion: Emotion, weight: number) => {
+    const others = mix.components.filter(c => c.emotion !== emotion);
+    onChange({ ...mix, components: weight > 0 ? [...others, { emotion, weight }] : others });
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-4 border border-slate-700 shadow-xl">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-sm font-medium text-slate-400 flex items-center gap-2">
+          <Sliders className="w-4 h-4" /> {t('emotionMix.title')}
+        </label>
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] text-pink-300">{formatEmotionMix(mix)}</span>
+          <button
+            onClick={() => onChange(DEFAULT_EMOTION_MIX)}
+            className="p-1 text-slate-500 hover:text-white"
+            title={t('common.reset')}
+          >
+            <RotateCcw className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1.5">
+        {Object.values(Emotion).map(emotion => (
+          <label key={emotion} className="flex items-center gap-2 text-[11px] text-slate-300">
+            <span className="w-14 shrink-0">{emotionLabel(emotion)}</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              value={Math.round(weightOf(emotion) * 100)}
+              onChange={(e) => setWeight(emotion, parseInt(e.target.value, 10) / 100)}
+              className="flex-1 accent-pink-500"
+            />
+            <span className="w-8 text-right font-mono text-slate-500">{Math.round(shareOf(emotion) * 100)}%</span>
+          </label>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 mt-3 pt-3 border-t border-slate-700 text-[11px] text-slate-300">
+        <span className="w-14 shrink-0">{t('emotionMix.intensity')}</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={mix.intensity}
+          onChange={(e) => onChange({ ...mix, intensity: parseFloat(e.target.value) })}
+          className="flex-1 accent-indigo-500"
+        />
+        <span className="w-8 text-right font-mono text-slate-500">{mix.intensity.toFixed(2)}</span>
+      </label>
+    </div>
+  );
+};
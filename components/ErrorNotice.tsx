@@ -0,0 +1,42 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { t } from '../services/i18n';
+
+interface ErrorNoticeProps {
+  title: string;
+  message: string;
+  tone?: 'error' | 'info';
+  action?: { label: string; onClick: () => void };
+  onClose: () => void;
+}
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ title, message, tone = 'error', action, onClose }) => {
+  const colors = tone === 'error'
+    ? 'bg-red-950/60 border-red-500/40 text-red-100'
+    : 'bg-slate-800/80 border-slate-600 text-slate-200';
+
+  return (
+    <div className={`relative flex items-start gap-3 rounded-xl border p-3 pr-8 text-sm shadow-lg ${colors}`} role="alert">
+      <AlertTriangle className={`w-4 h-4 mt-0.5 shrink-0 ${tone === 'error' ? 'text-red-400' : 'text-slate-400'}`} />
+      <div className="space-y-1">
+        <div className="font-bold">{title}</div>
+        <div className="text-xs opacity-80">{message}</div>
+        {action && (
+          <button
+            onClick={action.onClick}
+            className="text-xs underline underline-offset-2 hover:opacity-80"
+          >
+            {action.label}
+          </button>
+        )}
+      </div>
+      <button
+        onClick={onClose}
+        className="absolute top-2 right-2 p-1 opacity-60 hover:opacity-100"
+        title={t('common.close')}
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
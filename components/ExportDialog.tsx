@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Download, Loader2, X } from 'lucide-react';
+import { EXPORT_FORMATS, ExportOptions, exportExtension, mp3SampleRate } from '../services/audioExport';
+import { FILENAME_TOKENS } from '../services/archive';
+import { formatNumber, t } from '../services/i18n';
+
+interface ExportDialogProps {
+  sourceSampleRate: number;
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  onExport: (options: ExportOptions) => Promise<void>;
+  onClose: () => void;
+  // History items are named from a template; more than one item goes into a ZIP
+  naming?: {
+    template: string;
+    onChange: (template: string) => void;
+    preview: string; // First file's name under the current template
+    count: number;
+  };
+}
+
+const SAMPLE_RATES: (number | 'original')[] = ['original', 44100, 48000];
+const BIT_DEPTHS: ExportOptions['bitDepth'][] = [16, 24, 32];
+const MP3_BITRATES = [128, 192, 256, 320];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ sourceSampleRate, options, onChange, onExport, onClose, naming }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const set = (patch: Partial<ExportOptions>) => onChange({ ...options, ...patch });
+  const chosenRate = options.sampleRate === 'original' ? sourceSampleRate : options.sampleRate;
+
+  // 32-bit float only exists for WAV; FLAC tops out at 24-bit
+  const bitDepthAllowed = (depth: ExportOptions['bitDepth']) =>
+    options.format === 'wav' || (options.format === 'flac' && depth !== 32);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(options);
+      onClose();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const buttonClass = (active: boolean) =>
+    `flex-1 text-xs py-1.5 rounded transition-colors disabled:opacity-30 ${active
+      ? 'bg-indigo-600 text-white font-bold'
+      : 'bg-slate-900 text-slate-400 hover:text-white hover:bg-slate-700'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-sm bg-slate-800 border border-slate-700 rounded-xl shadow-2xl p-5 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-indigo-400 font-bold">
+            <Download className="w-4 h-4" /> {naming && naming.count > 1 ? t('export.zipTitle', { count: naming.count }) : t('export.title')}
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">{t('export.format')}</label>
+          <div className="flex gap-1">
+            {EXPORT_FORMATS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => set({ format: f.id, bitDepth: f.id === 'flac' && options.bitDepth === 32 ? 24 : options.bitDepth })}
+                className={buttonClass(options.format === f.id)}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {options.format === 'mp3' ? (
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">{t('export.bitrate')}</label>
+            <div className="flex gap-1">
+              {MP3_BITRATES.map(kbps => (
+                <button key={kbps} onClick={() => set({ mp3Bitrate: kbps })} className={buttonClass(options.mp3Bitrate === kbps)}>
+                  {kbps}k
+                </button>
+              ))}
+            </div>
+            {mp3SampleRate(chosenRate, options.mp3Bitrate) !== chosenRate && (
+              <p className="text-[10px] text-slate-500 mt-1">
+                {t('export.mp3Resampled', { kbps: options.mp3Bitrate, rate: formatNumber(mp3SampleRate(chosenRate, options.mp3Bitrate) / 1000) })}
+              </p>
+            )}
+          </div>
+        ) : (
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">{t('export.bitDepth')}</label>
+            <div className="flex gap-1">
+              {BIT_DEPTHS.map(depth => (
+                <button
+                  key={depth}
+                  onClick={() => set({ bitDepth: depth })}
+                  disabled={!bitDepthAllowed(depth)}
+                  className={buttonClass(options.bitDepth === depth)}
+                >
+                  {depth === 32 ? '32 float' : `${depth} bit`}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">{t('export.sampleRate')}</label>
+          <div className="flex gap-1">
+            {SAMPLE_RATES.map(rate => (
+              <button key={rate} onClick={() => set({ sampleRate: rate })} className={buttonClass(options.sampleRate === rate)}>
+                {rate === 'original' ? t('export.originalRate', { rate: formatNumber(sourceSampleRate / 1000) }) : `${rate / 1000}k`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">{t('export.channels')}</label>
+          <div className="flex gap-1">
+            <button onClick={() => set({ channels: 1 })} className={buttonClass(options.channels === 1)}>{t('export.mono')}</button>
+            <button onClick={() => set({ channels: 2 })} className={buttonClass(options.channels === 2)}>{t('export.stereo')}</button>
+          </div>
+        </div>
+
+        {naming && (
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">{t('export.fileName')}</label>
+            <input
+              value={naming.template}
+              onChange={(e) => naming.onChange(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white font-mono outline-none focus:ring-1 focus:ring-indigo-500"
+            />
+            <div className="flex flex-wrap gap-1 mt-1">
+              {FILENAME_TOKENS.map(({ token, label }) => (
+                <button
+                  key={token}
+                  onClick={() => naming.onChange(naming.template + token)}
+                  className="text-[10px] px-1.5 py-0.5 rounded bg-slate-900 text-slate-400 hover:text-white hover:bg-slate-700"
+                  title={token}
+                >
+                  {t(label)}
+                </button>
+              ))}
+            </div>
+            <div className="text-[10px] text-slate-500 mt-1 truncate" title={naming.preview}>
+              {t('export.example', { name: `${naming.preview}.${exportExtension(options.format)}` })}
+            </div>
+            {naming.count > 1 && (
+              <div className="text-[10px] text-slate-500">{t('export.manifest')}</div>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="w-full py-2 rounded-lg bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-400 hover:to-purple-400 text-white text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          {t('export.submit')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { BookOpen, FileDown, FileUp, Plus, Trash2, X } from 'lucide-react';
+import { LexiconEntry } from '../types';
+import { preparePronunciation } from '../services/pronunciation';
+import { t } from '../services/i18n';
+
+interface LexiconManagerProps {
+  lexicon: LexiconEntry[];
+  onChange: (lexicon: LexiconEntry[]) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+export const LexiconManager: React.FC<LexiconManagerProps> = ({ lexicon, onChange, onImport, onExport, onClose }) => {
+  const [sample, setSample] = useState("");
+
+  const update = (id: string, patch: Partial<LexiconEntry>) => {
+    onChange(lexicon.map(e => e.id === id ? { ...e, ...patch } : e));
+  };
+
+  const add = () => onChange([...lexicon, { id: `lex-${Date.now()}`, surface: '', reading: '' }]);
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:ring-1 focus:ring-indigo-500 outline-none";
+  const iconButton = "p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors";
+
+  // The ruby examples are styled, so they go between the two halves of the sentence
+  const [beforeExample, afterExample] = t('lexicon.rubyHelp').split('{example}');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] bg-slate-800 border border-slate-700 rounded-xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+          <div className="flex items-center gap-2 text-indigo-400 font-bold">
+            <BookOpen className="w-4 h-4" /> {t('lexicon.title')}
+          </div>
+          <div className="flex items-center gap-1">
+            <label className={`${iconButton} cursor-pointer`} title={t('lexicon.import')}>
+              <FileUp className="w-4 h-4" />
+              <input
+                type="file"
+                accept=".csv,.txt"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) onImport(file);
+                }}
+              />
+            </label>
+            <button onClick={onExport} disabled={lexicon.length === 0} className={`${iconButton} disabled:opacity-30`} title={t('lexicon.export')}>
+              <FileDown className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className={iconButton}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-4 pt-3 text-[11px] text-slate-500">
+          {t('lexicon.help')} {beforeExample}<span className="font-mono text-slate-300">漢字《かんじ》</span> / <span className="font-mono text-slate-300">|東雲《しののめ》</span>{afterExample}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+          <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-[10px] text-slate-500 mb-1 px-1">
+            <span>{t('lexicon.surface')}</span><span>{t('lexicon.reading')}</span><span>{t('lexicon.accent')}</span><span className="w-6" />
+          </div>
+          <div className="space-y-1.5">
+            {lexicon.map(entry => (
+              <div key={entry.id} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                <input value={entry.surface} onChange={(e) => update(entry.id, { surface: e.target.value })} placeholder="Kanjo Voice" className={inputClass} />
+                <input value={entry.reading} onChange={(e) => update(entry.id, { reading: e.target.value })} placeholder="かんじょうぼいす" className={inputClass} />
+                <input value={entry.accent || ''} onChange={(e) => update(entry.id, { accent: e.target.value || undefined })} placeholder={t('lexicon.accentPlaceholder')} className={inputClass} />
+                <button
+                  onClick={() => onChange(lexicon.filter(e => e.id !== entry.id))}
+                  className="p-1 text-slate-500 hover:text-red-400"
+                  title={t('common.delete')}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={add}
+            className="mt-3 w-full py-1.5 rounded border border-dashed border-slate-600 text-xs text-slate-400 hover:text-white hover:border-slate-400 flex items-center justify-center gap-1"
+          >
+            <Plus className="w-3 h-3" /> {t('common.add')}
+          </button>
+        </div>
+
+        <div className="p-4 border-t border-slate-700 space-y-1">
+          <input
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            placeholder={t('lexicon.sample')}
+            className={inputClass}
+          />
+          {sample && (
+            <div className="text-xs text-indigo-300 font-mono px-1">{preparePronunciation(sample, lexicon).text}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
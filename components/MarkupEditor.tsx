@@ -0,0 +1,114 @@
+import React, { useMemo, useRef } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { MARKUP_SNIPPETS } from '../constants';
+import { checkMarkup } from '../services/markup';
+import { activeLocale, t } from '../services/i18n';
+
+interface MarkupEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  byLine?: boolean; // Script text: markup is checked line by line
+  placeholder?: string;
+  boxClassName: string; // Size, background and border of the editor
+  textClassName: string; // Padding and font, shared by the textarea and the highlight layer
+  textareaRef?: React.RefObject<HTMLTextAreaElement | null>;
+}
+
+// Textarea with a highlight layer behind it: the textarea text is transparent so the
+// coloured copy underneath shows through, while caret and selection stay native.
+export const MarkupEditor: React.FC<MarkupEditorProps> = ({
+  value,
+  onChange,
+  byLine = false,
+  placeholder,
+  boxClassName,
+  textClassName,
+  textareaRef,
+}) => {
+  const ownRef = useRef<HTMLTextAreaElement>(null);
+  const ref = textareaRef || ownRef;
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const locale = activeLocale().id; // Error messages are in the UI language
+  const { tags, errors } = useMemo(() => checkMarkup(value, byLine), [value, byLine, locale]);
+
+  const highlighted = useMemo(() => {
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    tags.forEach((tag, i) => {
+      if (tag.start > last) parts.push(value.slice(last, tag.start));
+      const body = value.slice(tag.start, tag.end);
+      const style = !tag.valid
+        ? 'bg-red-500/30 text-red-300 underline decoration-wavy decoration-red-400'
+        : /^\[\s*pause/i.test(body) ? 'bg-amber-500/20 text-amber-300' : 'bg-sky-500/20 text-sky-300';
+      parts.push(<span key={i} className={`rounded-sm ${style}`}>{body}</span>);
+      last = tag.end;
+    });
+    // Trailing newline keeps the layer as tall as the textarea when the text ends with a line break
+    parts.push(value.slice(last) + '\n');
+    return parts;
+  }, [value, tags]);
+
+  const insertSnippet = (open: string, close = '') => {
+    const el = ref.current;
+    const start = el?.selectionStart ?? value.length;
+    const end = el?.selectionEnd ?? value.length;
+    const next = value.slice(0, start) + open + value.slice(start, end) + close + value.slice(end);
+    onChange(next);
+    requestAnimationFrame(() => {
+      if (!el) return;
+      el.focus();
+      // Leave the caret inside an empty span, or after the wrapped selection
+      const caret = start === end ? start + open.length : end + open.length + close.length;
+      el.setSelectionRange(caret, caret);
+    });
+  };
+
+  return (
+    <div className="flex-1 flex flex-col gap-1.5 min-h-0">
+      <div className={`relative ${boxClassName}`}>
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className={`absolute inset-0 overflow-hidden whitespace-pre-wrap break-words text-white pointer-events-none ${textClassName}`}
+        >
+          {highlighted}
+        </div>
+        <textarea
+          ref={ref}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => {
+            if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          placeholder={placeholder}
+          spellCheck={false}
+          className={`absolute inset-0 w-full h-full bg-transparent text-transparent caret-white placeholder-slate-600 resize-none outline-none ${textClassName}`}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        {MARKUP_SNIPPETS.map(snippet => (
+          <button
+            key={snippet.open}
+            onClick={() => insertSnippet(snippet.open, snippet.close)}
+            className="text-[10px] bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 px-2 py-0.5 rounded font-mono transition-colors whitespace-nowrap"
+            title={snippet.close ? `${snippet.open}…${snippet.close}` : snippet.open}
+          >
+            {t(snippet.label)}
+          </button>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-[11px] text-red-300 space-y-0.5">
+          {errors.slice(0, 3).map(error => (
+            <div key={error.start} className="flex items-start gap-1">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {error.message}
+            </div>
+          ))}
+          {errors.length > 3 && <div className="pl-4 text-red-400/70">{t('common.andMore', { count: errors.length - 3 })}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
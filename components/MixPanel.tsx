@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { Layers, Loader2, Music, Play, Plus, Save, Trash2, X } from 'lucide-react';
+import { GeneratedAudio, MessageKey, MixInfo, MixSettings } from '../types';
+import { DEFAULT_MIX_SETTINGS } from '../constants';
+import { getAudioContext } from '../services/geminiService';
+import { decodeAudioFile, MixClip, mixDuration, renderMix } from '../services/mixer';
+import { formatNumber, t } from '../services/i18n';
+
+interface MixPanelProps {
+  source: GeneratedAudio;
+  settings: MixSettings;
+  onChangeSettings: (settings: MixSettings) => void;
+  onPreview: (buffer: AudioBuffer) => void;
+  onSave: (buffer: AudioBuffer, info: MixInfo) => void;
+  onClose: () => void;
+}
+
+type SfxClip = MixClip & { id: string };
+
+const SLIDERS: { key: keyof Omit<MixSettings, 'loopMusic'>; label: MessageKey; min: number; max: number; step: number }[] = [
+  { key: 'musicGainDb', label: 'mix.musicGain', min: -40, max: 0, step: 1 },
+  { key: 'duckDb', label: 'mix.duck', min: -40, max: 0, step: 1 },
+  { key: 'attackMs', label: 'mix.attack', min: 0, max: 1000, step: 10 },
+  { key: 'releaseMs', label: 'mix.release', min: 0, max: 3000, step: 10 },
+  { key: 'leadInSeconds', label: 'mix.leadIn', min: 0, max: 10, step: 0.1 },
+  { key: 'tailSeconds', label: 'mix.tail', min: 0, max: 10, step: 0.1 },
+];
+
+export const MixPanel: React.FC<MixPanelProps> = ({ source, settings, onChangeSettings, onPreview, onSave, onClose }) => {
+  const [music, setMusic] = useState<{ name: string; buffer: AudioBuffer } | null>(null);
+  const [sfx, setSfx] = useState<SfxClip[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const input = { speech: source.audioBuffer, music: music || undefined, sfx, settings };
+  const duration = mixDuration(input);
+
+  const load = async (files: FileList | null, onLoaded: (name: string, buffer: AudioBuffer) => void) => {
+    setError(null);
+    for (const file of Array.from(files || [])) {
+      try {
+        onLoaded(file.name, await decodeAudioFile(file, getAudioContext()));
+      } catch (e: any) {
+        setError(e.message);
+      }
+    }
+  };
+
+  const addSfx = (name: string, buffer: AudioBuffer) => {
+    // New effects land where the speech starts; adjust from there
+    setSfx(prev => [...prev, { id: `sfx-${Date.now()}-${prev.length}`, name, buffer, start: settings.leadInSeconds, gainDb: 0 }]);
+  };
+
+  const updateSfx = (id: string, patch: Partial<SfxClip>) => {
+    setSfx(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  const render = async (then: (buffer: AudioBuffer) => void) => {
+    setBusy(true);
+    setError(null);
+    try {
+      then(await renderMix(input));
+    } catch (e: any) {
+      console.error("Mix failed:", e);
+      setError(e.message || t('mix.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = () => render(buffer => onSave(buffer, {
+    sourceId: source.id,
+    music: music?.name,
+    sfx: sfx.map(({ name, start, gainDb }) => ({ name, start, gainDb })),
+    settings,
+  }));
+
+  const percent = (seconds: number) => `${(seconds / duration) * 100}%`;
+  const inputClass = "w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-white outline-none focus:ring-1 focus:ring-indigo-500";
+  const fileButton = "px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white flex items-center gap-1 cursor-pointer";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] bg-slate-800 border border-slate-700 rounded-xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+          <div className="flex items-center gap-2 text-indigo-400 font-bold">
+            <Layers className="w-4 h-4" /> {t('mix.title')}
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar">
+          {/* Timeline overview */}
+          <div className="relative h-10 bg-slate-900 rounded border border-slate-700 overflow-hidden">
+            {music && <div className="absolute inset-y-0 left-0 right-0 bg-emerald-500/10" />}
+            <div
+              className="absolute top-2 bottom-2 bg-indigo-500/60 rounded-sm"
+              style={{ left: percent(settings.leadInSeconds), width: percent(source.audioBuffer.duration) }}
+              title={t('mix.speech')}
+            />
+            {sfx.map(clip => (
+              <div
+                key={clip.id}
+                className="absolute top-0 h-2 bg-amber-400/80 rounded-sm"
+                style={{ left: percent(clip.start), width: percent(clip.buffer.duration) }}
+                title={clip.name}
+              />
+            ))}
+            <span className="absolute right-1 bottom-0.5 text-[10px] text-slate-500 font-mono">{duration.toFixed(1)}s</span>
+          </div>
+
+          {/* Music bed */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-400 flex items-center gap-1"><Music className="w-3 h-3" /> {t('mix.music')}</span>
+              <div className="flex items-center gap-2">
+                {music && (
+                  <button onClick={() => setMusic(null)} className="text-slate-500 hover:text-red-400" title={t('mix.removeMusic')}>
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+                <label className={fileButton}>
+                  <Plus className="w-3 h-3" /> {music ? t('mix.replaceMusic') : t('mix.loadMusic')}
+                  <input
+                    type="file"
+                    accept="audio/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      const files = e.target.files;
+                      load(files, (name, buffer) => setMusic({ name, buffer })).finally(() => { e.target.value = ''; });
+                    }}
+                  />
+                </label>
+              </div>
+            </div>
+            <div className="text-xs text-slate-300 truncate">{music ? t('mix.musicInfo', { name: music.name, seconds: formatNumber(music.buffer.duration, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) }) : <span className="text-slate-500">{t('mix.noMusic')}</span>}</div>
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              <input
+                type="checkbox"
+                checked={settings.loopMusic}
+                onChange={(e) => onChangeSettings({ ...settings, loopMusic: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              {t('mix.loop')}
+            </label>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+              {SLIDERS.map(slider => (
+                <label key={slider.key} className="text-[11px] text-slate-400">
+                  <div className="flex justify-between">
+                    <span>{t(slider.label)}</span>
+                    <span className="font-mono text-slate-300">{settings[slider.key]}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={slider.min}
+                    max={slider.max}
+                    step={slider.step}
+                    value={settings[slider.key]}
+                    onChange={(e) => onChangeSettings({ ...settings, [slider.key]: Number(e.target.value) })}
+                    className="w-full accent-indigo-500"
+                  />
+                </label>
+              ))}
+            </div>
+            <button onClick={() => onChangeSettings(DEFAULT_MIX_SETTINGS)} className="text-[11px] text-slate-500 hover:text-white">
+              {t('mix.resetSettings')}
+            </button>
+          </div>
+
+          {/* Sound effects */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-400">{t('mix.sfx')}</span>
+              <label className={fileButton}>
+                <Plus className="w-3 h-3" /> {t('common.add')}
+                <input
+                  type="file"
+                  accept="audio/*"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    const files = e.target.files;
+                    load(files, addSfx).finally(() => { e.target.value = ''; });
+                  }}
+                />
+              </label>
+            </div>
+            {sfx.length === 0 && <div className="text-xs text-slate-500">{t('mix.noSfx')}</div>}
+            {sfx.map(clip => (
+              <div key={clip.id} className="flex items-center gap-2 text-xs">
+                <span className="flex-1 truncate text-slate-300" title={clip.name}>{clip.name}</span>
+                <label className="text-slate-500 flex items-center gap-1">
+                  {t('mix.sfxStart')}
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={clip.start}
+                    onChange={(e) => updateSfx(clip.id, { start: Math.max(0, Number(e.target.value)) })}
+                    className={inputClass}
+                  />
+                  {t('common.seconds')}
+                </label>
+                <label className="text-slate-500 flex items-center gap-1">
+                  {t('mix.sfxGain')}
+                  <input
+                    type="number"
+                    min={-40}
+                    max={12}
+                    step={1}
+                    value={clip.gainDb}
+                    onChange={(e) => updateSfx(clip.id, { gainDb: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                  dB
+                </label>
+                <button onClick={() => setSfx(prev => prev.filter(c => c.id !== clip.id))} className="text-slate-500 hover:text-red-400" title={t('common.delete')}>
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {error && <div className="text-xs text-red-300">{error}</div>}
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={() => render(onPreview)}
+            disabled={busy}
+            className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white flex items-center gap-1 disabled:opacity-50"
+          >
+            {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Play className="w-3 h-3" />} {t('mix.preview')}
+          </button>
+          <button
+            onClick={save}
+            disabled={busy || (!music && sfx.length === 0)}
+            className="px-3 py-1.5 rounded bg-indigo-600 hover:bg-indigo-500 text-xs text-white flex items-center gap-1 disabled:opacity-50"
+          >
+            <Save className="w-3 h-3" /> {t('mix.addToHistory')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Copy, FileDown, FileUp, Plus, Trash2, UserCog, X } from 'lucide-react';
+import { Emotion, VoiceOption } from '../types';
+import { BASE_VOICES } from '../constants';
+import { createPersona, duplicatePersona } from '../services/personas';
+import { emotionLabel, t, voiceLabel } from '../services/i18n';
+
+interface PersonaManagerProps {
+  personas: VoiceOption[];
+  usedIds: Set<string>; // Personas currently picked somewhere, to warn before deleting them
+  onChange: (personas: VoiceOption[]) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+export const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, usedIds, onChange, onImport, onExport, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(personas[0]?.id || null);
+  const selected = personas.find(p => p.id === selectedId);
+
+  const update = (patch: Partial<VoiceOption>) => {
+    if (!selected) return;
+    onChange(personas.map(p => p.id === selected.id ? { ...p, ...patch } : p));
+  };
+
+  const add = (persona: VoiceOption) => {
+    onChange([...personas, persona]);
+    setSelectedId(persona.id);
+  };
+
+  const remove = (persona: VoiceOption) => {
+    const message = usedIds.has(persona.id)
+      ? t('persona.deleteInUse', { name: voiceLabel(persona) })
+      : t('persona.deleteConfirm', { name: voiceLabel(persona) });
+    if (!confirm(message)) return;
+    const rest = personas.filter(p => p.id !== persona.id);
+    onChange(rest);
+    setSelectedId(rest[0]?.id || null);
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-600 rounded p-2 text-sm text-white focus:ring-1 focus:ring-indigo-500 outline-none";
+  const iconButton = "p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] bg-slate-800 border border-slate-700 rounded-xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+          <div className="flex items-center gap-2 text-indigo-400 font-bold">
+            <UserCog className="w-4 h-4" /> {t('persona.title')}
+          </div>
+          <div className="flex items-center gap-1">
+            <label className={`${iconButton} cursor-pointer`} title={t('persona.import')}>
+              <FileUp className="w-4 h-4" />
+              <input
+                type="file"
+                accept=".json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) onImport(file);
+                }}
+              />
+            </label>
+            <button onClick={onExport} disabled={personas.length === 0} className={`${iconButton} disabled:opacity-30`} title={t('persona.export')}>
+              <FileDown className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className={iconButton}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* List */}
+          <div className="w-48 border-r border-slate-700 flex flex-col">
+            <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+              {personas.map(persona => (
+                <button
+                  key={persona.id}
+                  onClick={() => setSelectedId(persona.id)}
+                  className={`w-full text-left px-2 py-1.5 rounded text-sm truncate transition-colors ${persona.id === selectedId
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-slate-300 hover:bg-slate-700/50'
+                    }`}
+                >
+                  {voiceLabel(persona)}
+                </button>
+              ))}
+              {personas.length === 0 && (
+                <div className="text-xs text-slate-500 text-center py-4">{t('persona.empty')}</div>
+              )}
+            </div>
+            <button
+              onClick={() => add(createPersona())}
+              className="m-2 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white flex items-center justify-center gap-1"
+            >
+              <Plus className="w-3 h-3" /> {t('persona.create')}
+            </button>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+            {selected ? (
+              <>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">{t('persona.name')}</label>
+                  <input type="text" value={selected.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">{t('persona.baseVoice')}</label>
+                    <select
+                      value={selected.apiName}
+                      onChange={(e) => update({ apiName: e.target.value })}
+                      className={inputClass}
+                    >
+                      {BASE_VOICES.map(v => <option key={v.id} value={v.apiName}>{voiceLabel(v)}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">{t('persona.gender')}</label>
+                    <select
+                      value={selected.gender}
+                      onChange={(e) => update({ gender: e.target.value as VoiceOption['gender'] })}
+                      className={inputClass}
+                    >
+                      <option value="Female">{t('persona.female')}</option>
+                      <option value="Male">{t('persona.male')}</option>
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">{t('persona.description')}</label>
+                  <textarea
+                    value={selected.description || ''}
+                    onChange={(e) => update({ description: e.target.value })}
+                    placeholder={t('persona.descriptionPlaceholder')}
+                    className={`${inputClass} h-24 resize-none`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">{t('persona.defaultEmotion')}</label>
+                  <select
+                    value={selected.defaultEmotion || ''}
+                    onChange={(e) => update({ defaultEmotion: (e.target.value || undefined) as Emotion | undefined })}
+                    className={inputClass}
+                  >
+                    <option value="">{t('persona.noEmotion')}</option>
+                    {Object.values(Emotion).map(e => <option key={e} value={e}>{emotionLabel(e)}</option>)}
+                  </select>
+                </div>
+                <div className="flex gap-2 pt-2">
+                  <button
+                    onClick={() => add(duplicatePersona(selected))}
+                    className="flex-1 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white flex items-center justify-center gap-1"
+                  >
+                    <Copy className="w-3 h-3" /> {t('common.duplicate')}
+                  </button>
+                  <button
+                    onClick={() => remove(selected)}
+                    className="flex-1 py-1.5 rounded bg-slate-700 hover:bg-red-600/60 text-xs text-white flex items-center justify-center gap-1"
+                  >
+                    <Trash2 className="w-3 h-3" /> {t('common.delete')}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div className="text-sm text-slate-500 text-center py-10">{t('persona.selectPrompt')}</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
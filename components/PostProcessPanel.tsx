@@ -0,0 +1,159 @@
+import React from 'react';
+import { Copy, SlidersHorizontal, X } from 'lucide-react';
+import { MessageKey, PostProcessPresetId, PostProcessSettings } from '../types';
+import { POST_PROCESS_PRESETS } from '../constants';
+import { presetSettings } from '../services/postProcess';
+import { t } from '../services/i18n';
+
+interface PostProcessPanelProps {
+  preset: PostProcessPresetId;
+  custom: PostProcessSettings;
+  onSelect: (preset: PostProcessPresetId) => void;
+  onChangeCustom: (settings: PostProcessSettings) => void;
+  onClose: () => void;
+}
+
+type Stage = keyof PostProcessSettings;
+
+interface Field {
+  key: string;
+  label: MessageKey;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const STAGES: { key: Stage; label: MessageKey; fields: Field[] }[] = [
+  { key: 'trim', label: 'postProcess.trim', fields: [
+    { key: 'thresholdDb', label: 'postProcess.threshold', min: -80, max: -20, step: 1 },
+    { key: 'paddingMs', label: 'postProcess.padding', min: 0, max: 1000, step: 10 },
+  ] },
+  { key: 'highpass', label: 'postProcess.highpass', fields: [
+    { key: 'frequency', label: 'postProcess.frequency', min: 20, max: 1000, step: 10 },
+  ] },
+  { key: 'lowpass', label: 'postProcess.lowpass', fields: [
+    { key: 'frequency', label: 'postProcess.frequency', min: 1000, max: 12000, step: 100 },
+  ] },
+  { key: 'eq', label: 'postProcess.eq', fields: [
+    { key: 'lowGain', label: 'postProcess.lowGain', min: -12, max: 12, step: 0.5 },
+    { key: 'midGain', label: 'postProcess.midGain', min: -12, max: 12, step: 0.5 },
+    { key: 'midFrequency', label: 'postProcess.midFrequency', min: 300, max: 6000, step: 50 },
+    { key: 'highGain', label: 'postProcess.highGain', min: -12, max: 12, step: 0.5 },
+  ] },
+  { key: 'compressor', label: 'postProcess.compressor', fields: [
+    { key: 'thresholdDb', label: 'postProcess.threshold', min: -60, max: 0, step: 1 },
+    { key: 'ratio', label: 'postProcess.ratio', min: 1, max: 20, step: 0.5 },
+    { key: 'attackMs', label: 'postProcess.attack', min: 0, max: 200, step: 1 },
+    { key: 'releaseMs', label: 'postProcess.release', min: 10, max: 1000, step: 10 },
+  ] },
+  { key: 'reverb', label: 'postProcess.reverb', fields: [
+    { key: 'mix', label: 'postProcess.wet', min: 0, max: 1, step: 0.01 },
+    { key: 'decaySeconds', label: 'postProcess.decay', min: 0.1, max: 4, step: 0.1 },
+  ] },
+  { key: 'normalize', label: 'postProcess.normalize', fields: [
+    { key: 'targetLufs', label: 'postProcess.targetLufs', min: -30, max: -8, step: 0.5 },
+    { key: 'peakDb', label: 'postProcess.peak', min: -6, max: 0, step: 0.1 },
+  ] },
+];
+
+export const PostProcessPanel: React.FC<PostProcessPanelProps> = ({ preset, custom, onSelect, onChangeCustom, onClose }) => {
+  const shown = presetSettings(preset, custom);
+  const editable = preset === 'custom';
+
+  const updateStage = (stage: Stage, patch: Record<string, number | boolean>) => {
+    onChangeCustom({ ...custom, [stage]: { ...custom[stage], ...patch } });
+  };
+
+  const optionClass = (active: boolean) => `w-full text-left px-3 py-2 rounded-lg border transition-colors ${active
+    ? 'bg-indigo-600/20 border-indigo-500 text-white'
+    : 'bg-slate-900/50 border-slate-700 text-slate-300 hover:border-slate-500'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] bg-slate-800 border border-slate-700 rounded-xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+          <div className="flex items-center gap-2 text-indigo-400 font-bold">
+            <SlidersHorizontal className="w-4 h-4" /> {t('postProcess.title')}
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar">
+          <div className="text-[11px] text-slate-500">
+            {t('postProcess.intro')}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {POST_PROCESS_PRESETS.map(p => (
+              <button key={p.id} onClick={() => onSelect(p.id)} className={optionClass(preset === p.id)}>
+                <div className="text-sm font-bold">{t(p.label)}</div>
+                <div className="text-[10px] text-slate-400">{t(p.description)}</div>
+              </button>
+            ))}
+            <button onClick={() => onSelect('custom')} className={optionClass(editable)}>
+              <div className="text-sm font-bold">{t('common.custom')}</div>
+              <div className="text-[10px] text-slate-400">{t('postProcess.customDescription')}</div>
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-400">{editable ? t('postProcess.settings') : t('postProcess.settingsLocked')}</span>
+              {!editable && preset !== 'none' && (
+                <button
+                  onClick={() => { onChangeCustom(shown); onSelect('custom'); }}
+                  className="text-[11px] text-indigo-300 hover:text-white flex items-center gap-1"
+                >
+                  <Copy className="w-3 h-3" /> {t('postProcess.copyToCustom')}
+                </button>
+              )}
+            </div>
+            {STAGES.map(stage => {
+              const values = shown[stage.key] as unknown as Record<string, number | boolean>;
+              return (
+                <div key={stage.key} className={`rounded-lg border border-slate-700 p-3 ${values.enabled ? '' : 'opacity-60'}`}>
+                  <label className="flex items-center gap-2 text-sm text-white">
+                    <input
+                      type="checkbox"
+                      checked={!!values.enabled}
+                      disabled={!editable}
+                      onChange={(e) => updateStage(stage.key, { enabled: e.target.checked })}
+                      className="accent-indigo-500"
+                    />
+                    {t(stage.label)}
+                  </label>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2">
+                    {stage.fields.map(field => (
+                      <label key={field.key} className="text-[11px] text-slate-400">
+                        <div className="flex justify-between">
+                          <span>{t(field.label)}</span>
+                          <span className="font-mono text-slate-300">{values[field.key] as number}</span>
+                        </div>
+                        <input
+                          type="range"
+                          min={field.min}
+                          max={field.max}
+                          step={field.step}
+                          value={values[field.key] as number}
+                          disabled={!editable || !values.enabled}
+                          onChange={(e) => updateStage(stage.key, { [field.key]: Number(e.target.value) })}
+                          className="w-full accent-indigo-500"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Check, Copy, FileDown, FileUp, FolderOpen, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Project } from '../types';
+import { BUNDLE_EXTENSION } from '../services/projects';
+import { formatDate, t } from '../services/i18n';
+
+interface ProjectSwitcherProps {
+  projects: Project[];
+  activeId: string;
+  itemCounts: Record<string, number>;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: (id: string) => void;
+}
+
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects, activeId, itemCounts, onSwitch, onCreate, onDuplicate, onRename, onDelete, onImport, onExport,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const active = projects.find(p => p.id === activeId);
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  const iconButton = "p-1 rounded text-slate-500 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-30";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 text-sm text-slate-300 hover:text-white hover:bg-slate-800 rounded-full transition-all max-w-[14rem]"
+        title={t('project.title')}
+      >
+        <FolderOpen className="w-5 h-5 shrink-0" />
+        <span className="truncate">{active?.name || t('project.title')}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-12 left-0 z-50 w-80 bg-slate-800 border border-slate-700 rounded-xl shadow-2xl p-3 text-left animate-in fade-in zoom-in-95 duration-200">
+          <div className="flex items-center justify-between mb-2">
+            <span className="flex items-center gap-2 text-indigo-400 font-bold text-sm">
+              <FolderOpen className="w-4 h-4" /> {t('project.title')}
+            </span>
+            <div className="flex gap-1">
+              <label className={`${iconButton} cursor-pointer`} title={t('project.import', { extension: BUNDLE_EXTENSION })}>
+                <FileUp className="w-4 h-4" />
+                <input
+                  type="file"
+                  accept={`.${BUNDLE_EXTENSION}`}
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) onImport(file);
+                  }}
+                />
+              </label>
+              <button onClick={onCreate} className={iconButton} title={t('project.create')}>
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-1 max-h-72 overflow-y-auto custom-scrollbar">
+            {projects.map(project => (
+              <div
+                key={project.id}
+                className={`group flex items-center gap-2 px-2 py-1.5 rounded-lg ${project.id === activeId ? 'bg-indigo-500/20 border border-indigo-500/40' : 'hover:bg-slate-700/50 border border-transparent'}`}
+              >
+                {editingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                  />
+                ) : (
+                  <button
+                    onClick={() => { onSwitch(project.id); setIsOpen(false); }}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <div className="text-sm text-white truncate flex items-center gap-1">
+                      {project.id === activeId && <Check className="w-3 h-3 text-indigo-400 shrink-0" />}
+                      {project.name}
+                    </div>
+                    <div className="text-[10px] text-slate-500">
+                      {t('project.summary', {
+                        mode: project.mode === 'single' ? t('project.modeSingle') : t('project.modeConversation'),
+                        count: itemCounts[project.id] || 0,
+                        date: formatDate(project.updatedAt),
+                      })}
+                    </div>
+                  </button>
+                )}
+                <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => { setEditingId(project.id); setDraftName(project.name); }}
+                    className={iconButton}
+                    title={t('project.rename')}
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => onDuplicate(project.id)} className={iconButton} title={t('common.duplicate')}>
+                    <Copy className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => onExport(project.id)} className={iconButton} title={t('project.export', { extension: BUNDLE_EXTENSION })}>
+                    <FileDown className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(project.id)}
+                    disabled={projects.length <= 1}
+                    className={`${iconButton} hover:text-red-400`}
+                    title={t('common.delete')}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useRef, useState } from 'react';
+import { Check, Copy, Eye, FileCode, Save, Trash2, X } from 'lucide-react';
+import { AppMode, MessageKey, PromptTemplate } from '../types';
+import { defaultTemplate, duplicateTemplate, PROMPT_VARIABLES, templateName, unknownVariables } from '../services/promptTemplates';
+import { t } from '../services/i18n';
+
+interface PromptTemplateManagerProps {
+  mode: AppMode; // Opens on this mode's selected template
+  templates: PromptTemplate[]; // Built-ins first, then the user's own
+  selectedIds: Record<AppMode, string>;
+  onSelect: (mode: AppMode, id: string) => void;
+  onSave: (template: PromptTemplate) => void; // New or edited user template; the version is already bumped
+  onDelete: (id: string) => void;
+  preview: (template: PromptTemplate) => string; // Rendered with the current editor input; may throw
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<AppMode, MessageKey> = {
+  single: 'template.modeSingle',
+  conversation: 'template.modeConversation',
+};
+
+export const PromptTemplateManager: React.FC<PromptTemplateManagerProps> = ({ mode, templates, selectedIds, onSelect, onSave, onDelete, preview, onClose }) => {
+  const [openId, setOpenId] = useState<string>(selectedIds[mode]);
+  const [draft, setDraft] = useState<PromptTemplate | null>(null); // Unsaved edits of the open template
+  const [showPreview, setShowPreview] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const saved = templates.find(template => template.id === openId) || templates[0];
+  const current = draft?.id === saved.id ? draft : saved;
+  const dirty = !!draft && draft.id === saved.id && (draft.name !== saved.name || draft.body !== saved.body);
+  const unknown = unknownVariables(current.body, current.mode);
+
+  const open = (id: string) => {
+    if (dirty && !confirm(t('template.discardConfirm'))) return;
+    setDraft(null);
+    setOpenId(id);
+  };
+
+  const edit = (patch: Partial<PromptTemplate>) => setDraft({ ...current, ...patch });
+
+  const insertVariable = (name: string) => {
+    const token = `{{${name}}}`;
+    const el = bodyRef.current;
+    const start = el?.selectionStart ?? current.body.length;
+    const end = el?.selectionEnd ?? current.body.length;
+    edit({ body: current.body.slice(0, start) + token + current.body.slice(end) });
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    onSave({ ...draft, name: draft.name.trim() || saved.name, version: saved.version + 1 });
+    setDraft(null);
+  };
+
+  const handleDuplicate = () => {
+    const copy = duplicateTemplate(current);
+    onSave(copy);
+    setDraft(null);
+    setOpenId(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(t('template.deleteConfirm', { name: templateName(saved) }))) return;
+    onDelete(saved.id);
+    setDraft(null);
+    setOpenId(defaultTemplate(saved.mode).id);
+  };
+
+  const renderPreview = () => {
+    try {
+      return preview(current);
+    } catch (e: any) {
+      return t('template.previewFailed', { message: e.message });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[85vh] bg-slate-800 border border-slate-700 rounded-xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+          <div className="flex items-center gap-2 text-indigo-400 font-bold">
+            <FileCode className="w-4 h-4" /> {t('template.title')}
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Template list */}
+          <div className="w-52 shrink-0 border-r border-slate-700 overflow-y-auto custom-scrollbar p-2 space-y-3">
+            {(['single', 'conversation'] as AppMode[]).map(group => (
+              <div key={group}>
+                <div className="text-[10px] text-slate-500 px-2 mb-1">{t('template.modeGroup', { mode: t(MODE_LABELS[group]) })}</div>
+                {templates.filter(template => template.mode === group).map(template => (
+                  <button
+                    key={template.id}
+                    onClick={() => open(template.id)}
+                    className={`w-full text-left px-2 py-1.5 rounded text-xs flex items-center gap-1 ${template.id === openId ? 'bg-indigo-500/20 text-white' : 'text-slate-300 hover:bg-slate-700'}`}
+                  >
+                    <span className="flex-1 truncate">{templateName(template)}</span>
+                    <span className="text-[10px] text-slate-500">v{template.version}</span>
+                    {selectedIds[group] === template.id && <Check className="w-3 h-3 text-emerald-400" />}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 min-w-0 overflow-y-auto custom-scrollbar p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <input
+                value={current.builtIn ? templateName(current) : current.name}
+                onChange={(e) => edit({ name: e.target.value })}
+                disabled={current.builtIn}
+                className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-white outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-60"
+              />
+              <span className="text-[10px] text-slate-500">{t(MODE_LABELS[current.mode])} · v{saved.version}</span>
+            </div>
+
+            {current.builtIn && (
+              <div className="text-[11px] text-slate-500">{t('template.builtInNote')}</div>
+            )}
+
+            <textarea
+              ref={bodyRef}
+              value={current.body}
+              onChange={(e) => edit({ body: e.target.value })}
+              readOnly={current.builtIn}
+              rows={14}
+              spellCheck={false}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-xs text-slate-200 font-mono outline-none focus:ring-1 focus:ring-indigo-500 resize-y"
+            />
+
+            {!current.builtIn && (
+              <div className="flex flex-wrap gap-1">
+                {PROMPT_VARIABLES[current.mode].map(v => (
+                  <button
+                    key={v.name}
+                    onClick={() => insertVariable(v.name)}
+                    className="text-[10px] px-1.5 py-0.5 rounded bg-slate-900 text-slate-400 hover:text-white hover:bg-slate-700 font-mono"
+                    title={t(v.label)}
+                  >
+                    {`{{${v.name}}}`}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="text-[10px] text-slate-500">
+              {t('template.sectionHelp')}
+            </div>
+            {unknown.length > 0 && (
+              <div className="text-[11px] text-amber-300">
+                {t('template.unknownVariables', { names: unknown.map(name => `{{${name}}}`).join(', ') })}
+              </div>
+            )}
+
+            <div>
+              <button onClick={() => setShowPreview(!showPreview)} className="text-xs text-slate-400 hover:text-white flex items-center gap-1">
+                <Eye className="w-3 h-3" /> {showPreview ? t('template.hidePreview') : t('template.showPreview')}
+              </button>
+              {showPreview && (
+                <pre className="mt-2 max-h-64 overflow-auto custom-scrollbar bg-slate-950 border border-slate-700 rounded-lg p-2 text-[11px] text-slate-300 whitespace-pre-wrap">
+                  {renderPreview()}
+                </pre>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex items-center gap-2">
+          {!current.builtIn && (
+            <button onClick={handleDelete} className="text-xs text-slate-500 hover:text-red-400 flex items-center gap-1">
+              <Trash2 className="w-3 h-3" /> {t('common.delete')}
+            </button>
+          )}
+          <div className="ml-auto flex gap-2">
+            <button onClick={handleDuplicate} className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white flex items-center gap-1">
+              <Copy className="w-3 h-3" /> {t('common.duplicate')}
+            </button>
+            {!current.builtIn && (
+              <button
+                onClick={handleSave}
+                disabled={!dirty}
+                className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white flex items-center gap-1 disabled:opacity-50"
+              >
+                <Save className="w-3 h-3" /> {t('common.save')}
+              </button>
+            )}
+            <button
+              onClick={() => onSelect(current.mode, current.id)}
+              disabled={dirty || selectedIds[current.mode] === current.id}
+              className="px-3 py-1.5 rounded bg-indigo-600 hover:bg-indigo-500 text-xs text-white flex items-center gap-1 disabled:opacity-50"
+              title={dirty ? t('template.saveFirst') : undefined}
+            >
+              <Check className="w-3 h-3" /> {t('template.use', { mode: t(MODE_LABELS[current.mode]) })}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
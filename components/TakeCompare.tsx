@@ -0,0 +1,60 @@
+import React from 'react';
+import { Check, Pause, Play, Star, Trash2 } from 'lucide-react';
+import { TakeView } from '../services/takes';
+import { t } from '../services/i18n';
+
+interface TakeCompareProps {
+  takes: TakeView[];
+  playingTake: number | null; // Take currently loaded in the player, if it belongs to this entry
+  isPlaying: boolean;
+  onPlay: (take: TakeView) => void; // Switching takes keeps the playhead position
+  onRate: (take: number, rating: number) => void;
+  onPromote: (take: number) => void;
+  onDeleteUnchosen: () => void;
+}
+
+export const TakeCompare: React.FC<TakeCompareProps> = ({ takes, playingTake, isPlaying, onPlay, onRate, onPromote, onDeleteUnchosen }) => (
+  <div className="mt-2 rounded-lg bg-slate-900/60 border border-slate-700/60 p-2 space-y-1" onClick={(e) => e.stopPropagation()}>
+    <div className="flex items-center justify-between text-[10px] text-slate-500 px-1">
+      <span>{t('takes.title')}</span>
+      <button onClick={onDeleteUnchosen} className="flex items-center gap-1 hover:text-red-400" title={t('takes.deleteUnchosenHint')}>
+        <Trash2 className="w-3 h-3" /> {t('takes.deleteUnchosen')}
+      </button>
+    </div>
+    {takes.map(take => {
+      const active = playingTake === take.take;
+      return (
+        <div
+          key={take.take}
+          className={`flex items-center gap-2 px-1.5 py-1 rounded ${active ? 'bg-indigo-500/20' : 'hover:bg-slate-800'}`}
+        >
+          <button
+            onClick={() => onPlay(take)}
+            className={`w-6 h-6 rounded-full flex items-center justify-center ${active ? 'bg-indigo-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+          >
+            {active && isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3 ml-0.5" />}
+          </button>
+          <span className="text-xs font-mono text-slate-300 w-14">
+            {String.fromCharCode(64 + take.take)} · {take.audioBuffer.duration.toFixed(1)}s
+          </span>
+          <div className="flex">
+            {[1, 2, 3, 4, 5].map(n => (
+              <button key={n} onClick={() => onRate(take.take, n)} className="p-0.5" title={`${n}`}>
+                <Star className={`w-3 h-3 ${(take.rating || 0) >= n ? 'fill-amber-400 text-amber-400' : 'text-slate-600 hover:text-amber-300'}`} />
+              </button>
+            ))}
+          </div>
+          <div className="ml-auto">
+            {take.chosen ? (
+              <span className="text-[10px] text-emerald-300 flex items-center gap-1"><Check className="w-3 h-3" /> {t('takes.chosen')}</span>
+            ) : (
+              <button onClick={() => onPromote(take.take)} className="text-[10px] text-slate-400 hover:text-white px-1.5 py-0.5 rounded bg-slate-800 hover:bg-slate-700">
+                {t('takes.choose')}
+              </button>
+            )}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { FileDown, Gauge, X } from 'lucide-react';
+import { UsageBudgets, UsageMetric, UsageRecord } from '../types';
+import { formatUsage, nextUsageReset, USAGE_METRICS, USAGE_RESET_HOUR, USAGE_TIME_ZONE, UsagePeriod, usageDay, usageKeyLabel, usageMonth, usageTotals } from '../services/usage';
+import { formatClockTime, t } from '../services/i18n';
+
+interface UsageDashboardProps {
+  ledger: UsageRecord[];
+  budgets: UsageBudgets;
+  onBudgetsChange: (budgets: UsageBudgets) => void;
+  activeKeyId: string; // Key new generations are recorded against
+  now: number;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const RECENT_DAYS = 31;
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ ledger, budgets, onBudgetsChange, activeKeyId, now, onExport, onClose }) => {
+  const [keyId, setKeyId] = useState<string | undefined>(activeKeyId); // undefined = all keys together
+
+  const keyIds = [...new Set([activeKeyId, ...ledger.map(r => r.keyId)])];
+  const rows = ledger
+    .filter(r => keyId === undefined || r.keyId === keyId)
+    .reduce((days, r) => {
+      // With all keys selected, each day is one row
+      const existing = days.find(d => d.day === r.day);
+      if (!existing) return [...days, { ...r }];
+      existing.requests += r.requests;
+      existing.characters += r.characters;
+      existing.seconds += r.seconds;
+      return days;
+    }, [] as UsageRecord[])
+    .sort((a, b) => b.day.localeCompare(a.day))
+    .slice(0, RECENT_DAYS);
+
+  const setLimit = (period: UsagePeriod, metric: UsageMetric, value: string) => {
+    const limit = parseFloat(value);
+    const limits = { ...budgets[period] };
+    if (limit > 0) limits[metric] = limit;
+    else delete limits[metric];
+    onBudgetsChange({ ...budgets, [period]: limits });
+  };
+
+  const inputClass = "w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white text-right focus:ring-1 focus:ring-indigo-500 outline-none";
+  const iconButton = "p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors";
+
+  const periods: { period: UsagePeriod; label: string; prefix: string }[] = [
+    { period: 'daily', label: t('usage.today'), prefix: usageDay(now) },
+    { period: 'monthly', label: t('usage.thisMonth'), prefix: usageMonth(now) },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] bg-slate-800 border border-slate-700 rounded-xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+          <div className="flex items-center gap-2 text-indigo-400 font-bold">
+            <Gauge className="w-4 h-4" /> {t('usage.title')}
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={onExport} disabled={ledger.length === 0} className={`${iconButton} disabled:opacity-30`} title={t('usage.exportCsv')}>
+              <FileDown className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className={iconButton}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar">
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            {t('usage.key')}
+            <select
+              value={keyId ?? ''}
+              onChange={(e) => setKeyId(e.target.value || undefined)}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:ring-1 focus:ring-indigo-500 outline-none"
+            >
+              {keyIds.map(id => (
+                <option key={id} value={id}>{id === activeKeyId ? t('usage.currentKey', { key: usageKeyLabel(id) }) : usageKeyLabel(id)}</option>
+              ))}
+              <option value="">{t('usage.allKeys')}</option>
+            </select>
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {periods.map(({ period, label, prefix }) => {
+              const used = usageTotals(ledger, keyId, prefix);
+              return (
+                <div key={period} className="bg-slate-900/50 border border-slate-700 rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-bold text-slate-300">{label}</span>
+                    <span className="text-[10px] text-slate-500">{t('usage.budget')}</span>
+                  </div>
+                  {USAGE_METRICS.map(metric => {
+                    const limit = budgets[period][metric];
+                    const ratio = limit ? Math.min(1, used[metric] / limit) : 0;
+                    return (
+                      <div key={metric} className="space-y-1">
+                        <div className="flex items-center justify-between gap-2 text-xs">
+                          <span className="text-slate-400">{t(`usage.metric.${metric}`)}</span>
+                          <span className="flex-1 text-right text-white font-mono">{formatUsage(metric, used[metric])}</span>
+                          <input
+                            type="number"
+                            min={0}
+                            value={limit ?? ''}
+                            onChange={(e) => setLimit(period, metric, e.target.value)}
+                            className={inputClass}
+                          />
+                        </div>
+                        {limit !== undefined && (
+                          <div className="h-1 bg-slate-700 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-indigo-500'}`}
+                              style={{ width: `${ratio * 100}%` }}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-slate-500">
+            {t('usage.budgetHint')}<br />
+            {t('usage.resetNote', { zone: USAGE_TIME_ZONE, hour: USAGE_RESET_HOUR, time: formatClockTime(nextUsageReset(now)) })}<br />
+            {t('usage.localNote')}
+          </p>
+
+          <div>
+            <div className="text-xs font-bold text-slate-300 mb-1">{t('usage.history')}</div>
+            {rows.length === 0 ? (
+              <div className="text-xs text-slate-500 py-2">{t('usage.empty')}</div>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-[10px] text-slate-500 text-right">
+                    <th className="text-left font-normal py-1">{t('usage.day')}</th>
+                    {USAGE_METRICS.map(metric => <th key={metric} className="font-normal py-1">{t(`usage.metric.${metric}`)}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.day} className="border-t border-slate-700/50 text-right font-mono text-slate-300">
+                      <td className="text-left py-1">{row.day}</td>
+                      {USAGE_METRICS.map(metric => <td key={metric} className="py-1">{formatUsage(metric, row[metric])}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
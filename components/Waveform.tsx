@@ -1,36 +1,185 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { computeEnvelope } from '../services/audioUtils';
 
 interface WaveformProps {
+  buffer: AudioBuffer | null;
+  currentTime: number;
   isPlaying: boolean;
+  analyser?: AnalyserNode | null;
+  onSeek?: (time: number) => void;
   color?: string;
+  height?: number;
 }
 
-export const Waveform: React.FC<WaveformProps> = ({ isPlaying, color = "bg-blue-500" }) => {
-  // Simulate waveform bars
-  const [bars, setBars] = useState<number[]>(new Array(20).fill(10));
+// Size a canvas for the device pixel ratio and return a context scaled to CSS pixels
+function prepareCanvas(canvas: HTMLCanvasElement, width: number, height: number) {
+  const dpr = window.devicePixelRatio || 1;
+  if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  return ctx;
+}
+
+// Draw mirrored peak (faint) and RMS (solid) bars, coloured up to `progress` (0-1)
+function drawEnvelope(
+  ctx: CanvasRenderingContext2D,
+  buffer: AudioBuffer,
+  width: number,
+  height: number,
+  color: string,
+  progress: number,
+  barWidth = 2,
+) {
+  const step = barWidth + 1;
+  const bins = Math.max(1, Math.floor(width / step));
+  const { peak, rms } = computeEnvelope(buffer, bins);
+  const mid = height / 2;
+  const playedBins = Math.floor(bins * progress);
+
+  for (let i = 0; i < bins; i++) {
+    const x = i * step;
+    const played = i < playedBins;
+    const peakH = Math.max(1, peak[i] * mid);
+    const rmsH = Math.max(1, rms[i] * mid * 1.6);
+
+    ctx.fillStyle = played ? color : '#475569';
+    ctx.globalAlpha = 0.35;
+    ctx.fillRect(x, mid - peakH, barWidth, peakH * 2);
+    ctx.globalAlpha = 1;
+    ctx.fillRect(x, mid - Math.min(rmsH, mid), barWidth, Math.min(rmsH, mid) * 2);
+  }
+}
+
+export const Waveform: React.FC<WaveformProps> = ({
+  buffer,
+  currentTime,
+  isPlaying,
+  analyser,
+  onSeek,
+  color = '#818cf8',
+  height = 96,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  // While dragging, the playhead follows the pointer and the seek happens on release
+  const [dragTime, setDragTime] = useState<number | null>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const duration = buffer?.duration || 0;
+  const shownTime = dragTime ?? currentTime;
 
   useEffect(() => {
-    let interval: number;
-    if (isPlaying) {
-      interval = window.setInterval(() => {
-        setBars(prev => prev.map(() => Math.floor(Math.random() * 80) + 10));
-      }, 100);
-    } else {
-      setBars(new Array(20).fill(5));
-    }
-
-    return () => clearInterval(interval);
-  }, [isPlaying]);
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+
+    let frame = 0;
+    const spectrum = analyser ? new Uint8Array(analyser.frequencyBinCount) : null;
+
+    const draw = () => {
+      const ctx = prepareCanvas(canvas, width, height);
+      if (!ctx) return;
+
+      // Live spectrum behind the envelope
+      if (isPlaying && analyser && spectrum) {
+        analyser.getByteFrequencyData(spectrum);
+        // Speech energy sits in the lower part of the spectrum, so only draw the first half
+        const usable = Math.floor(spectrum.length / 2);
+        const barW = width / usable;
+        ctx.fillStyle = color;
+        ctx.globalAlpha = 0.15;
+        for (let i = 0; i < usable; i++) {
+          const h = (spectrum[i] / 255) * height;
+          ctx.fillRect(i * barW, height - h, Math.max(1, barW - 1), h);
+        }
+        ctx.globalAlpha = 1;
+      }
+
+      if (buffer) {
+        const progress = duration ? Math.min(1, shownTime / duration) : 0;
+        drawEnvelope(ctx, buffer, width, height, color, progress);
+
+        // Playhead
+        const x = progress * width;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(Math.min(width - 1, x), 0, 1, height);
+      }
+
+      if (isPlaying && analyser) frame = requestAnimationFrame(draw);
+    };
+
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [buffer, width, height, color, shownTime, duration, isPlaying, analyser]);
+
+  const timeAt = (clientX: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return ratio * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!buffer || !onSeek) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragTime(timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragTime === null) return;
+    setDragTime(timeAt(e.clientX));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragTime === null) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    onSeek?.(timeAt(e.clientX));
+    setDragTime(null);
+  };
 
   return (
-    <div className="flex items-center justify-center gap-1 h-24 w-full bg-slate-800/50 rounded-lg p-4 backdrop-blur-sm border border-slate-700">
-      {bars.map((height, i) => (
-        <div
-          key={i}
-          className={`w-2 rounded-full transition-all duration-100 ease-in-out ${color}`}
-          style={{ height: `${height}%`, opacity: isPlaying ? 1 : 0.3 }}
-        />
-      ))}
+    <div ref={containerRef} className="w-full" style={{ height }}>
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height }}
+        className={buffer && onSeek ? 'cursor-pointer touch-none' : ''}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDragTime(null)}
+      />
     </div>
   );
 };
+
+interface WaveformThumbnailProps {
+  buffer: AudioBuffer;
+  width?: number;
+  height?: number;
+  color?: string;
+}
+
+// Small static preview for history items
+export const WaveformThumbnail: React.FC<WaveformThumbnailProps> = ({ buffer, width = 96, height = 20, color = '#818cf8' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = prepareCanvas(canvas, width, height);
+    if (ctx) drawEnvelope(ctx, buffer, width, height, color, 1, 1);
+  }, [buffer, width, height, color]);
+
+  return <canvas ref={canvasRef} style={{ width, height }} className="opacity-80" />;
+};
@@ -1,46 +1,39 @@
-import { Emotion, VoiceOption } from './types';
+import { AppMode, BatchSettings, CastMember, Emotion, MessageKey, MixSettings, PostProcessPresetId, PostProcessSettings, PromptTemplate, SpeechLanguage, UsageBudgets, VoiceOption } from './types';
 
-export const VOICES: VoiceOption[] = [
-  // Standard API Voices
+// Voices the API provides
+export const BASE_VOICES: VoiceOption[] = [
   { name: 'Kore', id: 'kore', apiName: 'Kore', gender: 'Female' },
   { name: 'Puck', id: 'puck', apiName: 'Puck', gender: 'Male' },
   { name: 'Charon', id: 'charon', apiName: 'Charon', gender: 'Male' },
   { name: 'Fenrir', id: 'fenrir', apiName: 'Fenrir', gender: 'Male' },
   { name: 'Zephyr', id: 'zephyr', apiName: 'Zephyr', gender: 'Female' },
-  
-  // Persona Presets (Mapped to suitable API voices)
-  { name: 'Child', id: 'child', apiName: 'Puck', gender: 'Male' }, // Puck fits energetic/mascot/child
-  { name: 'Youth', id: 'youth', apiName: 'Fenrir', gender: 'Male' }, // Fenrir for young adult male
-  { name: 'Announcer', id: 'announcer', apiName: 'Zephyr', gender: 'Female' }, // Zephyr for clear speaking
-  { name: 'Comedian', id: 'comedian', apiName: 'Puck', gender: 'Male' }, // Puck for expressive/quirky
-  { name: 'Narration', id: 'narration', apiName: 'Charon', gender: 'Male' }, // Charon for deep narration
-  { name: 'News', id: 'news', apiName: 'Kore', gender: 'Female' }, // Kore for calm news reading
 ];
 
-export const VOICE_LABELS: Record<string, string> = {
-  'Kore': 'Kore (女性・落ち着き)',
-  'Puck': 'Puck (男性・低音)',
-  'Charon': 'Charon (男性・深み)',
-  'Fenrir': 'Fenrir (男性・力強い)',
-  'Zephyr': 'Zephyr (女性・明快)',
-  'Child': '子ども',
-  'Youth': '青年',
-  'Announcer': 'アナウンサー',
-  'Comedian': 'コメディアン',
-  'Narration': 'ナレーション',
-  'News': 'ニュース',
-};
+// Starting persona library; users can edit or delete these like their own
+export const DEFAULT_PERSONAS: VoiceOption[] = [
+  { name: 'Child', id: 'child', apiName: 'Puck', gender: 'Male', description: 'A lively, energetic child', defaultEmotion: Emotion.HAPPY },
+  { name: 'Youth', id: 'youth', apiName: 'Fenrir', gender: 'Male', description: 'A young adult man, casual and direct' },
+  { name: 'Announcer', id: 'announcer', apiName: 'Zephyr', gender: 'Female', description: 'A professional announcer with clear, crisp diction' },
+  { name: 'Comedian', id: 'comedian', apiName: 'Puck', gender: 'Male', description: 'An expressive, quirky comedian with playful timing', defaultEmotion: Emotion.EXCITED },
+  { name: 'Narration', id: 'narration', apiName: 'Charon', gender: 'Male', description: 'A deep, unhurried documentary narrator' },
+  { name: 'News', id: 'news', apiName: 'Kore', gender: 'Female', description: 'A calm news reader, neutral and precise' },
+];
 
-export const EMOTION_LABELS: Record<Emotion, string> = {
-  [Emotion.NEUTRAL]: '普通',
-  [Emotion.HAPPY]: '喜び',
-  [Emotion.SAD]: '悲しみ',
-  [Emotion.ANGRY]: '怒り',
-  [Emotion.EXCITED]: '興奮',
-  [Emotion.WHISPER]: 'ささやき',
-  [Emotion.FEARFUL]: '恐怖',
-  [Emotion.ROBOTIC]: 'ロボット',
-};
+// IDs 'A' and 'B' match the speaker values used by scripts saved before casts existed
+export const DEFAULT_CAST: CastMember[] = [
+  { id: 'A', name: 'Aさん', voiceId: 'kore' },
+  { id: 'B', name: 'Bさん', voiceId: 'puck' },
+];
+
+// Bubble colours per cast position (cycled when the cast is larger)
+export const CAST_COLORS = [
+  { avatar: 'bg-indigo-600', bubble: 'bg-indigo-900/60 text-indigo-100 border-indigo-500/20', button: 'bg-indigo-700 hover:bg-indigo-600', text: 'text-indigo-400' },
+  { avatar: 'bg-purple-600', bubble: 'bg-purple-900/60 text-purple-100 border-purple-500/20', button: 'bg-purple-700 hover:bg-purple-600', text: 'text-purple-400' },
+  { avatar: 'bg-emerald-600', bubble: 'bg-emerald-900/60 text-emerald-100 border-emerald-500/20', button: 'bg-emerald-700 hover:bg-emerald-600', text: 'text-emerald-400' },
+  { avatar: 'bg-amber-600', bubble: 'bg-amber-900/60 text-amber-100 border-amber-500/20', button: 'bg-amber-700 hover:bg-amber-600', text: 'text-amber-400' },
+  { avatar: 'bg-rose-600', bubble: 'bg-rose-900/60 text-rose-100 border-rose-500/20', button: 'bg-rose-700 hover:bg-rose-600', text: 'text-rose-400' },
+  { avatar: 'bg-sky-600', bubble: 'bg-sky-900/60 text-sky-100 border-sky-500/20', button: 'bg-sky-700 hover:bg-sky-600', text: 'text-sky-400' },
+];
 
 // Used for single mode system prompt prefix
 export const EMOTION_PROMPTS: Record<Emotion, string> = {
@@ -54,15 +47,186 @@ export const EMOTION_PROMPTS: Record<Emotion, string> = {
   [Emotion.ROBOTIC]: 'Say in a monotonous, robotic voice:',
 };
 
+// How each emotion sounds, used to describe emotion mixes
+export const EMOTION_QUALITIES: Record<Emotion, string> = {
+  [Emotion.NEUTRAL]: 'calm and neutral',
+  [Emotion.HAPPY]: 'cheerful, with a smile in the voice',
+  [Emotion.SAD]: 'sorrowful, close to tears',
+  [Emotion.ANGRY]: 'angry and aggressive',
+  [Emotion.EXCITED]: 'energetic and excited',
+  [Emotion.WHISPER]: 'hushed, almost whispering',
+  [Emotion.FEARFUL]: 'fearful and trembling',
+  [Emotion.ROBOTIC]: 'monotonous and robotic',
+};
+
 // Used for insertion in text
-export const EMOTION_TAGS = [
-  { label: '普通', tag: '(Neutral) ' },
-  { label: '喜び', tag: '(Happy) ' },
-  { label: '悲しみ', tag: '(Sad) ' },
-  { label: '怒り', tag: '(Angry) ' },
-  { label: '興奮', tag: '(Excited) ' },
-  { label: 'ささやき', tag: '(Whisper) ' },
-  { label: '恐怖', tag: '(Fearful) ' },
+export const EMOTION_TAGS: { label: MessageKey; tag: string }[] = [
+  { label: 'emotion.Neutral', tag: '(Neutral) ' },
+  { label: 'emotion.Happy', tag: '(Happy) ' },
+  { label: 'emotion.Sad', tag: '(Sad) ' },
+  { label: 'emotion.Angry', tag: '(Angry) ' },
+  { label: 'emotion.Excited', tag: '(Excited) ' },
+  { label: 'emotion.Whisper', tag: '(Whisper) ' },
+  { label: 'emotion.Fearful', tag: '(Fearful) ' },
+];
+
+// Prompt wording for inline [slow] / [fast] / [emph] spans (see services/markup.ts)
+export const MARKUP_PROMPTS = {
+  slow: 'Read this part noticeably slower, with deliberate pacing',
+  fast: 'Read this part noticeably faster',
+  emph: 'Put clear emphasis (stress) on this part',
+} as const;
+
+// Editor buttons; spans wrap the selection
+export const MARKUP_SNIPPETS: { label: MessageKey; open: string; close?: string }[] = [
+  { label: 'markup.pauseShort', open: '[pause 500ms]' },
+  { label: 'markup.pauseLong', open: '[pause 1s]' },
+  { label: 'markup.slow', open: '[slow]', close: '[/slow]' },
+  { label: 'markup.fast', open: '[fast]', close: '[/fast]' },
+  { label: 'markup.emph', open: '[emph]', close: '[/emph]' },
+];
+
+const NO_POST_PROCESS: PostProcessSettings = {
+  trim: { enabled: false, thresholdDb: -50, paddingMs: 100 },
+  highpass: { enabled: false, frequency: 80 },
+  lowpass: { enabled: false, frequency: 8000 },
+  eq: { enabled: false, lowGain: 0, midGain: 0, midFrequency: 2500, highGain: 0 },
+  compressor: { enabled: false, thresholdDb: -20, ratio: 3, attackMs: 10, releaseMs: 150 },
+  reverb: { enabled: false, mix: 0.15, decaySeconds: 0.8 },
+  normalize: { enabled: false, targetLufs: -16, peakDb: -1 },
+};
+
+export const POST_PROCESS_PRESETS: { id: Exclude<PostProcessPresetId, 'custom'>; label: MessageKey; description: MessageKey; settings: PostProcessSettings }[] = [
+  { id: 'none', label: 'postProcess.none', description: 'postProcess.noneDescription', settings: NO_POST_PROCESS },
+  {
+    id: 'podcast',
+    label: 'postProcess.podcast',
+    description: 'postProcess.podcastDescription',
+    settings: {
+      ...NO_POST_PROCESS,
+      trim: { enabled: true, thresholdDb: -50, paddingMs: 150 },
+      highpass: { enabled: true, frequency: 80 },
+      eq: { enabled: true, lowGain: -1, midGain: 2, midFrequency: 3000, highGain: 1.5 },
+      compressor: { enabled: true, thresholdDb: -20, ratio: 3, attackMs: 10, releaseMs: 150 },
+      normalize: { enabled: true, targetLufs: -16, peakDb: -1 },
+    },
+  },
+  {
+    id: 'gameSe',
+    label: 'postProcess.gameVoice',
+    description: 'postProcess.gameVoiceDescription',
+    settings: {
+      ...NO_POST_PROCESS,
+      trim: { enabled: true, thresholdDb: -45, paddingMs: 20 },
+      highpass: { enabled: true, frequency: 100 },
+      eq: { enabled: true, lowGain: 0, midGain: 3, midFrequency: 2500, highGain: 2 },
+      compressor: { enabled: true, thresholdDb: -18, ratio: 4, attackMs: 5, releaseMs: 100 },
+      reverb: { enabled: true, mix: 0.12, decaySeconds: 0.6 },
+      normalize: { enabled: true, targetLufs: -14, peakDb: -1 },
+    },
+  },
+  {
+    id: 'phone',
+    label: 'postProcess.phone',
+    description: 'postProcess.phoneDescription',
+    settings: {
+      ...NO_POST_PROCESS,
+      trim: { enabled: true, thresholdDb: -50, paddingMs: 100 },
+      highpass: { enabled: true, frequency: 300 },
+      lowpass: { enabled: true, frequency: 3400 },
+      eq: { enabled: true, lowGain: 0, midGain: 4, midFrequency: 1500, highGain: 0 },
+      compressor: { enabled: true, thresholdDb: -24, ratio: 6, attackMs: 5, releaseMs: 80 },
+      normalize: { enabled: true, targetLufs: -18, peakDb: -1 },
+    },
+  },
+];
+
+export const DEFAULT_MIX_SETTINGS: MixSettings = {
+  musicGainDb: -12,
+  duckDb: -12,
+  attackMs: 150,
+  releaseMs: 400,
+  leadInSeconds: 1.5,
+  tailSeconds: 2,
+  loopMusic: true,
+};
+
+export const DEFAULT_BATCH_SETTINGS: BatchSettings = {
+  concurrency: 1,
+  intervalMs: 6000,
+};
+
+// No limits until the user enters the ones of their plan
+export const DEFAULT_USAGE_BUDGETS: UsageBudgets = {
+  daily: {},
+  monthly: {},
+};
+
+// `name` goes into the prompt; `spaced` languages separate sentences with spaces and end them with '.'
+export const SPEECH_LANGUAGES: { id: SpeechLanguage; label: MessageKey; name: string; fillers: string; spaced: boolean }[] = [
+  { id: 'ja', label: 'language.ja', name: 'Japanese', fillers: '"えっと" (etto), "あ、" (ah), "んー" (mm)', spaced: false },
+  { id: 'en', label: 'language.en', name: 'English', fillers: '"um", "uh", "well,", "you know"', spaced: true },
+  { id: 'ko', label: 'language.ko', name: 'Korean', fillers: '"음" (eum), "어" (eo), "그러니까" (geureonikka)', spaced: true },
+  { id: 'zh', label: 'language.zh', name: 'Mandarin Chinese', fillers: '"嗯" (ng), "那个" (nàge), "就是" (jiùshì)', spaced: false },
+];
+
+export const speechLanguage = (id: SpeechLanguage = 'ja') => SPEECH_LANGUAGES.find(l => l.id === id) || SPEECH_LANGUAGES[0];
+
+// Default directing prompts. Variables are listed in PROMPT_VARIABLES (services/promptTemplates.ts).
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'default-single',
+    name: '標準 (単独)',
+    mode: 'single',
+    version: 2,
+    builtIn: true,
+    body: `Base Tone: {{emotionPrompt}}
+{{#character}}Character/Style setting: {{character}}{{/character}}
+{{pronunciation}}
+{{delivery}}
+{{continuity}}
+
+Instruction:
+1. Read the following text naturally in {{language}}.
+2. If a "Character/Style setting" is provided, strictly adopt that persona and speaking style.
+3. If there are emotion tags like (Happy), (Sad), (Whisper) in the text, strictly change the tone accordingly for that part.
+4. Apply the "Delivery directions" (pace and emphasis) to exactly the quoted parts, then return to the base delivery.
+{{#fillers}}5. Occasionally and naturally insert fillers like {{fillers}} at the beginning of sentences to make it sound more human-like. Do not do this for every sentence, only where it feels extremely natural.{{/fillers}}
+
+Text:
+{{text}}`,
+  },
+  {
+    id: 'default-conversation',
+    name: '標準 (会話)',
+    mode: 'conversation',
+    version: 2,
+    builtIn: true,
+    body: `Task: TTS the following conversation between {{speakerA}} and {{speakerB}}.
+Language: {{language}}.
+{{#context}}Situation/Context: {{context}}{{/context}}
+{{#characters}}Characters: {{characters}}{{/characters}}
+{{pronunciation}}
+{{lineDirections}}
+{{delivery}}
+{{continuity}}
+
+Instruction:
+1. Strictly distinguish the voices for {{speakerA}} and {{speakerB}}.
+2. Act out the scene based on the "Situation/Context" provided above.
+3. Follow the "Per-line directions" exactly for those lines. Emotion tags like (Happy), (Sad), (Whisper) in the text are directions for that line: strictly change the tone accordingly and never read the tags aloud.
+4. If a line is attributed to "{{speakerA}} & {{speakerB}}", try to make it sound like they are speaking together or in immediate agreement.
+5. Apply the "Delivery directions" (pace and emphasis) to exactly the quoted parts, then return to the base delivery.
+{{#fillers}}6. Occasionally and naturally insert fillers like {{fillers}} at the beginning of sentences to make it sound more human-like. Do not do this for every sentence, only where it feels extremely natural to the context.{{/fillers}}
+
+Conversation Script:
+{{text}}`,
+  },
 ];
 
+export const DEFAULT_PROMPT_TEMPLATE_IDS: Record<AppMode, string> = {
+  single: 'default-single',
+  conversation: 'default-conversation',
+};
+
 export const SAMPLE_TEXTS = [];
\ No newline at end of file
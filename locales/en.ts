@@ -0,0 +1,488 @@
+import type { LocaleDefinition } from '../types';
+
+const en: LocaleDefinition = {
+  id: 'en',
+  label: 'English',
+  intl: 'en-US',
+  messages: {
+    'common.close': 'Close',
+    'common.done': 'Done',
+    'common.cancel': 'Cancel',
+    'common.save': 'Save',
+    'common.delete': 'Delete',
+    'common.duplicate': 'Duplicate',
+    'common.add': 'Add',
+    'common.play': 'Play',
+    'common.retry': 'Retry',
+    'common.reset': 'Reset',
+    'common.custom': 'Custom',
+    'common.seconds': 's',
+    'common.unknownError': 'Unknown error',
+    'common.copyOf': 'Copy of {name}',
+    'common.rowIssue': 'Line {row}: {message}',
+    'common.andMore': '{count} more',
+
+    'app.title': 'Kanjō Voice AI',
+    'app.subtitle': 'Gemini 2.5 Japanese Text-to-Speech',
+    'app.usageToday': "Today's usage:",
+    'app.usageSummary': '{characters} characters · {seconds} of audio',
+    'app.quotaReset': '(resets daily at {time})',
+    'app.batch': 'Batch generation',
+    'app.postProcess': 'Post-processing',
+    'app.promptTemplates': 'Prompt templates',
+    'app.lexicon': 'Pronunciation lexicon',
+    'app.settings': 'Settings',
+
+    'settings.api': 'API settings',
+    'settings.engine': 'Speech engine',
+    'settings.apiKeyHelp': 'Enter your Google Gemini API key.',
+    'settings.apiKeyStored': 'The key is only stored in this browser.',
+    'settings.displayLanguage': 'Display language',
+    'settings.history': 'History storage',
+    'settings.historyLimit': 'Maximum items to keep per project (0 = unlimited)',
+    'settings.historyLimitBatchNote': "Batch results don't count toward the limit and are never deleted automatically.",
+    'settings.historyLimitConfirm': { one: 'A limit of {limit} per project deletes {count} older item. Continue?', other: 'A limit of {limit} per project deletes {count} older items. Continue?' },
+    'settings.storageUsage': { one: '{count} item / audio {size}', other: '{count} items / audio {size}' },
+    'settings.browserUsage': ' (whole browser: {usage} / {quota})',
+
+    'mode.single': 'Single (1 voice)',
+    'mode.conversation': 'Conversation (cast)',
+
+    'single.voice': 'Voice',
+    'single.managePersonas': 'Manage personas',
+    'single.baseVoices': 'Base voices',
+    'single.personas': 'Personas',
+    'single.description': 'Character and speaking style',
+    'single.descriptionPlaceholder': 'e.g. An office worker in his 30s. A little tired but sincere.',
+    'single.text': 'Text',
+    'single.charCount': { one: '{count} character', other: '{count} characters' },
+    'single.chunkCount': ' (generated in {count} parts)',
+    'single.textPlaceholder': 'Type the text to read aloud here...',
+    'single.previewText': 'Hello.',
+
+    'cast.speaker': 'Speaker {letter}',
+    'cast.remove': 'Remove from cast',
+    'cast.namePlaceholder': 'Name',
+    'cast.male': 'M',
+    'cast.female': 'F',
+    'cast.add': 'Add cast member',
+    'cast.defaultName': 'Speaker {letter}',
+    'cast.invalid': 'Check the cast',
+    'cast.tooFew': 'A conversation needs at least two cast members.',
+    'cast.emptyName': 'A cast member has no name.',
+    'cast.duplicateName': 'More than one cast member is named "{name}". Names must be unique.',
+    'cast.removeWithLines': 'This cast member has lines. Delete them along with the cast member?',
+
+    'conversation.context': 'Situation and relationships (directions for the AI)',
+    'conversation.contextPlaceholder': 'e.g. A boss and a subordinate. The boss is angry, the subordinate plays dumb. A comedy double act.',
+    'conversation.renderMode': 'Generation method',
+    'conversation.renderScript': 'Whole script',
+    'conversation.renderPerLine': 'Line by line',
+    'conversation.lineGap': 'Gap between lines',
+    'conversation.lineGapShort': 'Gap',
+    'conversation.importScript': 'Import script (Fountain / CSV / JSON)',
+    'conversation.exportScript': 'Export script',
+    'conversation.exportPlaceholder': 'Export',
+    'conversation.scriptEditor': 'Script editor',
+    'conversation.bubbles': 'Bubble view',
+    'conversation.scriptHelp': 'Name: line (A: / B: / C: ... also work) / Name & Name: spoken together',
+    'conversation.example': 'Example)',
+    'conversation.exampleGreeting': 'Morning',
+    'conversation.exampleReply': 'Good morning!',
+    'conversation.exampleTogether': 'We did it!',
+    'conversation.markupHelp': 'Pauses, pace and emphasis:',
+    'conversation.scriptPlaceholder': 'Type the script...',
+    'conversation.empty': 'Add lines with the input below',
+    'conversation.lineEmotion': 'Emotion for this line',
+    'conversation.inherit': 'Inherit',
+    'conversation.playTake': 'Play this take',
+    'conversation.stale': 'Outdated',
+    'conversation.staleHint': 'The line has changed since this take',
+    'conversation.regenerateLine': 'Regenerate just this line',
+    'conversation.emotion': 'Emotion:',
+    'conversation.linePlaceholder': 'Type a line...',
+    'conversation.together': 'Together',
+    'conversation.togetherPick': 'Together...',
+    'conversation.replaceLines': {
+      one: 'Import {count} line? The current lines will be replaced.',
+      other: 'Import {count} lines? The current lines will be replaced.',
+    },
+
+    'generate.language': 'Language',
+    'generate.fillers': 'Fillers',
+    'generate.fillersHint': 'Ask for natural filler words typical of the language, such as "um" or 「えっと」',
+    'generate.takes': 'Takes',
+    'generate.running': 'Generating...',
+    'generate.start': 'Generate speech',
+    'generate.retrying': 'Retry {attempt} (in {seconds}s)',
+    'generate.openSettings': 'Open settings',
+
+    'notice.exportFailed': 'Export failed',
+    'notice.markupErrors': { one: 'The markup has {count} error', other: 'The markup has {count} errors' },
+    'notice.lineMarkupError': 'Line {line}: {message}',
+    'notice.noApiKey': 'No API key set',
+    'notice.noApiKeyMessage': 'Enter your API key with the settings button at the top right.',
+    'notice.personasFailed': { one: "Couldn't import {count} persona", other: "Couldn't import {count} personas" },
+    'notice.personasImported': 'Personas imported',
+    'notice.personasImportedMessage': '{added} added / {updated} updated',
+    'notice.lexiconFailed': { one: "Couldn't import {count} row", other: "Couldn't import {count} rows" },
+    'notice.scriptFailed': { one: "Couldn't read {count} part of {file}", other: "Couldn't read {count} parts of {file}" },
+    'notice.projectExportFailed': 'Project export failed',
+    'notice.projectImportFailed': "Couldn't import the project",
+    'notice.postProcessFailed': 'Post-processing failed',
+
+    'player.download': 'Save audio',
+    'player.empty': 'Select a history item to play',
+
+    'history.title': 'History',
+    'history.selectAll': 'Select all',
+    'history.deselectAll': 'Deselect all',
+    'history.saveZip': { one: 'Save {count} item as ZIP', other: 'Save {count} items as ZIP' },
+    'history.select': 'Select',
+    'history.deleteUnchosen': 'Delete unchosen takes',
+    'history.deleteUnchosenConfirm': { one: 'Delete {count} unchosen take?', other: 'Delete {count} unchosen takes?' },
+    'history.clear': 'Delete all',
+    'history.empty': 'No history yet.',
+    'history.single': 'SINGLE',
+    'history.conversation': 'CONV',
+    'history.mix': 'MIX',
+    'history.noPostProcess': 'No post-processing',
+    'history.original': 'Original',
+    'history.playOriginal': 'Play the unprocessed audio',
+    'history.situation': 'Sit: ',
+    'history.character': 'Char: ',
+    'history.restore': 'Restore these settings',
+    'history.subtitles': 'Subtitles (SRT / WebVTT)',
+    'history.mixMusic': 'Mix music and sound effects',
+
+    'voice.Kore': 'Kore (female, calm)',
+    'voice.Puck': 'Puck (male, low)',
+    'voice.Charon': 'Charon (male, deep)',
+    'voice.Fenrir': 'Fenrir (male, strong)',
+    'voice.Zephyr': 'Zephyr (female, bright)',
+    'voice.Child': 'Child',
+    'voice.Youth': 'Youth',
+    'voice.Announcer': 'Announcer',
+    'voice.Comedian': 'Comedian',
+    'voice.Narration': 'Narration',
+    'voice.News': 'News',
+
+    'emotion.Neutral': 'Neutral',
+    'emotion.Happy': 'Happy',
+    'emotion.Sad': 'Sad',
+    'emotion.Angry': 'Angry',
+    'emotion.Excited': 'Excited',
+    'emotion.Whisper': 'Whisper',
+    'emotion.Fearful': 'Fearful',
+    'emotion.Robotic': 'Robotic',
+
+    'emotionMix.title': 'Emotion blend',
+    'emotionMix.intensity': 'Intensity',
+    'emotionMix.summaryIntensity': '{emotions} · intensity {intensity}',
+
+    'language.ja': 'Japanese',
+    'language.en': 'English',
+    'language.ko': 'Korean',
+    'language.zh': 'Chinese',
+
+    'markup.pauseShort': 'Pause 0.5s',
+    'markup.pauseLong': 'Pause 1s',
+    'markup.slow': 'Slow',
+    'markup.fast': 'Fast',
+    'markup.emph': 'Emphasis',
+    'markup.pauseClosing': '"{tag}": [pause] has no closing tag',
+    'markup.pauseMissing': '"{tag}": give a length (e.g. [pause 800ms])',
+    'markup.pauseInvalid': '"{tag}": can\'t read the length "{value}" (e.g. 800ms / 1.5s)',
+    'markup.pauseTooLong': { one: '"{tag}": pauses can be at most {count} second', other: '"{tag}": pauses can be at most {count} seconds' },
+    'markup.unknownTag': '"{tag}": unknown tag ([pause] / [slow] / [fast] / [emph] are available)',
+    'markup.noValue': '"{tag}": [{name}] doesn\'t take a value',
+    'markup.closedEarly': '"{tag}": closed before [{name}]',
+    'markup.noOpening': '"{tag}": no matching opening tag',
+    'markup.unclosed': '"[{name}]": missing closing tag [/{name}]',
+
+    'postProcess.title': 'Post-processing',
+    'postProcess.intro': 'Applied to generated audio before playback and export. The unprocessed audio stays in history, so you can change the preset later.',
+    'postProcess.none': 'None',
+    'postProcess.noneDescription': 'Use the generated audio as is',
+    'postProcess.podcast': 'Podcast',
+    'postProcess.podcastDescription': 'Silence trimming, low cut and light compression, leveled to -16 LUFS',
+    'postProcess.gameVoice': 'Game voice',
+    'postProcess.gameVoiceDescription': 'Tight padding, upfront sound and a short reverb (-14 LUFS)',
+    'postProcess.phone': 'Telephone',
+    'postProcess.phoneDescription': 'Narrows the band to 300Hz–3.4kHz for a voice over the phone',
+    'postProcess.customDescription': 'Adjust every stage yourself',
+    'postProcess.settings': 'Settings',
+    'postProcess.settingsLocked': "Settings (presets can't be edited)",
+    'postProcess.copyToCustom': 'Copy to custom and edit',
+    'postProcess.trim': 'Silence trim',
+    'postProcess.highpass': 'Low cut',
+    'postProcess.lowpass': 'High cut',
+    'postProcess.eq': 'Equalizer',
+    'postProcess.compressor': 'Compressor',
+    'postProcess.reverb': 'Room reverb',
+    'postProcess.normalize': 'Loudness normalization',
+    'postProcess.threshold': 'Threshold (dB)',
+    'postProcess.padding': 'Padding (ms)',
+    'postProcess.frequency': 'Frequency (Hz)',
+    'postProcess.lowGain': 'Low (dB)',
+    'postProcess.midGain': 'Mid (dB)',
+    'postProcess.midFrequency': 'Mid center (Hz)',
+    'postProcess.highGain': 'High (dB)',
+    'postProcess.ratio': 'Ratio',
+    'postProcess.attack': 'Attack (ms)',
+    'postProcess.release': 'Release (ms)',
+    'postProcess.wet': 'Wet',
+    'postProcess.decay': 'Decay time (s)',
+    'postProcess.targetLufs': 'Target (LUFS)',
+    'postProcess.peak': 'Peak ceiling (dBFS)',
+
+    'mix.title': 'Music and sound effects mix',
+    'mix.speech': 'Speech',
+    'mix.music': 'Music',
+    'mix.removeMusic': 'Remove',
+    'mix.replaceMusic': 'Replace',
+    'mix.loadMusic': 'Load',
+    'mix.musicInfo': '{name} ({seconds}s)',
+    'mix.noMusic': 'None selected',
+    'mix.loop': 'Loop short music',
+    'mix.musicGain': 'Music volume (dB)',
+    'mix.duck': 'Ducking amount (dB)',
+    'mix.attack': 'Attack (ms)',
+    'mix.release': 'Release (ms)',
+    'mix.leadIn': 'Music lead-in (s)',
+    'mix.tail': 'Fade-out (s)',
+    'mix.resetSettings': 'Reset to defaults',
+    'mix.sfx': 'Sound effects',
+    'mix.noSfx': 'No sound effects',
+    'mix.sfxStart': 'Start',
+    'mix.sfxGain': 'Volume',
+    'mix.failed': 'Mixing failed',
+    'mix.preview': 'Preview',
+    'mix.addToHistory': 'Add to history',
+    'mix.decodeFailed': 'Couldn\'t read "{name}" as audio.',
+
+    'persona.title': 'Personas',
+    'persona.import': 'Import library (JSON)',
+    'persona.export': 'Export library (JSON)',
+    'persona.empty': 'No personas',
+    'persona.create': 'New persona',
+    'persona.name': 'Display name',
+    'persona.baseVoice': 'Base voice',
+    'persona.gender': 'Gender',
+    'persona.female': 'Female',
+    'persona.male': 'Male',
+    'persona.description': 'Character and speaking style',
+    'persona.descriptionPlaceholder': 'e.g. A calm middle-aged butler. Polite, with a hint of sarcasm.',
+    'persona.defaultEmotion': 'Default emotion',
+    'persona.noEmotion': 'None',
+    'persona.selectPrompt': 'Select a persona or create a new one.',
+    'persona.deleteInUse': '"{name}" is in use and will fall back to a base voice. Delete it?',
+    'persona.deleteConfirm': 'Delete "{name}"?',
+    'persona.defaultName': 'New persona',
+    'persona.notObject': 'Not an object',
+    'persona.noName': 'Missing name',
+    'persona.unknownVoice': 'apiName "{voice}" is not an available voice',
+    'persona.notJson': "Couldn't read the file as JSON",
+    'persona.notLibrary': 'Not a persona library file',
+    'persona.entryIssue': 'Entry {index}: {message}',
+    'persona.baseVoiceId': 'id "{id}" clashes with a base voice',
+
+    'lexicon.title': 'Pronunciation lexicon',
+    'lexicon.import': 'Import CSV (surface,reading,accent)',
+    'lexicon.export': 'Export CSV',
+    'lexicon.help': 'Entries are replaced with their readings before speech is generated.',
+    'lexicon.rubyHelp': 'In the text, {example} sets the reading of a single occurrence.',
+    'lexicon.surface': 'Surface',
+    'lexicon.reading': 'Reading (kana)',
+    'lexicon.accent': 'Accent (optional)',
+    'lexicon.accentPlaceholder': 'Atamadaka',
+    'lexicon.sample': 'Type here to see the text that will be read',
+    'lexicon.missingFields': 'Line {row}: both surface and reading are required',
+    'lexicon.notKana': 'Line {row}: the reading "{reading}" must be in kana',
+
+    'export.title': 'Export settings',
+    'export.zipTitle': { one: 'Export as ZIP ({count} item)', other: 'Export as ZIP ({count} items)' },
+    'export.format': 'Format',
+    'export.bitrate': 'Bitrate',
+    'export.bitDepth': 'Bit depth',
+    'export.mp3Resampled': 'MP3 at {kbps} kbps needs 32 kHz or more, so it is written at {rate} kHz.',
+    'export.sampleRate': 'Sample rate',
+    'export.originalRate': 'Original ({rate}k)',
+    'export.channels': 'Channels',
+    'export.mono': 'Mono',
+    'export.stereo': 'Stereo',
+    'export.fileName': 'File name',
+    'export.example': 'e.g. {name}',
+    'export.manifest': 'Includes manifest.json and manifest.csv (text, voice, emotion, duration and more)',
+    'export.submit': 'Export',
+    'export.token.n': 'Number',
+    'export.token.date': 'Date',
+    'export.token.time': 'Time',
+    'export.token.voice': 'Voice',
+    'export.token.speakers': 'Speakers',
+    'export.token.emotion': 'Emotion',
+    'export.token.text': 'Start of text',
+    'export.token.mode': 'Mode',
+    'export.token.id': 'ID',
+
+    'subtitles.title': 'Subtitle timing',
+    'subtitles.empty': 'There is no text to subtitle.',
+    'subtitles.playFrom': 'Play from here',
+
+    'takes.title': 'Compare takes (switching during playback keeps the position)',
+    'takes.deleteUnchosenHint': 'Delete the takes that were not chosen',
+    'takes.deleteUnchosen': 'Delete unchosen',
+    'takes.chosen': 'Chosen',
+    'takes.choose': 'Choose',
+    'takes.partialSaved': { one: 'The {count} finished take of {total} was saved to history.', other: 'The {count} finished takes of {total} were saved to history.' },
+
+    'batch.title': 'Batch generation',
+    'batch.closeHint': 'Close (generation continues)',
+    'batch.placeholder': 'One line per entry, or paste from a spreadsheet (tab-separated id, text, voice, emotion, description, language)\nCSV with a header row (id,text,voice,emotion,description,language) works too',
+    'batch.importCsv': 'Import CSV',
+    'batch.enqueue': 'Add to queue',
+    'batch.concurrency': 'Concurrent requests',
+    'batch.interval': 'Request interval',
+    'batch.progress': '{done}/{total} done',
+    'batch.progressFailed': ' · {count} failed',
+    'batch.progressPending': ' · {count} waiting',
+    'batch.allDone': { one: 'Generated {count} item', other: 'Generated all {count} items' },
+    'batch.someFailed': '{failed} failed ({done} succeeded)',
+    'batch.stopped': { one: 'Stopped automatically ({reason}). Fix the problem, then resume to run the {count} item still waiting.', other: 'Stopped automatically ({reason}). Fix the problem, then resume to run the {count} items still waiting.' },
+    'batch.retryFailed': 'Retry failed',
+    'batch.empty': 'The queue is empty',
+    'batch.defaultVoice': 'Default ({voice})',
+    'batch.saveAs': 'Save as {id}',
+    'batch.remove': 'Remove from queue',
+    'batch.clear': 'Clear all',
+    'batch.clearConfirm': 'Some items have not finished. Empty the queue?',
+    'batch.saveZip': 'Save finished items as ZIP',
+    'batch.pause': 'Pause',
+    'batch.resume': 'Resume',
+    'batch.start': 'Start',
+    'batch.status.pending': 'Waiting',
+    'batch.status.running': 'Generating',
+    'batch.status.done': 'Done',
+    'batch.status.failed': 'Failed',
+    'batch.emptyText': 'The text is empty',
+    'batch.duplicateId': 'id "{id}" was already used, so it was renamed to "{renamed}"',
+    'batch.unknownVoice': 'Voice "{voice}" was not found; using the default voice',
+    'batch.unknownLanguage': 'Language "{language}" is unknown; using the default language',
+
+    'import.unknownEmotion': 'Emotion "{emotion}" is unknown and was ignored',
+    'import.noSpeakerColumn': 'No speaker column found',
+    'import.emptyLine': 'The line is empty',
+    'import.emptySpeaker': 'The speaker is empty',
+    'import.tooManySpeakers': '"{speaker}": at most two speakers can say a line together',
+    'import.actionSkipped': 'Action "{text}" is not read aloud and was skipped',
+    'import.noDialogue': '"{speaker}" has no dialogue',
+    'import.noCues': 'No character names with dialogue found (write non-Latin names as "@Name")',
+    'import.notJson': "Couldn't read the file as JSON: {message}",
+    'import.noLines': 'No "lines" array found',
+    'import.notObject': 'Not an object',
+    'import.badText': 'text is empty or not a string',
+    'import.badSpeaker': 'speaker / partner must be strings',
+    'import.noScriptLines': 'There are no lines',
+
+    'project.defaultName': 'Project {number}',
+    'project.title': 'Projects',
+    'project.import': 'Import (.{extension})',
+    'project.create': 'New project',
+    'project.summary': { one: '{mode} · {count} history item · {date}', other: '{mode} · {count} history items · {date}' },
+    'project.modeSingle': 'Single',
+    'project.modeConversation': 'Conversation',
+    'project.rename': 'Rename',
+    'project.export': 'Export (.{extension})',
+    'project.deleteConfirm': 'Delete the project "{name}" and all of its history?',
+    'project.unreadable': "Couldn't read the project file.",
+    'project.notBundle': 'Not a Kanjo Voice project file.',
+    'project.newerVersion': 'This project file was created by a newer version.',
+
+    'template.title': 'Prompt templates',
+    'template.modeGroup': '{mode} mode',
+    'template.modeSingle': 'Single',
+    'template.modeConversation': 'Conversation',
+    'template.defaultSingle': 'Default (single)',
+    'template.defaultConversation': 'Default (conversation)',
+    'template.builtInNote': "Built-in templates can't be edited. Duplicate one to edit it.",
+    'template.sectionHelp': 'Text wrapped in {{#name}}…{{/name}} is left out when that variable is empty.',
+    'template.unknownVariables': 'Variables not available in this mode: {names}',
+    'template.showPreview': 'Preview with the current input',
+    'template.hidePreview': 'Close preview',
+    'template.previewFailed': "Can't preview: {message}",
+    'template.previewChunk': '(first of {count} parts)',
+    'template.discardConfirm': 'Discard unsaved changes?',
+    'template.deleteConfirm': 'Delete the template "{name}"?',
+    'template.saveFirst': 'Save first',
+    'template.use': 'Use in {mode} mode',
+    'template.var.text': 'Text to read (one chunk after splitting)',
+    'template.var.emotionPrompt': 'Emotion direction',
+    'template.var.character': 'Character (persona + description)',
+    'template.var.description': 'Description field only',
+    'template.var.persona': 'Persona character only',
+    'template.var.voice': 'Voice name',
+    'template.var.language': 'Language to read in (English name)',
+    'template.var.fillers': 'Filler examples for the language (empty when off)',
+    'template.var.pronunciation': 'Accent directions line',
+    'template.var.delivery': 'Pace and emphasis markup directions',
+    'template.var.continuity': '"Continued" direction when split',
+    'template.var.script': 'Script (one chunk after splitting)',
+    'template.var.speakerA': 'Name of speaker A',
+    'template.var.speakerB': 'Name of speaker B',
+    'template.var.situation': 'Situation',
+    'template.var.characters': 'Persona characters (name: description)',
+    'template.var.lineDirections': 'Per-line emotion directions',
+
+    'usage.title': 'Usage',
+    'usage.exportCsv': 'Export as CSV',
+    'usage.key': 'API key',
+    'usage.allKeys': 'All keys',
+    'usage.currentKey': '{key} (in use)',
+    'usage.envKey': 'Environment key',
+    'usage.today': 'Today',
+    'usage.thisMonth': 'This month',
+    'usage.budget': 'Budget',
+    'usage.budgetHint': 'Leave empty for no limit. Budgets apply to each key separately.',
+    'usage.metric.requests': 'Requests',
+    'usage.metric.characters': 'Characters',
+    'usage.metric.seconds': 'Audio length',
+    'usage.requestCount': { one: '{count} request', other: '{count} requests' },
+    'usage.periodDaily': 'today',
+    'usage.periodMonthly': 'this month',
+    'usage.warning': '{metric} {period} reached {percent}% of the budget ({used} / {limit})',
+    'usage.exceeded': '{metric} {period} went over the budget ({used} / {limit})',
+    'usage.alertTitle': 'Usage budget alert',
+    'usage.resetNote': 'Usage days start at {hour}:00 {zone} (next: {time})',
+    'usage.localNote': 'Usage recorded in this browser. Calls made with the same key in other apps or devices are not included.',
+    'usage.history': 'Daily records',
+    'usage.day': 'Day',
+    'usage.empty': 'Nothing recorded yet.',
+
+    'provider.gemini': 'Gemini TTS',
+    'provider.localTone': 'Local (test tones)',
+    'provider.localHttp': 'Local (HTTP)',
+    'provider.noEndpoint': 'No endpoint is set for the local HTTP engine.',
+
+    'audio.notWav': 'Not a WAV file.',
+    'audio.unsupportedWav': 'Unsupported WAV format ({bits}-bit). Only 16-bit PCM is supported.',
+    'audio.noWavData': 'The WAV file contains no audio data.',
+
+    'error.invalidKey': 'Invalid API key',
+    'error.invalidKeyMessage': 'Check your API key in the settings.',
+    'error.rateLimit': 'Too many requests',
+    'error.rateLimitMessage': 'The per-minute request limit was hit. Wait a moment and try again.',
+    'error.quotaExceeded': 'Quota used up',
+    'error.quotaExceededMessage': 'The daily or project quota of this API key is used up. Generation will work again after it resets. Check the usage panel and your Google AI Studio plan.',
+    'error.safety': 'No speech was generated',
+    'error.safetyMessage': 'The safety filter returned an empty response. Rephrase the text and try again.',
+    'error.network': 'Network error',
+    'error.networkMessage': "Couldn't reach the server. Check your network connection.",
+    'error.decode': "Couldn't convert the audio",
+    'error.decodeMessage': "Couldn't read the received audio data. Please try again.",
+    'error.cancelled': 'Cancelled',
+    'error.cancelledMessage': 'Generation was stopped.',
+    'error.unknown': 'An error occurred',
+  },
+};
+
+export default en;
@@ -0,0 +1,6 @@
+import { LocaleDefinition } from '../types';
+import ja from './ja';
+import en from './en';
+
+// Adding a locale is data only: create a catalog next to these and list it here. The first entry is the fallback.
+export const LOCALES: LocaleDefinition[] = [ja, en];
@@ -0,0 +1,485 @@
+// Japanese is the reference catalog: its keys define MessageKey, so every other locale must translate all of them.
+// `{name}` inserts a parameter; numbers are formatted for the locale.
+const messages = {
+  'common.close': '閉じる',
+  'common.done': '完了',
+  'common.cancel': 'キャンセル',
+  'common.save': '保存',
+  'common.delete': '削除',
+  'common.duplicate': '複製',
+  'common.add': '追加',
+  'common.play': '再生',
+  'common.retry': '再試行',
+  'common.reset': 'リセット',
+  'common.custom': 'カスタム',
+  'common.seconds': '秒',
+  'common.unknownError': '不明なエラー',
+  'common.copyOf': '{name} のコピー',
+  'common.rowIssue': '{row}行目: {message}',
+  'common.andMore': 'ほか{count}件',
+
+  'app.title': '感情ボイス AI',
+  'app.subtitle': 'Gemini 2.5 日本語 Text-to-Speech',
+  'app.usageToday': '今日の使用量:',
+  'app.usageSummary': '{characters}文字 · 音声 {seconds}',
+  'app.quotaReset': '(毎日 {time} リセット)',
+  'app.batch': '一括生成',
+  'app.postProcess': '後処理',
+  'app.promptTemplates': 'プロンプトテンプレート',
+  'app.lexicon': '読み辞書',
+  'app.settings': '設定',
+
+  'settings.api': 'API設定',
+  'settings.engine': '音声エンジン',
+  'settings.apiKeyHelp': 'Google Gemini APIキーを入力してください。',
+  'settings.apiKeyStored': 'キーはブラウザにのみ保存されます。',
+  'settings.displayLanguage': '表示言語',
+  'settings.history': '履歴の保存',
+  'settings.historyLimit': 'プロジェクトごとの最大保存件数 (0 = 無制限)',
+  'settings.historyLimitBatchNote': 'バッチ生成の結果は件数に含まれず、自動では削除されません。',
+  'settings.historyLimitConfirm': '保存件数をプロジェクトごとに{limit}件にすると、古い履歴 {count}件が削除されます。よろしいですか？',
+  'settings.storageUsage': '{count}件 / 音声 {size}',
+  'settings.browserUsage': ' (ブラウザ全体: {usage} / {quota})',
+
+  'mode.single': 'シングル (1人)',
+  'mode.conversation': '会話 (複数人)',
+
+  'single.voice': '声の選択',
+  'single.managePersonas': 'ペルソナを管理',
+  'single.baseVoices': '標準の声',
+  'single.personas': 'ペルソナ',
+  'single.description': '人物像・話し方の指定',
+  'single.descriptionPlaceholder': '例: 30代のサラリーマン。少し疲れ気味だが誠実な話し方。',
+  'single.text': 'テキスト入力',
+  'single.charCount': '{count}文字',
+  'single.chunkCount': ' ({count}回に分割して生成)',
+  'single.textPlaceholder': 'ここに読み上げさせたい日本語を入力してください...',
+  'single.previewText': 'こんにちは。',
+
+  'cast.speaker': 'Speaker {letter}',
+  'cast.remove': 'キャストから外す',
+  'cast.namePlaceholder': '名前',
+  'cast.male': '男',
+  'cast.female': '女',
+  'cast.add': 'キャスト追加',
+  'cast.defaultName': '{letter}さん',
+  'cast.invalid': 'キャストを確認してください',
+  'cast.tooFew': '会話には2人以上のキャストが必要です。',
+  'cast.emptyName': '名前が空のキャストがあります。',
+  'cast.duplicateName': '「{name}」という名前のキャストが複数います。名前は重複できません。',
+  'cast.removeWithLines': 'このキャストのセリフがあります。セリフごと削除しますか？',
+
+  'conversation.context': 'シチュエーション・関係性 (AIへの指示)',
+  'conversation.contextPlaceholder': '例: 上司と部下。上司は怒っているが、部下はとぼけている。漫才のような掛け合い。',
+  'conversation.renderMode': '生成方法',
+  'conversation.renderScript': '一括生成',
+  'conversation.renderPerLine': '1行ずつ生成',
+  'conversation.lineGap': '行と行の間隔',
+  'conversation.lineGapShort': '間隔',
+  'conversation.importScript': '台本を読み込む (Fountain / CSV / JSON)',
+  'conversation.exportScript': '台本を書き出す',
+  'conversation.exportPlaceholder': '書き出し',
+  'conversation.scriptEditor': 'スクリプト編集',
+  'conversation.bubbles': '吹き出しモード',
+  'conversation.scriptHelp': '名前: セリフ (A: / B: / C: ... でも指定可) / 名前 & 名前: 二人同時',
+  'conversation.example': '例)',
+  'conversation.exampleGreeting': 'おはよう',
+  'conversation.exampleReply': 'おはようございます！',
+  'conversation.exampleTogether': 'やったー！',
+  'conversation.markupHelp': '間・速さ・強調:',
+  'conversation.scriptPlaceholder': 'スクリプトを入力...',
+  'conversation.empty': '下の入力欄から会話を追加してください',
+  'conversation.lineEmotion': 'この行の感情',
+  'conversation.inherit': '継承',
+  'conversation.playTake': 'このテイクを再生',
+  'conversation.stale': '未反映',
+  'conversation.staleHint': '内容が変更されています',
+  'conversation.regenerateLine': 'この行だけ再生成',
+  'conversation.emotion': '感情:',
+  'conversation.linePlaceholder': '発言を入力...',
+  'conversation.together': '二人同時',
+  'conversation.togetherPick': '二人同時...',
+  'conversation.replaceLines': '{count}行のセリフを読み込みます。現在のセリフは置き換えられます。よろしいですか？',
+
+  'generate.language': '言語',
+  'generate.fillers': 'フィラー',
+  'generate.fillersHint': '「えっと」「um」など、その言語らしいつなぎ言葉を自然に入れるよう指示します',
+  'generate.takes': 'テイク数',
+  'generate.running': '生成中...',
+  'generate.start': '音声を生成',
+  'generate.retrying': '再試行 {attempt}回目 ({seconds}秒後)',
+  'generate.openSettings': '設定を開く',
+
+  'notice.exportFailed': '書き出しに失敗しました',
+  'notice.markupErrors': 'マークアップに{count}件の誤りがあります',
+  'notice.lineMarkupError': '{line}行目 {message}',
+  'notice.noApiKey': 'APIキーが設定されていません',
+  'notice.noApiKeyMessage': '画面右上の設定ボタンからAPIキーを入力してください。',
+  'notice.personasFailed': '{count}件のペルソナを読み込めませんでした',
+  'notice.personasImported': 'ペルソナを読み込みました',
+  'notice.personasImportedMessage': '追加 {added}件 / 更新 {updated}件',
+  'notice.lexiconFailed': '{count}行を読み込めませんでした',
+  'notice.scriptFailed': '{file} の{count}箇所を読み込めませんでした',
+  'notice.projectExportFailed': 'プロジェクトの書き出しに失敗しました',
+  'notice.projectImportFailed': 'プロジェクトを読み込めませんでした',
+  'notice.postProcessFailed': '後処理に失敗しました',
+
+  'player.download': '音声保存',
+  'player.empty': '再生する履歴を選択',
+
+  'history.title': '履歴',
+  'history.selectAll': 'すべて選択',
+  'history.deselectAll': '選択解除',
+  'history.saveZip': '{count}件をZIPで保存',
+  'history.select': '選択',
+  'history.deleteUnchosen': '未採用テイクを削除',
+  'history.deleteUnchosenConfirm': '採用していないテイク {count}件を削除しますか？',
+  'history.clear': '全て削除',
+  'history.empty': 'まだ履歴がありません。',
+  'history.single': 'SINGLE',
+  'history.conversation': 'CONV',
+  'history.mix': 'MIX',
+  'history.noPostProcess': '後処理なし',
+  'history.original': '原音',
+  'history.playOriginal': '加工前の音声を再生',
+  'history.situation': 'Sit: ',
+  'history.character': 'Char: ',
+  'history.restore': 'この設定を復元',
+  'history.subtitles': '字幕 (SRT / WebVTT)',
+  'history.mixMusic': 'BGM・効果音をミックス',
+
+  'voice.Kore': 'Kore (女性・落ち着き)',
+  'voice.Puck': 'Puck (男性・低音)',
+  'voice.Charon': 'Charon (男性・深み)',
+  'voice.Fenrir': 'Fenrir (男性・力強い)',
+  'voice.Zephyr': 'Zephyr (女性・明快)',
+  'voice.Child': '子ども',
+  'voice.Youth': '青年',
+  'voice.Announcer': 'アナウンサー',
+  'voice.Comedian': 'コメディアン',
+  'voice.Narration': 'ナレーション',
+  'voice.News': 'ニュース',
+
+  'emotion.Neutral': '普通',
+  'emotion.Happy': '喜び',
+  'emotion.Sad': '悲しみ',
+  'emotion.Angry': '怒り',
+  'emotion.Excited': '興奮',
+  'emotion.Whisper': 'ささやき',
+  'emotion.Fearful': '恐怖',
+  'emotion.Robotic': 'ロボット',
+
+  'emotionMix.title': '感情ブレンド',
+  'emotionMix.intensity': '強さ',
+  'emotionMix.summaryIntensity': '{emotions} · 強さ{intensity}',
+
+  'language.ja': '日本語',
+  'language.en': '英語',
+  'language.ko': '韓国語',
+  'language.zh': '中国語',
+
+  'markup.pauseShort': '間 0.5秒',
+  'markup.pauseLong': '間 1秒',
+  'markup.slow': 'ゆっくり',
+  'markup.fast': '速く',
+  'markup.emph': '強調',
+  'markup.pauseClosing': '「{tag}」: [pause] に閉じタグはありません',
+  'markup.pauseMissing': '「{tag}」: 長さを指定してください (例: [pause 800ms])',
+  'markup.pauseInvalid': '「{tag}」: 長さ「{value}」を読み取れません (例: 800ms / 1.5s)',
+  'markup.pauseTooLong': '「{tag}」: 長さは {count} 秒以内で指定してください',
+  'markup.unknownTag': '「{tag}」: 不明なタグです ([pause] / [slow] / [fast] / [emph] が使えます)',
+  'markup.noValue': '「{tag}」: [{name}] に値は指定できません',
+  'markup.closedEarly': '「{tag}」: [{name}] より先に閉じられています',
+  'markup.noOpening': '「{tag}」: 対応する開始タグがありません',
+  'markup.unclosed': '「[{name}]」: 閉じタグ [/{name}] がありません',
+
+  'postProcess.title': '後処理',
+  'postProcess.intro': '生成した音声に適用してから再生・書き出しします。加工前の音声は履歴に残るので、あとからプリセットを変えられます。',
+  'postProcess.none': 'なし',
+  'postProcess.noneDescription': '生成された音声をそのまま使います',
+  'postProcess.podcast': 'ポッドキャスト',
+  'postProcess.podcastDescription': '無音カット・低域カット・軽い圧縮で -16 LUFS に揃えます',
+  'postProcess.gameVoice': 'ゲームボイス',
+  'postProcess.gameVoiceDescription': '余白を詰めて前に出し、短い残響を加えます (-14 LUFS)',
+  'postProcess.phone': '電話',
+  'postProcess.phoneDescription': '300Hz〜3.4kHz に帯域を絞った電話越しの声にします',
+  'postProcess.customDescription': '各段の設定を自分で調整します',
+  'postProcess.settings': '設定',
+  'postProcess.settingsLocked': '設定 (プリセットは編集できません)',
+  'postProcess.copyToCustom': 'カスタムにコピーして編集',
+  'postProcess.trim': '無音カット',
+  'postProcess.highpass': 'ローカット',
+  'postProcess.lowpass': 'ハイカット',
+  'postProcess.eq': 'イコライザー',
+  'postProcess.compressor': 'コンプレッサー',
+  'postProcess.reverb': 'ルームリバーブ',
+  'postProcess.normalize': 'ラウドネス正規化',
+  'postProcess.threshold': 'しきい値 (dB)',
+  'postProcess.padding': '余白 (ms)',
+  'postProcess.frequency': '周波数 (Hz)',
+  'postProcess.lowGain': '低域 (dB)',
+  'postProcess.midGain': '中域 (dB)',
+  'postProcess.midFrequency': '中域の中心 (Hz)',
+  'postProcess.highGain': '高域 (dB)',
+  'postProcess.ratio': 'レシオ',
+  'postProcess.attack': 'アタック (ms)',
+  'postProcess.release': 'リリース (ms)',
+  'postProcess.wet': 'ウェット',
+  'postProcess.decay': '残響時間 (秒)',
+  'postProcess.targetLufs': '目標 (LUFS)',
+  'postProcess.peak': 'ピーク上限 (dBFS)',
+
+  'mix.title': 'BGM・効果音ミックス',
+  'mix.speech': 'セリフ',
+  'mix.music': 'BGM',
+  'mix.removeMusic': '外す',
+  'mix.replaceMusic': '差し替え',
+  'mix.loadMusic': '読み込む',
+  'mix.musicInfo': '{name} ({seconds}秒)',
+  'mix.noMusic': '未選択',
+  'mix.loop': '短いBGMはループする',
+  'mix.musicGain': 'BGM音量 (dB)',
+  'mix.duck': 'ダッキング量 (dB)',
+  'mix.attack': 'アタック (ms)',
+  'mix.release': 'リリース (ms)',
+  'mix.leadIn': '頭のBGM (秒)',
+  'mix.tail': 'フェードアウト (秒)',
+  'mix.resetSettings': '初期値に戻す',
+  'mix.sfx': '効果音',
+  'mix.noSfx': '効果音はありません',
+  'mix.sfxStart': '開始',
+  'mix.sfxGain': '音量',
+  'mix.failed': 'ミックスに失敗しました',
+  'mix.preview': '試聴',
+  'mix.addToHistory': '履歴に追加',
+  'mix.decodeFailed': '「{name}」を音声として読み込めません。',
+
+  'persona.title': 'ペルソナ',
+  'persona.import': 'ライブラリを読み込む (JSON)',
+  'persona.export': 'ライブラリを書き出す (JSON)',
+  'persona.empty': 'ペルソナがありません',
+  'persona.create': '新規作成',
+  'persona.name': '表示名',
+  'persona.baseVoice': 'ベースの声',
+  'persona.gender': '性別',
+  'persona.female': '女性',
+  'persona.male': '男性',
+  'persona.description': '人物像・話し方',
+  'persona.descriptionPlaceholder': '例: 落ち着いた中年の執事。丁寧だが少し皮肉っぽい。',
+  'persona.defaultEmotion': '既定の感情',
+  'persona.noEmotion': '指定なし',
+  'persona.selectPrompt': 'ペルソナを選択するか、新しく作成してください。',
+  'persona.deleteInUse': '「{name}」は使用中です。削除すると標準の声に戻ります。削除しますか？',
+  'persona.deleteConfirm': '「{name}」を削除しますか？',
+  'persona.defaultName': '新しいペルソナ',
+  'persona.notObject': 'オブジェクトではありません',
+  'persona.noName': 'name がありません',
+  'persona.unknownVoice': 'apiName「{voice}」は使用できる声ではありません',
+  'persona.notJson': 'JSONとして読み込めません',
+  'persona.notLibrary': 'ペルソナライブラリのファイルではありません',
+  'persona.entryIssue': '{index}件目: {message}',
+  'persona.baseVoiceId': 'id「{id}」は標準の声と重複しています',
+
+  'lexicon.title': '読み辞書',
+  'lexicon.import': 'CSVを読み込む (表記,読み,アクセント)',
+  'lexicon.export': 'CSVで書き出す',
+  'lexicon.help': '登録した表記は読みに置き換えてから音声を生成します。',
+  'lexicon.rubyHelp': '本文中では {example} の書き方で個別に読みを指定できます。',
+  'lexicon.surface': '表記',
+  'lexicon.reading': '読み (かな)',
+  'lexicon.accent': 'アクセント (任意)',
+  'lexicon.accentPlaceholder': '頭高',
+  'lexicon.sample': '試しに入力すると、読み上げられるテキストを表示します',
+  'lexicon.missingFields': '{row}行目: 表記と読みの両方が必要です',
+  'lexicon.notKana': '{row}行目: 読み「{reading}」はかなで入力してください',
+
+  'export.title': '書き出し設定',
+  'export.zipTitle': 'ZIPで書き出し ({count}件)',
+  'export.format': '形式',
+  'export.bitrate': 'ビットレート',
+  'export.bitDepth': 'ビット深度',
+  'export.mp3Resampled': '{kbps}kbpsのMP3は32kHz未満では作れないため、{rate}kHzで書き出します。',
+  'export.sampleRate': 'サンプルレート',
+  'export.originalRate': '元 ({rate}k)',
+  'export.channels': 'チャンネル',
+  'export.mono': 'モノラル',
+  'export.stereo': 'ステレオ',
+  'export.fileName': 'ファイル名',
+  'export.example': '例: {name}',
+  'export.manifest': 'manifest.json と manifest.csv (テキスト・声・感情・長さなどの一覧) を同梱します',
+  'export.submit': '書き出す',
+  'export.token.n': '連番',
+  'export.token.date': '日付',
+  'export.token.time': '時刻',
+  'export.token.voice': '声',
+  'export.token.speakers': '話者名',
+  'export.token.emotion': '感情',
+  'export.token.text': 'テキストの冒頭',
+  'export.token.mode': 'モード',
+  'export.token.id': 'ID',
+
+  'subtitles.title': '字幕タイミング',
+  'subtitles.empty': '字幕にできるテキストがありません。',
+  'subtitles.playFrom': 'ここから再生',
+
+  'takes.title': 'テイク比較 (再生中に切り替えると同じ位置から再生します)',
+  'takes.deleteUnchosenHint': '採用していないテイクを削除',
+  'takes.deleteUnchosen': '未採用を削除',
+  'takes.chosen': '採用',
+  'takes.choose': '採用する',
+  'takes.partialSaved': '{total}テイク中、完成した{count}テイクは履歴に保存しました。',
+
+  'batch.title': '一括生成',
+  'batch.closeHint': '閉じる (生成は続きます)',
+  'batch.placeholder': '1行に1セリフ、またはスプレッドシートからの貼り付け (id・テキスト・声・感情・説明・言語のタブ区切り)\nヘッダー付きCSV (id,text,voice,emotion,description,language) も貼り付けられます',
+  'batch.importCsv': 'CSVを読み込む',
+  'batch.enqueue': 'キューに追加',
+  'batch.concurrency': '同時実行数',
+  'batch.interval': 'リクエスト間隔',
+  'batch.progress': '{done}/{total} 完了',
+  'batch.progressFailed': ' · {count} 失敗',
+  'batch.progressPending': ' · {count} 待機中',
+  'batch.allDone': '{count}件すべて生成しました',
+  'batch.someFailed': '{failed}件が失敗しました ({done}件成功)',
+  'batch.stopped': '自動停止しました ({reason})。未実行の{count}件は、問題を解決してから再開してください。',
+  'batch.retryFailed': '失敗分を再試行',
+  'batch.empty': 'キューは空です',
+  'batch.defaultVoice': '既定 ({voice})',
+  'batch.saveAs': '{id} として保存',
+  'batch.remove': 'キューから外す',
+  'batch.clear': 'すべて消去',
+  'batch.clearConfirm': '未完了の項目があります。キューを空にしますか？',
+  'batch.saveZip': '完了分をZIPで保存',
+  'batch.pause': '一時停止',
+  'batch.resume': '再開',
+  'batch.start': '開始',
+  'batch.status.pending': '待機中',
+  'batch.status.running': '生成中',
+  'batch.status.done': '完了',
+  'batch.status.failed': '失敗',
+  'batch.emptyText': 'テキストが空です',
+  'batch.duplicateId': 'id「{id}」が重複しているため「{renamed}」にしました',
+  'batch.unknownVoice': '声「{voice}」が見つからないため既定の声を使います',
+  'batch.unknownLanguage': '言語「{language}」は不明なため既定の言語を使います',
+
+  'import.unknownEmotion': '感情「{emotion}」は不明なため無視しました',
+  'import.noSpeakerColumn': '話者の列が見つかりません',
+  'import.emptyLine': 'セリフが空です',
+  'import.emptySpeaker': '話者が空です',
+  'import.tooManySpeakers': '「{speaker}」: 同時に話せるのは二人までです',
+  'import.actionSkipped': 'ト書き「{text}」は読み上げないため無視しました',
+  'import.noDialogue': '「{speaker}」のセリフがありません',
+  'import.noCues': 'キャラクター名とセリフが見つかりません (日本語の名前は「@名前」と書いてください)',
+  'import.notJson': 'JSONとして読み込めません: {message}',
+  'import.noLines': '"lines" 配列が見つかりません',
+  'import.notObject': 'オブジェクトではありません',
+  'import.badText': 'text が空か文字列ではありません',
+  'import.badSpeaker': 'speaker / partner は文字列で指定してください',
+  'import.noScriptLines': 'セリフがありません',
+
+  'project.defaultName': 'プロジェクト {number}',
+  'project.title': 'プロジェクト',
+  'project.import': '読み込む (.{extension})',
+  'project.create': '新規プロジェクト',
+  'project.summary': '{mode} · 履歴 {count}件 · {date}',
+  'project.modeSingle': 'シングル',
+  'project.modeConversation': '会話',
+  'project.rename': '名前を変更',
+  'project.export': '書き出す (.{extension})',
+  'project.deleteConfirm': 'プロジェクト「{name}」と、その履歴をすべて削除しますか？',
+  'project.unreadable': 'プロジェクトファイルを読み込めません。',
+  'project.notBundle': 'Kanjo Voice のプロジェクトファイルではありません。',
+  'project.newerVersion': '新しいバージョンで作成されたプロジェクトファイルです。',
+
+  'template.title': 'プロンプトテンプレート',
+  'template.modeGroup': '{mode}モード',
+  'template.modeSingle': '単独',
+  'template.modeConversation': '会話',
+  'template.defaultSingle': '標準 (単独)',
+  'template.defaultConversation': '標準 (会話)',
+  'template.builtInNote': '標準テンプレートは編集できません。複製してから編集してください。',
+  'template.sectionHelp': '{{#名前}}…{{/名前}} で囲んだ部分は、その変数が空のとき省かれます。',
+  'template.unknownVariables': 'このモードにない変数があります: {names}',
+  'template.showPreview': '現在の入力でプレビュー',
+  'template.hidePreview': 'プレビューを閉じる',
+  'template.previewFailed': 'プレビューできません: {message}',
+  'template.previewChunk': '({count}分割のうち1つ目)',
+  'template.discardConfirm': '保存していない変更を破棄しますか？',
+  'template.deleteConfirm': 'テンプレート「{name}」を削除しますか？',
+  'template.saveFirst': '先に保存してください',
+  'template.use': '{mode}モードで使う',
+  'template.var.text': '読み上げるテキスト (分割後のひとかたまり)',
+  'template.var.emotionPrompt': '感情の指示',
+  'template.var.character': 'キャラクター設定 (ペルソナ + 説明)',
+  'template.var.description': '説明欄の内容のみ',
+  'template.var.persona': 'ペルソナの人物像のみ',
+  'template.var.voice': '声の名前',
+  'template.var.language': '読み上げる言語 (英語名)',
+  'template.var.fillers': 'その言語のフィラー例 (オフのときは空)',
+  'template.var.pronunciation': 'アクセント指示の行',
+  'template.var.delivery': '緩急・強調マークアップの指示',
+  'template.var.continuity': '分割時の「続き」指示',
+  'template.var.script': '台本 (分割後のひとかたまり)',
+  'template.var.speakerA': '話者Aの名前',
+  'template.var.speakerB': '話者Bの名前',
+  'template.var.situation': '状況説明',
+  'template.var.characters': 'ペルソナの人物像 (名前: 説明)',
+  'template.var.lineDirections': '行ごとの感情指示',
+
+  'usage.title': '使用量',
+  'usage.exportCsv': 'CSVで書き出す',
+  'usage.key': 'APIキー',
+  'usage.allKeys': 'すべてのキー',
+  'usage.currentKey': '{key} (使用中)',
+  'usage.envKey': '環境変数のキー',
+  'usage.today': '今日',
+  'usage.thisMonth': '今月',
+  'usage.budget': '上限',
+  'usage.budgetHint': '空欄は上限なし。上限はキーごとに適用されます。',
+  'usage.metric.requests': '生成回数',
+  'usage.metric.characters': '文字数',
+  'usage.metric.seconds': '音声の長さ',
+  'usage.requestCount': '{count}回',
+  'usage.periodDaily': '今日',
+  'usage.periodMonthly': '今月',
+  'usage.warning': '{period}の{metric}が上限の{percent}%に達しました ({used} / {limit})',
+  'usage.exceeded': '{period}の{metric}が上限を超えました ({used} / {limit})',
+  'usage.alertTitle': '使用量の上限に近づいています',
+  'usage.resetNote': '使用日は {zone} の {hour}時に切り替わります (次回 {time})',
+  'usage.localNote': 'このブラウザで記録した使用量です。同じキーを他のアプリや端末で使った分は含まれません。',
+  'usage.history': '日別の記録',
+  'usage.day': '日付',
+  'usage.empty': 'まだ記録がありません。',
+
+  'provider.gemini': 'Gemini TTS',
+  'provider.localTone': 'ローカル (テスト音)',
+  'provider.localHttp': 'ローカル (HTTP)',
+  'provider.noEndpoint': 'ローカルHTTPのエンドポイントが設定されていません。',
+
+  'audio.notWav': 'WAVファイルではありません。',
+  'audio.unsupportedWav': '未対応のWAV形式です ({bits}bit)。16bit PCMのみ対応しています。',
+  'audio.noWavData': 'WAVファイルに音声データがありません。',
+
+  'error.invalidKey': 'APIキーが無効です',
+  'error.invalidKeyMessage': '設定画面でAPIキーを確認してください。',
+  'error.rateLimit': 'リクエストが多すぎます',
+  'error.rateLimitMessage': '短時間のリクエスト数が上限を超えました。しばらく待ってから再試行してください。',
+  'error.quotaExceeded': '割り当てを使い切りました',
+  'error.quotaExceededMessage': 'APIキーの1日または全体の割り当てを使い切りました。リセットされるまで生成できません。使用量の画面と、Google AI Studio のプランを確認してください。',
+  'error.safety': '音声が生成されませんでした',
+  'error.safetyMessage': '安全フィルターにより応答が空になりました。表現を変えて再度お試しください。',
+  'error.network': '通信エラー',
+  'error.networkMessage': 'サーバーに接続できませんでした。ネットワーク接続を確認してください。',
+  'error.decode': '音声の変換に失敗しました',
+  'error.decodeMessage': '受信した音声データを読み込めませんでした。もう一度お試しください。',
+  'error.cancelled': 'キャンセルしました',
+  'error.cancelledMessage': '生成を中止しました。',
+  'error.unknown': 'エラーが発生しました',
+};
+
+export default {
+  id: 'ja',
+  label: '日本語',
+  intl: 'ja-JP',
+  messages,
+};
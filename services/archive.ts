@@ -0,0 +1,142 @@
+import { GeneratedAudio, MessageKey } from "../types";
+import { exportAudio, exportExtension, ExportOptions } from "./audioExport";
+import { formatCsv } from "./csv";
+import { emotionLabel } from "./i18n";
+import { stripMarkup } from "./markup";
+import { stripRuby } from "./pronunciation";
+import { createZip, ZipEntry } from "./zip";
+
+// File naming for downloads and ZIP archives of history items, plus the archive manifest
+
+export const DEFAULT_FILENAME_TEMPLATE = '{date}-{time}_{speakers}_{text}';
+
+export const FILENAME_TOKENS: { token: string; label: MessageKey }[] = [
+  { token: '{n}', label: 'export.token.n' },
+  { token: '{date}', label: 'export.token.date' },
+  { token: '{time}', label: 'export.token.time' },
+  { token: '{voice}', label: 'export.token.voice' },
+  { token: '{speakers}', label: 'export.token.speakers' },
+  { token: '{emotion}', label: 'export.token.emotion' },
+  { token: '{text}', label: 'export.token.text' },
+  { token: '{mode}', label: 'export.token.mode' },
+  { token: '{id}', label: 'export.token.id' },
+];
+
+const TEXT_PREVIEW_CHARS = 20;
+const MAX_NAME_CHARS = 80;
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// Voices in use: the single voice, or the cast's voices (legacy entries: speaker1/2)
+export const itemVoices = (item: GeneratedAudio): string[] =>
+  item.mode === 'single'
+    ? [item.voiceName].filter((v): v is string => !!v)
+    : item.cast?.map(m => m.voiceName) || [item.speaker1, item.speaker2].filter((v): v is string => !!v);
+
+export const itemSpeakers = (item: GeneratedAudio): string[] =>
+  item.mode === 'single'
+    ? itemVoices(item)
+    : item.cast?.map(m => m.name) || [item.speaker1Name, item.speaker2Name].filter((v): v is string => !!v);
+
+// Plain text as heard: no markup, ruby readings, emotion tags or (in scripts) speaker prefixes
+export const plainText = (text: string, script = false) => {
+  const spoken = stripMarkup(stripRuby(text)).replace(/\((?:[A-Za-z]+)\)\s*/g, '');
+  return (script ? spoken.replace(/^[^:：\n]{1,40}[:：]\s*/gm, '') : spoken).replace(/\s+/g, ' ').trim();
+};
+
+// Characters that no common file system accepts become '_'; runs of separators collapse
+const sanitize = (name: string) =>
+  name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').replace(/\s+/g, ' ').replace(/_{2,}/g, '_').replace(/^[\s._]+|[\s._]+$/g, '');
+
+// `index` is the 0-based position in the exported selection
+export const formatFileName = (item: GeneratedAudio, template: string, index = 0): string => {
+  const at = new Date(item.timestamp);
+  const values: Record<string, string> = {
+    n: pad(index + 1, 3),
+    date: `${at.getFullYear()}${pad(at.getMonth() + 1)}${pad(at.getDate())}`,
+    time: `${pad(at.getHours())}${pad(at.getMinutes())}${pad(at.getSeconds())}`,
+    voice: itemVoices(item).join('-'),
+    speakers: itemSpeakers(item).join('-'),
+    emotion: item.emotion ? emotionLabel(item.emotion) : '',
+    text: Array.from(plainText(item.text, item.mode === 'conversation')).slice(0, TEXT_PREVIEW_CHARS).join(''),
+    mode: item.mode,
+    id: item.label || item.id,
+  };
+  const name = sanitize(template.replace(/\{(\w+)\}/g, (match, key) => key in values ? values[key] : match));
+  return Array.from(name).slice(0, MAX_NAME_CHARS).join('') || `kanjo-voice-${item.id}`;
+};
+
+// Names within one archive must differ; repeats get -2, -3...
+export const uniqueFileNames = (names: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return names.map(name => {
+    const key = name.toLowerCase();
+    const count = (seen.get(key) || 0) + 1;
+    seen.set(key, count);
+    return count === 1 ? name : `${name}-${count}`;
+  });
+};
+
+export interface ManifestEntry {
+  file: string;
+  text: string;
+  mode: GeneratedAudio['mode'];
+  voices: string[];
+  speakers: string[];
+  emotion?: string;
+  context?: string;
+  duration: number; // Seconds
+  timestamp: string; // ISO 8601
+  label?: string;
+  postProcess?: string;
+  take?: number;
+}
+
+export const manifestEntry = (item: GeneratedAudio, file: string): ManifestEntry => ({
+  file,
+  text: item.text,
+  mode: item.mode,
+  voices: itemVoices(item),
+  speakers: itemSpeakers(item),
+  emotion: item.emotion,
+  context: item.contextDescription || undefined,
+  duration: Math.round(item.audioBuffer.duration * 1000) / 1000,
+  timestamp: new Date(item.timestamp).toISOString(),
+  label: item.label,
+  postProcess: item.postProcess,
+  take: item.take,
+});
+
+export const manifestCsv = (entries: ManifestEntry[]): string =>
+  formatCsv(
+    ['file', 'text', 'mode', 'voices', 'speakers', 'emotion', 'context', 'duration', 'timestamp'],
+    entries.map(e => [
+      e.file, e.text, e.mode, e.voices.join(' / '), e.speakers.join(' / '),
+      e.emotion || '', e.context || '', e.duration.toFixed(3), e.timestamp,
+    ]),
+  );
+
+// Encodes every item with the export options and packs them with manifest.json and manifest.csv
+export const exportArchive = async (
+  items: GeneratedAudio[],
+  options: ExportOptions,
+  template: string,
+): Promise<Blob> => {
+  const extension = exportExtension(options.format);
+  const names = uniqueFileNames(items.map((item, i) => formatFileName(item, template, i)));
+  const entries: ZipEntry[] = [];
+  const manifest: ManifestEntry[] = [];
+
+  for (let i = 0; i < items.length; i++) {
+    const file = `${names[i]}.${extension}`;
+    const blob = await exportAudio(items[i].audioBuffer, options);
+    entries.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()), modified: new Date(items[i].timestamp) });
+    manifest.push(manifestEntry(items[i], file));
+  }
+
+  entries.push(
+    { name: 'manifest.json', data: JSON.stringify({ exportedAt: new Date().toISOString(), files: manifest }, null, 2) },
+    { name: 'manifest.csv', data: manifestCsv(manifest) },
+  );
+  return createZip(entries);
+};
@@ -0,0 +1,97 @@
+import { Mp3Encoder } from "@breezystack/lamejs";
+import { bufferToWav } from "./audioUtils";
+import { encodeFlac } from "./flacEncoder";
+
+export type ExportFormat = 'wav' | 'mp3' | 'flac';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  bitDepth: 16 | 24 | 32; // 32 = float, WAV only; FLAC caps at 24, MP3 ignores it
+  sampleRate: number | 'original';
+  channels: 1 | 2;
+  mp3Bitrate: number; // kbps
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'wav',
+  bitDepth: 16,
+  sampleRate: 'original',
+  channels: 1,
+  mp3Bitrate: 192,
+};
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { id: 'wav', label: 'WAV', extension: 'wav', mime: 'audio/wav' },
+  { id: 'mp3', label: 'MP3', extension: 'mp3', mime: 'audio/mpeg' },
+  { id: 'flac', label: 'FLAC', extension: 'flac', mime: 'audio/flac' },
+];
+
+export const exportExtension = (format: ExportFormat) =>
+  EXPORT_FORMATS.find(f => f.id === format)?.extension || 'wav';
+
+// Resample and up/down-mix through an OfflineAudioContext, which uses the browser's band-limited resampler
+export const conformBuffer = async (buffer: AudioBuffer, sampleRate: number, channels: number): Promise<AudioBuffer> => {
+  if (buffer.sampleRate === sampleRate && buffer.numberOfChannels === channels) return buffer;
+
+  const length = Math.ceil(buffer.duration * sampleRate);
+  const offline = new OfflineAudioContext(channels, length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  return offline.startRendering();
+};
+
+const toIntChannels = (buffer: AudioBuffer, bits: number): Int32Array[] => {
+  const max = 2 ** (bits - 1);
+  return Array.from({ length: buffer.numberOfChannels }, (_, c) => {
+    const data = buffer.getChannelData(c);
+    const out = new Int32Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      const s = Math.max(-1, Math.min(1, data[i]));
+      out[i] = Math.round(s < 0 ? s * max : s * (max - 1));
+    }
+    return out;
+  });
+};
+
+// Below 32 kHz MP3 is MPEG-2, which tops out at 160 kbps (the encoder clamps silently).
+// Higher bitrates are written at 48 kHz, an exact multiple of the 24 kHz engine output.
+const MPEG2_MAX_KBPS = 160;
+
+export const mp3SampleRate = (sampleRate: number, kbps: number) =>
+  sampleRate < 32000 && kbps > MPEG2_MAX_KBPS ? 48000 : sampleRate;
+
+const encodeMp3 = (buffer: AudioBuffer, kbps: number): Blob => {
+  const [left, right] = toIntChannels(buffer, 16).map(c => Int16Array.from(c));
+  const encoder = new Mp3Encoder(buffer.numberOfChannels, buffer.sampleRate, kbps);
+  const parts: Uint8Array[] = [];
+  const frame = 1152 * 8;
+
+  for (let i = 0; i < left.length; i += frame) {
+    const chunk = encoder.encodeBuffer(left.subarray(i, i + frame), right?.subarray(i, i + frame));
+    if (chunk.length > 0) parts.push(chunk.slice());
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(tail.slice());
+
+  return new Blob(parts, { type: 'audio/mpeg' });
+};
+
+export const exportAudio = async (buffer: AudioBuffer, options: ExportOptions): Promise<Blob> => {
+  const requested = options.sampleRate === 'original' ? buffer.sampleRate : options.sampleRate;
+  const sampleRate = options.format === 'mp3' ? mp3SampleRate(requested, options.mp3Bitrate) : requested;
+  const conformed = await conformBuffer(buffer, sampleRate, options.channels);
+
+  switch (options.format) {
+    case 'mp3':
+      return encodeMp3(conformed, options.mp3Bitrate);
+    case 'flac': {
+      const bits = Math.min(24, options.bitDepth);
+      const data = encodeFlac(toIntChannels(conformed, bits), conformed.sampleRate, bits);
+      return new Blob([data], { type: 'audio/flac' });
+    }
+    default:
+      return bufferToWav(conformed, options.bitDepth);
+  }
+};
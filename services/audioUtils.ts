@@ -1,3 +1,5 @@
+import { t } from "./i18n";
+
 export function decodeBase64(base64: string): Uint8Array {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -10,7 +12,7 @@ export function decodeBase64(base64: string): Uint8Array {
 
 export async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number = 24000,
   numChannels: number = 1,
 ): Promise<AudioBuffer> {
@@ -50,10 +52,12 @@ export function playBuffer(ctx: AudioContext, buffer: AudioBuffer): AudioBufferS
   return source;
 }
 
-// Convert AudioBuffer to WAV Blob
-export function bufferToWav(buffer: AudioBuffer): Blob {
+// Convert AudioBuffer to WAV Blob (16/24-bit integer PCM or 32-bit float)
+export function bufferToWav(buffer: AudioBuffer, bitDepth: 16 | 24 | 32 = 16): Blob {
   const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2 + 44;
+  const bytesPerSample = bitDepth / 8;
+  const dataLength = buffer.length * numOfChan * bytesPerSample;
+  const length = dataLength + 44;
   const bufferArr = new ArrayBuffer(length);
   const view = new DataView(bufferArr);
   const channels = [];
@@ -71,18 +75,18 @@ export function bufferToWav(buffer: AudioBuffer): Blob {
 
   // write WAVE header
   writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + buffer.length * numOfChan * 2, true);
+  view.setUint32(4, 36 + dataLength, true);
   writeString(view, 8, 'WAVE');
   writeString(view, 12, 'fmt ');
   view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
+  view.setUint16(20, bitDepth === 32 ? 3 : 1, true); // 3 = IEEE float, 1 = PCM
   view.setUint16(22, numOfChan, true);
   view.setUint32(24, buffer.sampleRate, true);
-  view.setUint32(28, buffer.sampleRate * 2 * numOfChan, true);
-  view.setUint16(32, numOfChan * 2, true);
-  view.setUint16(34, 16, true);
+  view.setUint32(28, buffer.sampleRate * bytesPerSample * numOfChan, true);
+  view.setUint16(32, numOfChan * bytesPerSample, true);
+  view.setUint16(34, bitDepth, true);
   writeString(view, 36, 'data');
-  view.setUint32(40, buffer.length * numOfChan * 2, true);
+  view.setUint32(40, dataLength, true);
 
   // write interleaved data
   for (i = 0; i < buffer.numberOfChannels; i++)
@@ -93,13 +97,179 @@ export function bufferToWav(buffer: AudioBuffer): Blob {
     for (i = 0; i < numOfChan; i++) {
       // Clamp the sample to [-1, 1]
       sample = Math.max(-1, Math.min(1, channels[i][pos]));
-      // Convert to 16-bit PCM
-      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0;
-      view.setInt16(offset, sample, true);
-      offset += 2;
+      if (bitDepth === 32) {
+        view.setFloat32(offset, sample, true);
+      } else if (bitDepth === 24) {
+        sample = Math.round(sample < 0 ? sample * 8388608 : sample * 8388607);
+        view.setUint8(offset, sample & 0xff);
+        view.setUint8(offset + 1, (sample >> 8) & 0xff);
+        view.setUint8(offset + 2, (sample >> 16) & 0xff);
+      } else {
+        // Convert to 16-bit PCM
+        sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0;
+        view.setInt16(offset, sample, true);
+      }
+      offset += bytesPerSample;
     }
     pos++;
   }
 
   return new Blob([view], { type: 'audio/wav' });
-}
\ No newline at end of file
+}
+
+// Find the first/last sample above threshold so chunk edges can be trimmed to a consistent gap
+function findAudibleRange(buffer: AudioBuffer, threshold: number): [number, number] {
+  let start = buffer.length;
+  let end = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    let s = 0;
+    while (s < data.length && Math.abs(data[s]) < threshold) s++;
+    let e = data.length;
+    while (e > s && Math.abs(data[e - 1]) < threshold) e--;
+    start = Math.min(start, s);
+    end = Math.max(end, e);
+  }
+  return start < end ? [start, end] : [0, buffer.length];
+}
+
+export interface JoinOptions {
+  gapSeconds?: number | number[]; // Silence inserted between buffers; an array gives each join its own gap
+  crossfadeSeconds?: number; // Fade length at each edge (overlap length when gap is 0)
+  trimThreshold?: number; // Amplitude below which edge samples count as silence
+}
+
+// Concatenate buffers into one, trimming edge silence and applying short fades at each join
+export function joinBuffers(ctx: BaseAudioContext, buffers: AudioBuffer[], options: JoinOptions = {}): AudioBuffer {
+  if (buffers.length === 1) return buffers[0];
+
+  const { gapSeconds = 0.4, crossfadeSeconds = 0.015, trimThreshold = 0.005 } = options;
+  const sampleRate = buffers[0].sampleRate;
+  const numChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const fade = Math.round(crossfadeSeconds * sampleRate);
+  // advance[i] = samples between the end of buffer i - 1 and the start of buffer i.
+  // With no gap the pieces overlap by the fade length so the crossfade is audible as one.
+  const advance = buffers.map((_, i) => {
+    if (i === 0) return 0;
+    const gap = Math.round((Array.isArray(gapSeconds) ? gapSeconds[i - 1] ?? 0 : gapSeconds) * sampleRate);
+    return gap > 0 ? gap : -fade;
+  });
+
+  const ranges = buffers.map(b => findAudibleRange(b, trimThreshold));
+  const total = ranges.reduce((sum, [s, e], i) => sum + (e - s) + advance[i], 0);
+  const out = ctx.createBuffer(numChannels, Math.max(1, total), sampleRate);
+
+  let writePos = 0;
+  buffers.forEach((buffer, i) => {
+    const [start, end] = ranges[i];
+    const length = end - start;
+    writePos += advance[i];
+
+    for (let c = 0; c < numChannels; c++) {
+      const src = buffer.getChannelData(Math.min(c, buffer.numberOfChannels - 1));
+      const dst = out.getChannelData(c);
+      for (let n = 0; n < length; n++) {
+        let gain = 1;
+        if (i > 0 && n < fade) gain *= n / fade;
+        if (i < buffers.length - 1 && n >= length - fade) gain *= (length - n) / fade;
+        dst[writePos + n] += src[start + n] * gain;
+      }
+    }
+    writePos += length;
+  });
+
+  return out;
+}
+
+// Add exact silence before and/or after a buffer
+export function padBuffer(ctx: BaseAudioContext, buffer: AudioBuffer, beforeSeconds: number, afterSeconds = 0): AudioBuffer {
+  const before = Math.round(beforeSeconds * buffer.sampleRate);
+  const after = Math.round(afterSeconds * buffer.sampleRate);
+  if (before <= 0 && after <= 0) return buffer;
+  const out = ctx.createBuffer(buffer.numberOfChannels, buffer.length + before + after, buffer.sampleRate);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    out.getChannelData(c).set(buffer.getChannelData(c), before);
+  }
+  return out;
+}
+
+// Read a 16-bit PCM WAV file into raw little-endian PCM bytes
+export function parseWav(data: ArrayBuffer): { pcm: Uint8Array; sampleRate: number; numChannels: number } {
+  const view = new DataView(data);
+  const tag = (offset: number) => String.fromCharCode(...new Uint8Array(data, offset, 4));
+
+  if (data.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error(t('audio.notWav'));
+  }
+
+  let sampleRate = 0;
+  let numChannels = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      numChannels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+    } else if (id === 'data') {
+      if (bitsPerSample !== 16) {
+        throw new Error(t('audio.unsupportedWav', { bits: bitsPerSample }));
+      }
+      const length = Math.min(size, data.byteLength - body);
+      return { pcm: new Uint8Array(data, body, length), sampleRate, numChannels };
+    }
+    // Chunks are padded to an even number of bytes
+    offset = body + size + (size % 2);
+  }
+  throw new Error(t('audio.noWavData'));
+}
+
+export interface WaveformEnvelope {
+  peak: Float32Array; // Max absolute amplitude per bin
+  rms: Float32Array; // Root-mean-square amplitude per bin
+}
+
+// Envelopes are pure functions of the buffer, so cache them per buffer and resolution
+const envelopeCache = new WeakMap<AudioBuffer, Map<number, WaveformEnvelope>>();
+
+// Downsample a buffer to `bins` peak/RMS pairs (all channels mixed) for drawing
+export function computeEnvelope(buffer: AudioBuffer, bins: number): WaveformEnvelope {
+  bins = Math.max(1, Math.floor(bins));
+  let byBins = envelopeCache.get(buffer);
+  const cached = byBins?.get(bins);
+  if (cached) return cached;
+
+  const peak = new Float32Array(bins);
+  const rms = new Float32Array(bins);
+  const samplesPerBin = buffer.length / bins;
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  for (let b = 0; b < bins; b++) {
+    const start = Math.floor(b * samplesPerBin);
+    const end = Math.max(start + 1, Math.floor((b + 1) * samplesPerBin));
+    let max = 0;
+    let sumSquares = 0;
+    let count = 0;
+    for (let i = start; i < end && i < buffer.length; i++) {
+      let sample = 0;
+      for (const data of channels) sample += data[i];
+      sample /= channels.length;
+      max = Math.max(max, Math.abs(sample));
+      sumSquares += sample * sample;
+      count++;
+    }
+    peak[b] = max;
+    rms[b] = count ? Math.sqrt(sumSquares / count) : 0;
+  }
+
+  const envelope = { peak, rms };
+  if (!byBins) {
+    byBins = new Map();
+    envelopeCache.set(buffer, byBins);
+  }
+  byBins.set(bins, envelope);
+  return envelope;
+}
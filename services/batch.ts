@@ -0,0 +1,266 @@
+import { BatchItem, BatchSettings, GeneratedAudio, VoiceOption } from "../types";
+import { SPEECH_LANGUAGES } from "../constants";
+import { parseCsvRows } from "./csv";
+import { t, translations, voiceLabels } from "./i18n";
+import { parseEmotion } from "./scriptFormat";
+import { ScriptIssue } from "./scriptInterchange";
+import { classifyError, describeError } from "./speechErrors";
+
+// Batch generation of many short single-voice utterances (game voice lines and the like).
+// Input is a CSV (id,text,voice,emotion,description,language) or pasted lines; a queue then runs them
+// with limited concurrency and a minimum interval between request starts.
+
+const HEADER_ALIASES = {
+  id: ['id', 'ID', 'ファイル名', '名前'],
+  text: ['text', 'テキスト', '本文', 'セリフ', '台詞'],
+  voice: ['voice', '声', 'ボイス', 'ペルソナ'],
+  emotion: ['emotion', '感情'],
+  description: ['description', '説明', '人物像', '話し方', '指示'],
+  language: ['language', 'lang', '言語'],
+};
+const COLUMN_ORDER = ['id', 'text', 'voice', 'emotion', 'description', 'language'] as const;
+type Column = typeof COLUMN_ORDER[number];
+
+export interface BatchImportResult {
+  items: BatchItem[];
+  issues: ScriptIssue[];
+}
+
+// Voices can be referred to by id, display name, label in any locale or API voice name
+export const resolveVoice = (ref: string, voices: VoiceOption[]): VoiceOption | undefined => {
+  const key = ref.trim().toLowerCase();
+  if (!key) return undefined;
+  return voices.find(v => v.id.toLowerCase() === key)
+    || voices.find(v => v.name.toLowerCase() === key || voiceLabels(v).some(label => label.toLowerCase() === key))
+    || voices.find(v => v.apiName.toLowerCase() === key);
+};
+
+// Languages can be given as code (en), label in any locale (英語) or English name (English)
+const resolveLanguage = (ref: string) => {
+  const key = ref.trim().toLowerCase();
+  return SPEECH_LANGUAGES.find(l => l.id === key || translations(l.label).some(label => label.toLowerCase() === key) || l.name.toLowerCase() === key);
+};
+
+// Ids become file names, so drop characters no file system accepts
+const safeId = (id: string) => id.trim().replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_');
+
+const uniqueId = (base: string, taken: Set<string>) => {
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+};
+
+const buildItems = (
+  rows: { line: number; cells: Partial<Record<Column, string>> }[],
+  voices: VoiceOption[],
+  existing: BatchItem[],
+): BatchImportResult => {
+  const taken = new Set(existing.map(i => i.id));
+  const issues: ScriptIssue[] = [];
+  const items: BatchItem[] = [];
+
+  for (const { line, cells } of rows) {
+    const text = cells.text?.trim() || '';
+    if (!text) {
+      issues.push({ row: line, message: t('batch.emptyText') });
+      continue;
+    }
+    const base = safeId(cells.id || '') || `line-${String(existing.length + items.length + 1).padStart(3, '0')}`;
+    const id = uniqueId(base, taken);
+    if (cells.id && id !== base) issues.push({ row: line, message: t('batch.duplicateId', { id: base, renamed: id }) });
+
+    const item: BatchItem = { id, text, status: 'pending', attempts: 0 };
+    const voiceRef = cells.voice?.trim();
+    if (voiceRef) {
+      const voice = resolveVoice(voiceRef, voices);
+      if (voice) item.voiceId = voice.id;
+      else issues.push({ row: line, message: t('batch.unknownVoice', { voice: voiceRef }) });
+    }
+    const emotionRef = cells.emotion?.trim();
+    if (emotionRef) {
+      const emotion = parseEmotion(emotionRef);
+      if (emotion) item.emotion = emotion;
+      else issues.push({ row: line, message: t('import.unknownEmotion', { emotion: emotionRef }) });
+    }
+    if (cells.description?.trim()) item.description = cells.description.trim();
+    const languageRef = cells.language?.trim();
+    if (languageRef) {
+      const language = resolveLanguage(languageRef);
+      if (language) item.language = language.id;
+      else issues.push({ row: line, message: t('batch.unknownLanguage', { language: languageRef }) });
+    }
+    items.push(item);
+  }
+  return { items, issues };
+};
+
+const toColumns = (cells: string[], order: readonly Column[]) =>
+  Object.fromEntries(order.map((column, i) => [column, cells[i]])) as Partial<Record<Column, string>>;
+
+export const importBatchCsv = (text: string, voices: VoiceOption[], existing: BatchItem[] = []): BatchImportResult => {
+  const rows = parseCsvRows(text);
+  let order: readonly Column[] = COLUMN_ORDER;
+  const header = rows[0]?.cells.map(c => c.trim().toLowerCase());
+  if (header && HEADER_ALIASES.text.some(alias => header.includes(alias.toLowerCase()))) {
+    // Map each header cell to a known column; unknown columns are skipped
+    order = header.map(cell => COLUMN_ORDER.find(c => HEADER_ALIASES[c].some(a => a.toLowerCase() === cell))) as Column[];
+    rows.shift();
+  }
+  return buildItems(rows.map(row => ({ line: row.line, cells: toColumns(row.cells, order) })), voices, existing);
+};
+
+// Pasted entries: a CSV with a header, tab-separated columns copied from a spreadsheet
+// (id, text, voice, emotion, description, language) or simply one utterance per line
+export const parseBatchText = (text: string, voices: VoiceOption[], existing: BatchItem[] = []): BatchImportResult => {
+  const lines = text.split(/\r?\n/);
+  const first = lines.find(l => l.trim())?.toLowerCase() || '';
+  if (first.includes(',') && HEADER_ALIASES.text.some(alias => first.split(',').map(c => c.trim()).includes(alias.toLowerCase()))) {
+    return importBatchCsv(text, voices, existing);
+  }
+  const rows = lines.flatMap((line, i) => {
+    if (!line.trim()) return [];
+    const cells = line.includes('\t') ? toColumns(line.split('\t'), COLUMN_ORDER) : { text: line };
+    return [{ line: i + 1, cells }];
+  });
+  return buildItems(rows, voices, existing);
+};
+
+// --- Queue ---
+
+export interface BatchQueueOptions extends BatchSettings {
+  run: (item: BatchItem, signal: AbortSignal, onRetry: (attempt: number, delayMs: number) => void) => Promise<GeneratedAudio>;
+  onChange: (items: BatchItem[]) => void;
+  onIdle: (items: BatchItem[]) => void; // Nothing left to run (finished or only failures left)
+  onStopped: (items: BatchItem[], reason: string) => void; // Paused itself (rejected key, spent quota) and running items have finished
+}
+
+export interface BatchQueue {
+  add: (items: BatchItem[]) => void;
+  remove: (id: string) => void;
+  clear: () => void; // Stops everything and empties the queue
+  start: () => void; // Also resumes after pause
+  pause: () => void; // Running items finish; no new ones start. Also happens on a rejected API key
+  retry: (ids: string[]) => void;
+  configure: (settings: BatchSettings) => void;
+  isPaused: () => boolean;
+}
+
+const failureMessage = (error: unknown) => {
+  const { title, message } = describeError(error);
+  return `${title}: ${message}`;
+};
+
+export const createBatchQueue = (options: BatchQueueOptions): BatchQueue => {
+  // Same bounds as configure(): a concurrency of 0 would never start anything
+  let concurrency = Math.max(1, options.concurrency);
+  let intervalMs = Math.max(0, options.intervalMs);
+  let items: BatchItem[] = [];
+  let paused = true;
+  let lastStart = 0;
+  let stopReason: string | null = null; // Why the queue paused itself, until onStopped reports it
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const controllers = new Map<string, AbortController>();
+
+  const update = (id: string, patch: Partial<BatchItem>) => {
+    items = items.map(i => i.id === id ? { ...i, ...patch } : i);
+    options.onChange(items);
+  };
+
+  const launch = (item: BatchItem) => {
+    const controller = new AbortController();
+    controllers.set(item.id, controller);
+    lastStart = Date.now();
+    update(item.id, { status: 'running', attempts: item.attempts + 1, error: undefined, retrying: undefined });
+
+    const onRetry = (attempt: number, delayMs: number) => {
+      if (items.some(i => i.id === item.id && i.status === 'running')) update(item.id, { retrying: { attempt, delayMs } });
+    };
+    options.run(item, controller.signal, onRetry)
+      .then(result => update(item.id, { status: 'done', result, retrying: undefined }))
+      .catch(error => {
+        const { kind } = classifyError(error);
+        // A rejected key or spent quota fails every later item the same way, so stop starting new ones
+        if (kind === 'invalidKey' || kind === 'quotaExceeded') {
+          paused = true;
+          stopReason = stopReason || failureMessage(error);
+        }
+        // Cancelled items go back to the queue; everything else waits for a manual retry
+        if (kind === 'cancelled') update(item.id, { status: 'pending', retrying: undefined });
+        else update(item.id, { status: 'failed', error: failureMessage(error), retrying: undefined });
+      })
+      .finally(() => {
+        controllers.delete(item.id);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!paused) {
+      while (controllers.size < concurrency) {
+        const next = items.find(i => i.status === 'pending');
+        if (!next) break;
+        const wait = lastStart + intervalMs - Date.now();
+        if (wait > 0) {
+          timer = setTimeout(pump, wait);
+          return;
+        }
+        launch(next);
+      }
+    }
+    if (!paused && controllers.size === 0 && !items.some(i => i.status === 'pending')) {
+      paused = true;
+      options.onIdle(items);
+    }
+    if (paused && stopReason && controllers.size === 0) {
+      const reason = stopReason;
+      stopReason = null;
+      options.onStopped(items, reason);
+    }
+  };
+
+  return {
+    add: (added) => {
+      items = [...items, ...added];
+      options.onChange(items);
+      pump();
+    },
+    remove: (id) => {
+      controllers.get(id)?.abort();
+      items = items.filter(i => i.id !== id);
+      options.onChange(items);
+    },
+    clear: () => {
+      paused = true;
+      stopReason = null;
+      controllers.forEach(c => c.abort());
+      items = [];
+      options.onChange(items);
+    },
+    start: () => {
+      paused = false;
+      stopReason = null;
+      pump();
+    },
+    pause: () => {
+      paused = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+    retry: (ids) => {
+      items = items.map(i => ids.includes(i.id) && i.status === 'failed' ? { ...i, status: 'pending' as const, error: undefined } : i);
+      options.onChange(items);
+      pump();
+    },
+    configure: (next) => {
+      concurrency = Math.max(1, next.concurrency);
+      intervalMs = Math.max(0, next.intervalMs);
+      pump();
+    },
+    isPaused: () => paused,
+  };
+};
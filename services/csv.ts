@@ -0,0 +1,58 @@
+// Minimal RFC 4180 CSV reading/writing shared by the spreadsheet importers and exporters
+
+export interface CsvRow {
+  line: number; // 1-based source line the row starts on
+  cells: string[];
+}
+
+// Blank rows are dropped; a leading BOM is ignored
+export const parseCsvRows = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+
+  text = text.replace(/^\ufeff/, '');
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      rows.push({ line: rowStart, cells });
+      cells = [];
+      cell = '';
+      line++;
+      rowStart = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || cells.length > 0) {
+    cells.push(cell);
+    rows.push({ line: rowStart, cells });
+  }
+  return rows.filter(row => row.cells.some(c => c.trim()));
+};
+
+export const csvCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// BOM so spreadsheet apps open Japanese text as UTF-8
+export const formatCsv = (header: string[], rows: string[][]): string =>
+  '\ufeff' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,55 @@
+import { Emotion, EmotionMix } from "../types";
+import { EMOTION_PROMPTS, EMOTION_QUALITIES } from "../constants";
+import { emotionLabel, formatNumber, t } from "./i18n";
+
+export const mixFromEmotion = (emotion: Emotion, intensity = 1): EmotionMix => ({
+  components: [{ emotion, weight: 1 }],
+  intensity,
+});
+
+export const DEFAULT_EMOTION_MIX = mixFromEmotion(Emotion.NEUTRAL);
+
+// Drop empty weights, scale the rest to sum to 1 and order them strongest first
+export const normalizeMix = (mix: EmotionMix): EmotionMix => {
+  const components = mix.components.filter(c => c.weight > 0);
+  const total = components.reduce((sum, c) => sum + c.weight, 0);
+  if (total === 0) return { ...DEFAULT_EMOTION_MIX, intensity: mix.intensity };
+  return {
+    components: components
+      .map(c => ({ emotion: c.emotion, weight: c.weight / total }))
+      .sort((a, b) => b.weight - a.weight),
+    intensity: Math.max(0, Math.min(1, mix.intensity)),
+  };
+};
+
+export const dominantEmotion = (mix: EmotionMix): Emotion => normalizeMix(mix).components[0].emotion;
+
+const percent = (weight: number) => `${Math.round(weight * 100)}%`;
+
+const intensityWord = (intensity: number) => {
+  if (intensity < 0.3) return 'very subtly, just a hint';
+  if (intensity < 0.6) return 'moderately';
+  if (intensity < 0.85) return 'clearly';
+  return 'intensely, at full strength';
+};
+
+// Base-tone instruction for the prompt. A single emotion at full intensity keeps the original fixed sentence.
+export const describeEmotionMix = (mix: EmotionMix): string => {
+  const { components, intensity } = normalizeMix(mix);
+  if (components.length === 1 && intensity >= 1) return EMOTION_PROMPTS[components[0].emotion];
+
+  const [lead, ...rest] = components;
+  const blend = rest.length > 0
+    ? ` Blend: mostly ${EMOTION_QUALITIES[lead.emotion]} (${percent(lead.weight)}), ${rest.map(c => `with ${EMOTION_QUALITIES[c.emotion]} (${percent(c.weight)})`).join(', ')}. Let the main emotion lead and the others color it.`
+    : ` Emotion: ${EMOTION_QUALITIES[lead.emotion]}.`;
+  return `Say it with an emotional intensity of ${intensity.toFixed(2)} out of 1 (${intensityWord(intensity)}).${blend}`;
+};
+
+// Short summary for history and buttons, e.g. "悲しみ70% + 恐怖30% · 強さ0.8"
+export const formatEmotionMix = (mix: EmotionMix): string => {
+  const { components, intensity } = normalizeMix(mix);
+  const parts = components.length === 1
+    ? emotionLabel(components[0].emotion)
+    : components.map(c => `${emotionLabel(c.emotion)}${percent(c.weight)}`).join(' + ');
+  return intensity >= 1 ? parts : t('emotionMix.summaryIntensity', { emotions: parts, intensity: formatNumber(intensity, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) });
+};
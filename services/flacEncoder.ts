@@ -0,0 +1,206 @@
+// Minimal FLAC encoder: fixed blocksize, independent channels, FIXED predictors (order 0-4)
+// with a single Rice partition per subframe, falling back to VERBATIM when prediction doesn't help.
+
+const BLOCK_SIZE = 4096;
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  private push(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  // Write the low `bits` bits of value (two's complement for negatives), MSB first
+  write(value: number, bits: number) {
+    while (bits > 24) {
+      const high = bits - 24;
+      this.write(Math.floor(value / 2 ** 24), high);
+      value = value % 2 ** 24;
+      bits = 24;
+    }
+    if (bits === 0) return;
+    this.acc = (this.acc << bits) | (value & ((1 << bits) - 1));
+    this.accBits += bits;
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.push((this.acc >>> this.accBits) & 0xff);
+    }
+    this.acc &= (1 << this.accBits) - 1;
+  }
+
+  writeUnary(zeros: number) {
+    while (zeros > 24) {
+      this.write(0, 24);
+      zeros -= 24;
+    }
+    this.write(1, zeros + 1);
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+
+  get byteLength() {
+    return this.length;
+  }
+
+  view(start: number, end: number) {
+    return this.bytes.subarray(start, end);
+  }
+
+  toUint8Array() {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let c8 = i;
+  let c16 = i << 8;
+  for (let b = 0; b < 8; b++) {
+    c8 = c8 & 0x80 ? ((c8 << 1) ^ 0x07) & 0xff : (c8 << 1) & 0xff;
+    c16 = c16 & 0x8000 ? ((c16 << 1) ^ 0x8005) & 0xffff : (c16 << 1) & 0xffff;
+  }
+  CRC8_TABLE[i] = c8;
+  CRC16_TABLE[i] = c16;
+}
+
+const crc8 = (data: Uint8Array) => data.reduce((crc, byte) => CRC8_TABLE[crc ^ byte], 0);
+const crc16 = (data: Uint8Array) =>
+  data.reduce((crc, byte) => ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte], 0);
+
+// Frame numbers use the same variable-length scheme as UTF-8
+function writeUtf8Number(w: BitWriter, n: number) {
+  if (n < 0x80) {
+    w.write(n, 8);
+    return;
+  }
+  // `extra` continuation bytes carry 6 bits each; the lead byte carries 6 - extra more
+  let extra = 1;
+  while (n >= 2 ** (6 * extra + (6 - extra))) extra++;
+  const lead = (0xff << (7 - extra)) & 0xff;
+  w.write(lead | Math.floor(n / 2 ** (6 * extra)), 8);
+  for (let i = extra - 1; i >= 0; i--) {
+    w.write(0x80 | (Math.floor(n / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+// Residuals of the FLAC FIXED predictor of the given order
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  const out = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = s[i - 1]; break;
+      case 2: prediction = 2 * s[i - 1] - s[i - 2]; break;
+      case 3: prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3]; break;
+      case 4: prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4]; break;
+    }
+    out[i - order] = s[i] - prediction;
+  }
+  return out;
+}
+
+const zigzag = (r: number) => (r >= 0 ? r * 2 : -r * 2 - 1);
+
+// Pick the Rice parameter for a residual block and return it with the resulting size in bits
+function riceCost(residual: Int32Array): { k: number; bits: number } {
+  let sum = 0;
+  for (let i = 0; i < residual.length; i++) sum += zigzag(residual[i]);
+  const mean = residual.length ? sum / residual.length : 0;
+  const k = Math.min(14, Math.max(0, Math.floor(Math.log2(mean + 1))));
+
+  let bits = 0;
+  for (let i = 0; i < residual.length; i++) bits += Math.floor(zigzag(residual[i]) / 2 ** k) + 1 + k;
+  return { k, bits };
+}
+
+function writeSubframe(w: BitWriter, samples: Int32Array, bps: number) {
+  if (samples.every(s => s === samples[0])) {
+    w.write(0b00000000, 8); // CONSTANT
+    w.write(samples[0], bps);
+    return;
+  }
+
+  let best: { order: number; residual: Int32Array; k: number; bits: number } | null = null;
+  for (let order = 0; order <= Math.min(4, samples.length - 1); order++) {
+    const residual = fixedResidual(samples, order);
+    const { k, bits } = riceCost(residual);
+    const total = order * bps + 6 + 4 + bits;
+    if (!best || total < best.bits) best = { order, residual, k, bits: total };
+  }
+
+  if (!best || best.bits >= samples.length * bps) {
+    w.write(0b00000010, 8); // VERBATIM
+    for (let i = 0; i < samples.length; i++) w.write(samples[i], bps);
+    return;
+  }
+
+  w.write(0b00010000 | (best.order << 1), 8); // FIXED, order in low bits, no wasted bits
+  for (let i = 0; i < best.order; i++) w.write(samples[i], bps);
+  w.write(0, 2); // Rice coding with 4-bit parameters
+  w.write(0, 4); // Partition order 0
+  w.write(best.k, 4);
+  for (let i = 0; i < best.residual.length; i++) {
+    const u = zigzag(best.residual[i]);
+    w.writeUnary(Math.floor(u / 2 ** best.k));
+    if (best.k > 0) w.write(u % 2 ** best.k, best.k);
+  }
+}
+
+// `channels` hold integer samples already scaled to `bitsPerSample`
+export function encodeFlac(channels: Int32Array[], sampleRate: number, bitsPerSample: number): Uint8Array {
+  const w = new BitWriter();
+  const totalSamples = channels[0]?.length || 0;
+
+  // Stream marker + STREAMINFO (marked as the last metadata block)
+  w.write(0x664c6143, 32); // "fLaC"
+  w.write(1, 1);
+  w.write(0, 7);
+  w.write(34, 24);
+  w.write(BLOCK_SIZE, 16);
+  w.write(BLOCK_SIZE, 16);
+  w.write(0, 24); // Min/max frame size unknown
+  w.write(0, 24);
+  w.write(sampleRate, 20);
+  w.write(channels.length - 1, 3);
+  w.write(bitsPerSample - 1, 5);
+  w.write(Math.floor(totalSamples / 2 ** 32), 4);
+  w.write(totalSamples >>> 0, 32);
+  for (let i = 0; i < 4; i++) w.write(0, 32); // MD5 unknown
+
+  for (let frame = 0, offset = 0; offset < totalSamples; frame++, offset += BLOCK_SIZE) {
+    const blockSize = Math.min(BLOCK_SIZE, totalSamples - offset);
+    const frameStart = w.byteLength;
+
+    w.write(0b11111111111110, 14);
+    w.write(0, 1); // Reserved
+    w.write(0, 1); // Fixed blocksize stream
+    w.write(0b0111, 4); // Blocksize stored as 16 bits after the header
+    w.write(0b0000, 4); // Sample rate from STREAMINFO
+    w.write(channels.length - 1, 4); // Independent channels
+    w.write(0b000, 3); // Sample size from STREAMINFO
+    w.write(0, 1);
+    writeUtf8Number(w, frame);
+    w.write(blockSize - 1, 16);
+    w.write(crc8(w.view(frameStart, w.byteLength)), 8);
+
+    for (const channel of channels) {
+      writeSubframe(w, channel.subarray(offset, offset + blockSize), bitsPerSample);
+    }
+    w.alignToByte();
+    w.write(crc16(w.view(frameStart, w.byteLength)), 16);
+  }
+
+  return w.toUint8Array();
+}
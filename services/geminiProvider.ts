@@ -0,0 +1,71 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { SpeechProvider, SpeechSynthesisRequest, SpeechSynthesisResult } from "../types";
+import { decodeBase64 } from "./audioUtils";
+import { InvalidApiKeyError, SafetyBlockError, classifyError } from "./speechErrors";
+
+const MODEL = "gemini-2.5-flash-preview-tts";
+const SAMPLE_RATE = 24000;
+
+const buildSpeechConfig = (voices: SpeechSynthesisRequest['voices']) => {
+  if (voices.length === 1) {
+    return {
+      voiceConfig: {
+        prebuiltVoiceConfig: { voiceName: voices[0].voiceName },
+      },
+    };
+  }
+  return {
+    multiSpeakerVoiceConfig: {
+      speakerVoiceConfigs: voices.map(v => ({
+        speaker: v.speaker,
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: v.voiceName } }
+      }))
+    }
+  };
+};
+
+export const geminiProvider: SpeechProvider = {
+  id: 'gemini',
+  label: 'provider.gemini',
+  requiresApiKey: true,
+
+  synthesize: async (request: SpeechSynthesisRequest): Promise<SpeechSynthesisResult> => {
+    const apiKey = request.apiKey || process.env.API_KEY;
+    if (!apiKey) {
+      throw new InvalidApiKeyError("API Key is missing");
+    }
+
+    const ai = new GoogleGenAI({ apiKey });
+    let response;
+    try {
+      response = await ai.models.generateContent({
+        model: MODEL,
+        contents: [{ parts: [{ text: request.prompt }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: buildSpeechConfig(request.voices),
+          abortSignal: request.signal,
+        },
+      });
+    } catch (error) {
+      throw classifyError(error);
+    }
+
+    const candidate = response.candidates?.[0];
+    const base64Audio = candidate?.content?.parts?.[0]?.inlineData?.data;
+
+    if (!base64Audio) {
+      console.error("Gemini response did not contain inlineData.data", response);
+      const reason = response.promptFeedback?.blockReason || candidate?.finishReason || "EMPTY_CANDIDATE";
+      throw new SafetyBlockError(`Gemini returned no audio (${reason})`);
+    }
+
+    return {
+      pcm: decodeBase64(base64Audio),
+      sampleRate: SAMPLE_RATE,
+      numChannels: 1,
+      provider: 'gemini',
+      model: MODEL,
+    };
+  },
+};
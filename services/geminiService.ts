@@ -1,7 +1,17 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { Emotion, VoiceOption, GenerateSpeechRequest } from "../types";
-import { EMOTION_PROMPTS } from "../constants";
-import { decodeBase64, decodeAudioData } from "./audioUtils";
+import { Emotion, VoiceOption, GenerateSpeechRequest, SpeechSynthesisRequest } from "../types";
+import { EMOTION_PROMPTS, speechLanguage } from "../constants";
+import { decodeAudioData, joinBuffers, padBuffer } from "./audioUtils";
+import { chunkText } from "./textChunker";
+import { getSpeechProvider } from "./speechProvider";
+import { parseEmotion } from "./scriptFormat";
+import { describeEmotionMix, mixFromEmotion } from "./emotionMix";
+import { checkMarkup, splitMarkup, spanDirections } from "./markup";
+import { defaultTemplate, renderPrompt } from "./promptTemplates";
+import { t } from "./i18n";
+import { AudioDecodeError, InvalidApiKeyError, classifyError, throwIfAborted, withRetry } from "./speechErrors";
+
+// Longest text sent in a single request (keeps each response well under the model's output limit)
+export const MAX_CHUNK_CHARS = 1200;
 
 // Singleton AudioContext
 let sharedAudioContext: AudioContext | null = null;
@@ -13,118 +23,188 @@ export const getAudioContext = () => {
   return sharedAudioContext;
 };
 
-export const generateSpeech = async (request: GenerateSpeechRequest): Promise<AudioBuffer> => {
-  const apiKey = request.apiKey || process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key is missing");
-  }
+// Script lines that open with an emotion tag ("名前: (Happy) ...") become numbered, explicit directions
+const lineDirections = (chunk: string): string => {
+  const directions = chunk.split('\n').flatMap((line, i) => {
+    const match = line.match(/^([^:：]+)[:：]\s*\(([A-Za-z]+)\)/);
+    const emotion = match ? parseEmotion(match[2]) : undefined;
+    return emotion ? [`Line ${i + 1} (${match![1].trim()}): ${EMOTION_PROMPTS[emotion].replace(/:$/, '')}.`] : [];
+  });
+  return directions.length > 0
+    ? `Per-line directions (line numbers count the lines of the script below):\n${directions.join('\n')}`
+    : "";
+};
 
-  const ai = new GoogleGenAI({ apiKey });
-  const { mode, text, emotion, voice, speaker1, speaker2, speaker1Name, speaker2Name, contextDescription } = request;
+// Splits the request into chunks and prepares the templated prompt and voice config for each
+const planSpeech = (request: GenerateSpeechRequest) => {
+  const { mode, text, emotion, emotionMix, voice, speaker1, speaker2, speaker1Name, speaker2Name, contextDescription, pronunciationNotes } = request;
+  const template = request.promptTemplate?.mode === mode ? request.promptTemplate : defaultTemplate(mode);
+  const language = speechLanguage(request.language);
+  const fillers = request.fillers === false ? "" : language.fillers;
+
+  // Malformed markup is rejected here, before any request is made
+  const markupErrors = checkMarkup(text, mode === 'conversation').errors;
+  if (markupErrors.length > 0) {
+    throw new Error(`Invalid markup: ${markupErrors.map(e => e.message).join(' / ')}`);
+  }
 
-  let prompt = "";
-  let config: any = {
-    responseModalities: [Modality.AUDIO],
-  };
+  // Pauses split the text into pieces joined with exact silence; each piece is chunked as usual
+  const { leadingPauseMs, pieces } = splitMarkup(text, mode);
+  const chunks: { text: string; directions: string[]; pauseAfterMs?: number }[] = pieces.flatMap(piece => {
+    const pieceChunks = chunkText(piece.text, MAX_CHUNK_CHARS, mode, language.id);
+    return pieceChunks.map((chunk, i) => ({
+      text: chunk,
+      directions: spanDirections(piece.spans, chunk),
+      pauseAfterMs: i === pieceChunks.length - 1 ? piece.pauseAfterMs : undefined,
+    }));
+  });
+  if (chunks.length === 0) throw new Error("Nothing to read after removing markup");
+  // Every chunk gets the same voice config and base prompt; only the text and part marker differ
+  const continuity = (index: number) => chunks.length > 1
+    ? `Note: This is part ${index + 1} of ${chunks.length} of one continuous recording. Keep exactly the same voice, pace, volume and character as the other parts.`
+    : "";
+
+  // Readings are already substituted into the text; only accent hints need to be spelled out
+  const pronunciation = pronunciationNotes?.length
+    ? `Pronunciation notes (accent): ${pronunciationNotes.join(' / ')}`
+    : "";
+
+  const delivery = (directions: string[]) => directions.length > 0
+    ? `Delivery directions (quoted parts of the text):\n${directions.join('\n')}`
+    : "";
+
+  let variables: (chunk: string, index: number) => Record<string, string>;
+  let voices: SpeechSynthesisRequest['voices'];
 
   if (mode === 'single') {
-    if (!emotion || !voice) throw new Error("Missing parameters for single mode");
-
-    // Check if the voice is a standard API voice or a Persona preset
-    const standardNames = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
-    let effectiveDesc = contextDescription || "";
-
-    // If it's a Persona (e.g., 'Child', 'Announcer'), inject it into the style instruction
-    if (!standardNames.includes(voice.name)) {
-      effectiveDesc = `Role/Tone: ${voice.name}. ${effectiveDesc}`;
-    }
+    if (!voice) throw new Error("Missing parameters for single mode");
+    const mix = emotionMix || mixFromEmotion(emotion || voice.defaultEmotion || Emotion.NEUTRAL);
+
+    // Personas carry their own character direction; base API voices have none
+    const character = voice.description
+      ? `Role/Tone: ${voice.description}. ${contextDescription || ""}`
+      : contextDescription || "";
+
+    // Emotion tags in the text override the base emotion (see the default template's instructions)
+    variables = (chunk, index) => ({
+      text: chunk,
+      emotionPrompt: describeEmotionMix(mix),
+      character,
+      context: contextDescription || "",
+      persona: voice.description || "",
+      voice: voice.name,
+      language: language.name,
+      fillers,
+      pronunciation,
+      delivery: delivery(chunks[index].directions),
+      continuity: continuity(index),
+    });
 
-    const styleInstruction = effectiveDesc ? `Character/Style setting: ${effectiveDesc}` : "";
-
-    // Allow emotion tags in text to override base emotion
-    prompt = `
-      Base Tone: ${EMOTION_PROMPTS[emotion]}
-      ${styleInstruction}
-      
-      Instruction: 
-      1. Read the following text naturally in Japanese. 
-      2. If a "Character/Style setting" is provided, strictly adopt that persona and speaking style.
-      3. If there are emotion tags like (Happy), (Sad), (Whisper) in the text, strictly change the tone accordingly for that part.
-      4. Occasionally and naturally insert fillers like "えっと" (etto), "あ、" (ah), "んー" (mm) at the beginning of sentences to make it sound more human-like. Do not do this for every sentence, only where it feels extremely natural.
-      
-      Text:
-      ${text}
-    `;
-
-    config.speechConfig = {
-      voiceConfig: {
-        prebuiltVoiceConfig: { voiceName: voice.apiName },
-      },
-    };
+    voices = [{ voiceName: voice.apiName }];
   } else {
     // Conversation Mode
     if (!speaker1 || !speaker2) throw new Error("Missing speakers for conversation mode");
 
     const nameA = speaker1Name || 'Speaker A';
     const nameB = speaker2Name || 'Speaker B';
-    const context = contextDescription ? `Situation/Context: ${contextDescription}` : "";
-
-    // Conversation Prompt
-    prompt = `
-      Task: TTS the following conversation between ${nameA} and ${nameB}.
-      Language: Japanese.
-      ${context}
-      
-      Instruction: 
-      1. Strictly distinguish the voices for ${nameA} and ${nameB}.
-      2. Act out the scene based on the "Situation/Context" provided above.
-      3. If there are emotion tags like (Happy), (Sad), (Whisper) in the text, strictly change the tone accordingly for that line.
-      4. Occasionally and naturally insert fillers like "えっと" (etto), "あ、" (ah), "んー" (mm) at the beginning of sentences to make it sound more human-like. Do not do this for every sentence, only where it feels extremely natural to the context.
-      5. If a line is attributed to "${nameA} & ${nameB}", try to make it sound like they are speaking together or in immediate agreement.
-      
-      Conversation Script:
-      ${text}`;
-
-    config.speechConfig = {
-      multiSpeakerVoiceConfig: {
-        speakerVoiceConfigs: [
-          {
-            speaker: nameA,
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: speaker1.apiName } }
-          },
-          {
-            speaker: nameB,
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: speaker2.apiName } }
-          }
-        ]
-      }
-    };
+    const personas = ([[nameA, speaker1], [nameB, speaker2]] as [string, VoiceOption][])
+      .filter(([, v]) => v.description)
+      .map(([name, v]) => `${name}: ${v.description}`);
+
+    variables = (chunk, index) => ({
+      text: chunk,
+      speakerA: nameA,
+      speakerB: nameB,
+      context: contextDescription || "",
+      characters: personas.join(' / '),
+      language: language.name,
+      fillers,
+      pronunciation,
+      lineDirections: lineDirections(chunk),
+      delivery: delivery(chunks[index].directions),
+      continuity: continuity(index),
+    });
+
+    voices = [
+      { speaker: nameA, voiceName: speaker1.apiName },
+      { speaker: nameB, voiceName: speaker2.apiName },
+    ];
   }
 
-  console.log(`Generating ${mode} speech...`, { speaker1Name, speaker2Name, contextDescription });
+  return {
+    template,
+    chunks,
+    leadingPauseMs,
+    voices,
+    prompt: (index: number) => renderPrompt(template.body, variables(chunks[index].text, index)),
+  };
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: prompt }] }],
-      config: config,
-    });
+// The prompt the first request would be sent with; no API call is made
+export const previewPrompt = (request: GenerateSpeechRequest): string => {
+  const plan = planSpeech(request);
+  const prompt = plan.prompt(0);
+  return plan.chunks.length > 1 ? `${prompt}\n\n${t('template.previewChunk', { count: plan.chunks.length })}` : prompt;
+};
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+// Builds the directing prompt for the request and hands each chunk to the selected speech provider
+export const generateSpeech = async (request: GenerateSpeechRequest): Promise<AudioBuffer> => {
+  const provider = getSpeechProvider(request.provider?.id);
+  const apiKey = request.apiKey || process.env.API_KEY;
+  if (provider.requiresApiKey && !apiKey) {
+    throw new InvalidApiKeyError("API Key is missing");
+  }
 
-    if (!base64Audio) {
-      console.error("Gemini response did not contain inlineData.data", response);
-      throw new Error("Geminiから音声データが返されませんでした。");
-    }
+  const { mode, speaker1Name, speaker2Name, contextDescription, signal, onProgress, onRetry, onRequest } = request;
+  const { template, chunks, leadingPauseMs, voices, prompt } = planSpeech(request);
+
+  console.log(`Generating ${mode} speech via ${provider.id}...`, { speaker1Name, speaker2Name, contextDescription, template: `${template.id}@${template.version}`, chunks: chunks.length });
 
+  try {
     const ctx = getAudioContext();
-    const rawBytes = decodeBase64(base64Audio);
-    const audioBuffer = await decodeAudioData(rawBytes, ctx, 24000, 1);
+    const buffers: AudioBuffer[] = [];
+    onProgress?.(0, chunks.length);
+
+    // Sequential on purpose: keeps rate limits predictable and progress meaningful
+    for (let i = 0; i < chunks.length; i++) {
+      throwIfAborted(signal);
+      // Every attempt is billed for the chunk text it sent, whether or not audio came back
+      const send = async () => {
+        const usage = { requests: 1, characters: chunks[i].text.length, seconds: 0 };
+        try {
+          const result = await provider.synthesize({
+            prompt: prompt(i),
+            text: chunks[i].text,
+            voices,
+            apiKey,
+            endpoint: request.provider?.endpoint,
+            signal,
+          });
+          usage.seconds = result.pcm.byteLength / 2 / result.numChannels / result.sampleRate;
+          return result;
+        } finally {
+          onRequest?.(usage);
+        }
+      };
+      const result = await withRetry(send, { signal, onRetry: (_error, attempt, delayMs) => onRetry?.(attempt, delayMs) });
+
+      try {
+        buffers.push(await decodeAudioData(result.pcm, ctx, result.sampleRate, result.numChannels));
+      } catch (error) {
+        throw new AudioDecodeError(`Could not decode ${result.provider} audio`, error);
+      }
+      onProgress?.(i + 1, chunks.length);
+    }
 
-    return audioBuffer;
+    // Conversation chunks end between lines, so give them the same pause as a line change;
+    // a [pause] replaces that gap with exactly the requested silence
+    const chunkGap = mode === 'conversation' ? 0.5 : 0.35;
+    const gaps = chunks.slice(0, -1).map(c => c.pauseAfterMs ? c.pauseAfterMs / 1000 : chunkGap);
+    const joined = joinBuffers(ctx, buffers, { gapSeconds: gaps });
+    return padBuffer(ctx, joined, leadingPauseMs / 1000, (chunks[chunks.length - 1].pauseAfterMs || 0) / 1000);
 
   } catch (error) {
     console.error("Error inside generateSpeech:", error);
-    throw error;
+    throw classifyError(error);
   }
 };
\ No newline at end of file
@@ -0,0 +1,190 @@
+import { AlternateTake, GeneratedAudio } from "../types";
+
+const DB_NAME = 'kanjo_voice';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+
+// AudioBuffer is not structured-cloneable, so we persist the raw channel data instead
+interface StoredBuffers {
+  length: number;
+  channels: Float32Array[];
+  originalLength?: number; // Unprocessed audio, same sample rate
+  originalChannels?: Float32Array[];
+}
+
+export type StoredTake = Omit<AlternateTake, 'audioBuffer' | 'originalBuffer'> & StoredBuffers;
+
+export type StoredAudio = Omit<GeneratedAudio, 'audioBuffer' | 'originalBuffer' | 'alternateTakes'> & StoredBuffers & {
+  sampleRate: number; // Shared by every buffer of the entry
+  alternateTakes?: StoredTake[];
+};
+
+export interface StorageUsage {
+  itemCount: number;
+  audioBytes: number; // PCM bytes held by our own records
+  usage?: number; // Whole-origin figures from navigator.storage, when available
+  quota?: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wrap a single-store transaction; resolves once the transaction commits
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(HISTORY_STORE, mode);
+    const request = run(tx.objectStore(HISTORY_STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Copy so the stored data is detached from the live buffer
+const channelsOf = (buffer: AudioBuffer) =>
+  Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+
+const toBuffer = (ctx: BaseAudioContext, channels: Float32Array[], length: number, sampleRate: number) => {
+  const buffer = ctx.createBuffer(channels.length, length, sampleRate);
+  channels.forEach((data, c) => buffer.copyToChannel(data, c));
+  return buffer;
+};
+
+const storeBuffers = (audioBuffer: AudioBuffer, originalBuffer?: AudioBuffer): StoredBuffers => {
+  const stored: StoredBuffers = { length: audioBuffer.length, channels: channelsOf(audioBuffer) };
+  if (originalBuffer) {
+    stored.originalLength = originalBuffer.length;
+    stored.originalChannels = channelsOf(originalBuffer);
+  }
+  return stored;
+};
+
+const loadBuffers = (stored: StoredBuffers, ctx: BaseAudioContext, sampleRate: number) => {
+  const buffers: { audioBuffer: AudioBuffer; originalBuffer?: AudioBuffer } = {
+    audioBuffer: toBuffer(ctx, stored.channels, stored.length, sampleRate),
+  };
+  if (stored.originalChannels && stored.originalLength) {
+    buffers.originalBuffer = toBuffer(ctx, stored.originalChannels, stored.originalLength, sampleRate);
+  }
+  return buffers;
+};
+
+export const serialize = (item: GeneratedAudio): StoredAudio => {
+  const { audioBuffer, originalBuffer, alternateTakes, ...meta } = item;
+  const record: StoredAudio = { ...meta, sampleRate: audioBuffer.sampleRate, ...storeBuffers(audioBuffer, originalBuffer) };
+  if (alternateTakes) {
+    record.alternateTakes = alternateTakes.map(({ audioBuffer, originalBuffer, ...take }) => ({
+      ...take,
+      ...storeBuffers(audioBuffer, originalBuffer),
+    }));
+  }
+  return record;
+};
+
+export const deserialize = (record: StoredAudio, ctx: BaseAudioContext): GeneratedAudio => {
+  const { sampleRate, length, channels, originalLength, originalChannels, alternateTakes, ...meta } = record;
+  const item: GeneratedAudio = { ...meta, ...loadBuffers(record, ctx, sampleRate) };
+  if (alternateTakes) {
+    item.alternateTakes = alternateTakes.map(({ length, channels, originalLength, originalChannels, ...take }) => ({
+      ...take,
+      ...loadBuffers({ length, channels, originalLength, originalChannels }, ctx, sampleRate),
+    }));
+  }
+  return item;
+};
+
+const buffersBytes = (stored: StoredBuffers) =>
+  [...stored.channels, ...(stored.originalChannels || [])].reduce((sum, data) => sum + data.byteLength, 0);
+
+const recordBytes = (record: StoredAudio) =>
+  (record.alternateTakes || []).reduce((sum, take) => sum + buffersBytes(take), buffersBytes(record));
+
+// Load all saved items, newest first
+export const loadHistory = async (ctx: BaseAudioContext): Promise<GeneratedAudio[]> => {
+  const records = await withStore<StoredAudio[]>('readonly', store => store.getAll());
+  return (records || [])
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map(record => deserialize(record, ctx));
+};
+
+export const saveHistoryItem = async (item: GeneratedAudio): Promise<void> => {
+  await withStore('readwrite', store => store.put(serialize(item)));
+};
+
+export const deleteHistoryItem = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const deleteHistoryItems = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  await withStore('readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
+
+// Delete the oldest items beyond `limit` among those `inScope` accepts (one project's items).
+// A limit of 0 keeps everything. Returns the IDs that were removed so callers can sync in-memory state.
+export const pruneHistory = async (limit: number, inScope: (record: StoredAudio) => boolean): Promise<string[]> => {
+  if (limit <= 0) return [];
+  const records = await withStore<StoredAudio[]>('readonly', store => store.getAll());
+  const stale = (records || [])
+    .filter(inScope)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(limit)
+    .map(record => record.id);
+
+  if (stale.length > 0) {
+    await withStore('readwrite', store => {
+      stale.forEach(id => store.delete(id));
+    });
+  }
+  return stale;
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const records = await withStore<StoredAudio[]>('readonly', store => store.getAll());
+  const list = records || [];
+  const result: StorageUsage = {
+    itemCount: list.length,
+    audioBytes: list.reduce((sum, record) => sum + recordBytes(record), 0),
+  };
+
+  if (navigator.storage?.estimate) {
+    try {
+      const estimate = await navigator.storage.estimate();
+      result.usage = estimate.usage;
+      result.quota = estimate.quota;
+    } catch (e) {
+      console.warn("Could not estimate storage usage:", e);
+    }
+  }
+  return result;
+};
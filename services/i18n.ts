@@ -0,0 +1,71 @@
+import { Emotion, LocaleDefinition, MessageKey, VoiceOption } from "../types";
+import { LOCALES } from "../locales";
+
+export type MessageParams = Record<string, string | number>;
+
+let active = LOCALES[0];
+
+export const findLocale = (id?: string) => LOCALES.find(l => l.id === id) || LOCALES[0];
+
+// Set once per render by App so services and components read the same catalog
+export const setActiveLocale = (id: string) => {
+  active = findLocale(id);
+};
+
+export const activeLocale = () => active;
+
+// First browser language we have a catalog for
+export const detectLocale = (): string => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language];
+  const match = preferred.map(tag => LOCALES.find(l => l.id === tag.split('-')[0].toLowerCase())).find(Boolean);
+  return (match || LOCALES[0]).id;
+};
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(active.intl, options).format(value);
+
+export const formatDate = (time: number | Date) =>
+  new Intl.DateTimeFormat(active.intl, { dateStyle: 'medium' }).format(time);
+
+export const formatClockTime = (time: number | Date) =>
+  new Intl.DateTimeFormat(active.intl, { timeStyle: 'short' }).format(time);
+
+export const formatBytes = (bytes: number) => bytes < 1024 * 1024
+  ? formatNumber(bytes / 1024, { style: 'unit', unit: 'kilobyte', maximumFractionDigits: 0 })
+  : formatNumber(bytes / 1024 / 1024, { style: 'unit', unit: 'megabyte', maximumFractionDigits: 1 });
+
+const render = (locale: LocaleDefinition, key: MessageKey, params: MessageParams): string => {
+  const message = locale.messages[key] ?? LOCALES[0].messages[key];
+  const text = typeof message === 'string'
+    ? message
+    : message[new Intl.PluralRules(locale.intl).select(Number(params.count))] ?? message.other;
+  return text.replace(/\{(\w+)\}/g, (match, name) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? new Intl.NumberFormat(locale.intl).format(value) : value;
+  });
+};
+
+// Looks up a message, picking the plural form by `count`; missing keys fall back to the first locale
+export const t = (key: MessageKey, params: MessageParams = {}) => render(active, key, params);
+
+// The message in every locale, for matching input written in any of them (imported files, tags)
+export const translations = (key: MessageKey, params: MessageParams = {}) => LOCALES.map(locale => render(locale, key, params));
+
+const voiceKey = (voice: VoiceOption) => {
+  const key = `voice.${voice.name}`;
+  return key in LOCALES[0].messages ? key as MessageKey : undefined;
+};
+
+// Base voices and default personas have translated labels; user personas show their own name
+export const voiceLabel = (voice: VoiceOption) => {
+  const key = voiceKey(voice);
+  return key ? t(key) : voice.name;
+};
+
+export const voiceLabels = (voice: VoiceOption) => {
+  const key = voiceKey(voice);
+  return key ? translations(key) : [voice.name];
+};
+
+export const emotionLabel = (emotion: Emotion) => t(`emotion.${emotion}`);
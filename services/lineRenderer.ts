@@ -0,0 +1,219 @@
+import { AppMode, CastMember, ConversationLine, GenerateSpeechRequest, LexiconEntry, LineTake, PromptTemplate, SpeechLanguage, SpeechProviderSettings, VoiceOption } from "../types";
+import { generateSpeech, getAudioContext, previewPrompt } from "./geminiService";
+import { joinBuffers } from "./audioUtils";
+import { formatLine } from "./scriptFormat";
+import { preparePronunciation } from "./pronunciation";
+import { t } from "./i18n";
+
+export interface LineRenderContext {
+  cast: CastMember[];
+  voices: VoiceOption[];
+  contextDescription: string;
+  lexicon?: LexiconEntry[];
+  promptTemplates?: Partial<Record<AppMode, PromptTemplate>>; // Solo lines use the single-mode template
+  language?: SpeechLanguage;
+  fillers?: boolean;
+  apiKey?: string;
+  provider?: SpeechProviderSettings;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number) => void; // Backoff notice for every request made
+  onRequest?: GenerateSpeechRequest['onRequest']; // Usage of every request made
+}
+
+// Pause between segments when a large cast is rendered in pairs
+const SEGMENT_GAP = 0.5;
+
+const memberOf = (id: string, rc: LineRenderContext): CastMember =>
+  rc.cast.find(m => m.id === id) || rc.cast[0];
+
+export const voiceOf = (member: CastMember, voices: VoiceOption[]): VoiceOption =>
+  voices.find(v => v.id === member.voiceId) || voices[0];
+
+const speakersOf = (line: ConversationLine) => line.partner ? [line.speaker, line.partner] : [line.speaker];
+
+// Lines with ruby and lexicon readings substituted, plus the accent notes that apply to them
+const prepareLines = (lines: ConversationLine[], rc: LineRenderContext) => {
+  const notes = new Set<string>();
+  const prepared = lines.map(line => {
+    const { text, notes: lineNotes } = preparePronunciation(line.text, rc.lexicon || []);
+    lineNotes.forEach(note => notes.add(note));
+    return { ...line, text };
+  });
+  return { lines: prepared, notes: [...notes] };
+};
+
+// Everything that affects how a line sounds; if any of it changes the take must be re-rendered
+export const lineTakeKey = (line: ConversationLine, rc: LineRenderContext): string => {
+  const voices = speakersOf(line).flatMap(id => {
+    const member = memberOf(id, rc);
+    return [member.name, member.voiceId];
+  });
+  const { lines: [spoken], notes } = prepareLines([line], rc);
+  // Defaults add nothing, so takes rendered before templates and languages existed stay fresh
+  const template = rc.promptTemplates?.[line.partner ? 'conversation' : 'single'];
+  const extras = [
+    ...(template && !template.builtIn ? [`${template.id}@${template.version}`] : []),
+    ...(rc.language && rc.language !== 'ja' ? [rc.language] : []),
+    ...(rc.fillers === false ? ['no-fillers'] : []),
+  ];
+  return JSON.stringify([spoken.text, notes, line.emotion || '', ...voices, rc.contextDescription, rc.provider?.id || 'gemini', ...extras]);
+};
+
+export const isTakeFresh = (take: LineTake | undefined, line: ConversationLine, rc: LineRenderContext) =>
+  !!take && take.key === lineTakeKey(line, rc);
+
+// Script lines are matched to the cast by name, and the API keys voices by speaker name
+export const castNameKey = (name: string) => name.trim().toLowerCase();
+
+// Why the cast can't be used for a conversation, if it can't
+export const castProblem = (cast: CastMember[]): string | undefined => {
+  if (cast.length < 2) return t('cast.tooFew');
+  const keys = cast.map(m => castNameKey(m.name));
+  if (keys.some(key => !key)) return t('cast.emptyName');
+  const duplicate = cast.find((_, i) => keys.indexOf(keys[i]) !== i);
+  if (duplicate) return t('cast.duplicateName', { name: duplicate.name.trim() });
+  return undefined;
+};
+
+const assertCast = (cast: CastMember[]) => {
+  const problem = castProblem(cast);
+  if (problem) throw new Error(problem);
+};
+
+// Multi-speaker requests are limited to two voices; returns the pair to configure for a set of speakers
+const pairFor = (ids: string[], rc: LineRenderContext): [CastMember, CastMember] => {
+  const first = memberOf(ids[0], rc);
+  // A lone speaker still needs a second configured voice, so borrow another cast member who stays silent
+  const second = ids[1] ? memberOf(ids[1], rc) : rc.cast.find(m => m.id !== first.id) || first;
+  return [first, second];
+};
+
+const pairRequest = (
+  text: string,
+  ids: string[],
+  notes: string[],
+  rc: LineRenderContext,
+  onProgress?: (completed: number, total: number) => void,
+): GenerateSpeechRequest => {
+  const [a, b] = pairFor(ids, rc);
+  return {
+    mode: 'conversation',
+    text,
+    speaker1: voiceOf(a, rc.voices),
+    speaker2: voiceOf(b, rc.voices),
+    speaker1Name: a.name,
+    speaker2Name: b.name,
+    contextDescription: rc.contextDescription,
+    pronunciationNotes: notes,
+    promptTemplate: rc.promptTemplates?.conversation,
+    language: rc.language,
+    fillers: rc.fillers,
+    apiKey: rc.apiKey,
+    provider: rc.provider,
+    signal: rc.signal,
+    onRetry: rc.onRetry,
+    onRequest: rc.onRequest,
+    onProgress,
+  };
+};
+
+const generatePair = (...args: Parameters<typeof pairRequest>) => generateSpeech(pairRequest(...args));
+
+// Render one line with the speaker's own voice and the shared scene description
+export const renderLine = async (line: ConversationLine, rc: LineRenderContext): Promise<LineTake> => {
+  assertCast(rc.cast);
+  let audioBuffer: AudioBuffer;
+  const { lines: [spoken], notes } = prepareLines([line], rc);
+
+  if (line.partner) {
+    // Lines spoken together still need both voices, so use the multi-speaker path for just this line
+    audioBuffer = await generatePair(formatLine(spoken, rc.cast), speakersOf(line), notes, rc);
+  } else {
+    const member = memberOf(line.speaker, rc);
+    const others = rc.cast.filter(m => m.id !== member.id).map(m => m.name).join(', ');
+    const scene = rc.contextDescription ? ` Scene: ${rc.contextDescription}` : "";
+
+    audioBuffer = await generateSpeech({
+      mode: 'single',
+      text: spoken.text,
+      emotion: line.emotion, // Missing falls back to the persona's default emotion
+      voice: voiceOf(member, rc.voices),
+      contextDescription: `You are ${member.name}, speaking one line of a conversation with ${others || 'others'}.${scene}`,
+      pronunciationNotes: notes,
+      promptTemplate: rc.promptTemplates?.single,
+      language: rc.language,
+      fillers: rc.fillers,
+      apiKey: rc.apiKey,
+      provider: rc.provider,
+      signal: rc.signal,
+      onRetry: rc.onRetry,
+      onRequest: rc.onRequest,
+    });
+  }
+
+  return {
+    lineId: line.id,
+    key: lineTakeKey(line, rc),
+    audioBuffer,
+    timestamp: Date.now(),
+  };
+};
+
+// Join line takes in script order with a fixed pause between lines
+export const assembleTakes = (takes: LineTake[], gapSeconds: number): AudioBuffer =>
+  joinBuffers(getAudioContext(), takes.map(take => take.audioBuffer), { gapSeconds });
+
+// Group consecutive lines so that no group involves more than two speakers
+export const segmentByPairs = (lines: ConversationLine[]): ConversationLine[][] => {
+  const segments: ConversationLine[][] = [];
+  let current: ConversationLine[] = [];
+  let speakers = new Set<string>();
+
+  for (const line of lines) {
+    const merged = new Set([...speakers, ...speakersOf(line)]);
+    if (merged.size > 2 && current.length > 0) {
+      segments.push(current);
+      current = [];
+      speakers = new Set(speakersOf(line));
+    } else {
+      speakers = merged;
+    }
+    current.push(line);
+  }
+  if (current.length > 0) segments.push(current);
+  return segments;
+};
+
+// Render a whole script as few requests as the two-voice limit allows, then stitch the segments
+export const renderScript = async (
+  lines: ConversationLine[],
+  rc: LineRenderContext,
+  onProgress?: (completed: number, total: number) => void,
+): Promise<AudioBuffer> => {
+  assertCast(rc.cast);
+  const segments = segmentByPairs(lines);
+  const buffers: AudioBuffer[] = [];
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const ids = [...new Set(segment.flatMap(speakersOf))];
+    const { lines: spoken, notes } = prepareLines(segment, rc);
+    const text = spoken.map(line => formatLine(line, rc.cast)).join('\n');
+    // With one segment, pass chunk progress straight through; otherwise report per segment
+    const progress = segments.length === 1 ? onProgress : undefined;
+    if (segments.length > 1) onProgress?.(i, segments.length);
+    buffers.push(await generatePair(text, ids, notes, rc, progress));
+  }
+  if (segments.length > 1) onProgress?.(segments.length, segments.length);
+
+  return joinBuffers(getAudioContext(), buffers, { gapSeconds: SEGMENT_GAP });
+};
+
+// The prompt the first segment of a script would be sent with (conversation template preview)
+export const previewScriptPrompt = (lines: ConversationLine[], rc: LineRenderContext): string => {
+  const [segment] = segmentByPairs(lines);
+  if (!segment) throw new Error(t('import.noScriptLines'));
+  const { lines: spoken, notes } = prepareLines(segment, rc);
+  const text = spoken.map(line => formatLine(line, rc.cast)).join('\n');
+  return previewPrompt(pairRequest(text, [...new Set(segment.flatMap(speakersOf))], notes, rc));
+};
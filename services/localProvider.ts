@@ -0,0 +1,124 @@
+import { SpeechProvider, SpeechSynthesisRequest, SpeechSynthesisResult } from "../types";
+import { parseWav } from "./audioUtils";
+import { t } from "./i18n";
+import { NetworkError, SpeechError, classifyError } from "./speechErrors";
+
+const SAMPLE_RATE = 24000;
+
+// Stable 32-bit hash so the same text and voice always produce the same audio
+const hash = (value: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+const PAUSE_LONG = /[。！？!?.\n]/;
+const PAUSE_SHORT = /[、,，]/;
+
+// Renders one short tone per character, pitched by voice, so timing roughly follows the text
+const synthesizeTones = (request: SpeechSynthesisRequest): Uint8Array => {
+  const pitchOf = (voiceName: string) => 100 + (hash(voiceName) % 160);
+  const samples: number[] = [];
+  const pushSilence = (seconds: number) => {
+    for (let i = 0; i < seconds * SAMPLE_RATE; i++) samples.push(0);
+  };
+  const pushTone = (freq: number, seconds: number) => {
+    const length = Math.round(seconds * SAMPLE_RATE);
+    const attack = 0.01 * SAMPLE_RATE;
+    const release = 0.02 * SAMPLE_RATE;
+    for (let i = 0; i < length; i++) {
+      const env = Math.min(1, i / attack, (length - i) / release);
+      const t = i / SAMPLE_RATE;
+      samples.push(0.3 * env * (Math.sin(2 * Math.PI * freq * t) + 0.4 * Math.sin(4 * Math.PI * freq * t)) / 1.4);
+    }
+  };
+
+  for (const rawLine of request.text.split('\n')) {
+    let line = rawLine.trim();
+    let voice = request.voices[0];
+
+    // In multi-speaker scripts, pick the voice from the "Name:" prefix
+    const speaker = request.voices.find(v => v.speaker && line.startsWith(`${v.speaker}:`));
+    if (speaker) {
+      voice = speaker;
+      line = line.slice(speaker.speaker!.length + 1).trim();
+    }
+    // Emotion tags are directions, not speech
+    line = line.replace(/\([A-Za-z]+\)/g, '');
+
+    const base = pitchOf(voice?.voiceName || '');
+    for (const ch of line) {
+      if (PAUSE_LONG.test(ch)) pushSilence(0.3);
+      else if (PAUSE_SHORT.test(ch)) pushSilence(0.15);
+      else if (/\s/.test(ch)) pushSilence(0.06);
+      else pushTone(base * (1 + ((ch.charCodeAt(0) % 7) - 3) * 0.04), 0.09);
+    }
+    pushSilence(0.3);
+  }
+
+  const pcm = new Uint8Array(samples.length * 2);
+  const view = new DataView(pcm.buffer);
+  samples.forEach((s, i) => view.setInt16(i * 2, Math.round(s * 32767), true));
+  return pcm;
+};
+
+export const localToneProvider: SpeechProvider = {
+  id: 'local-tone',
+  label: 'provider.localTone',
+  requiresApiKey: false,
+
+  synthesize: async (request: SpeechSynthesisRequest): Promise<SpeechSynthesisResult> => ({
+    pcm: synthesizeTones(request),
+    sampleRate: SAMPLE_RATE,
+    numChannels: 1,
+    provider: 'local-tone',
+    model: 'tone-v1',
+  }),
+};
+
+// Posts the request as JSON and accepts either a WAV file or raw 16-bit PCM
+// (with optional X-Sample-Rate / X-Channels headers) in response.
+export const localHttpProvider: SpeechProvider = {
+  id: 'local-http',
+  label: 'provider.localHttp',
+  requiresApiKey: false,
+
+  synthesize: async (request: SpeechSynthesisRequest): Promise<SpeechSynthesisResult> => {
+    if (!request.endpoint) {
+      throw new SpeechError('unknown', t('provider.noEndpoint'));
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(request.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prompt: request.prompt, text: request.text, voices: request.voices }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      const classified = classifyError(error);
+      throw classified.kind === 'unknown' ? new NetworkError(classified.message, error) : classified;
+    }
+    if (!response.ok) {
+      throw classifyError({ status: response.status, message: `Local HTTP error: ${response.status} ${response.statusText}` });
+    }
+
+    const data = await response.arrayBuffer();
+    const isWav = data.byteLength >= 4 && String.fromCharCode(...new Uint8Array(data, 0, 4)) === 'RIFF';
+    if (isWav) {
+      return { ...parseWav(data), provider: 'local-http', model: request.endpoint };
+    }
+
+    return {
+      pcm: new Uint8Array(data),
+      sampleRate: parseInt(response.headers.get('X-Sample-Rate') || '', 10) || SAMPLE_RATE,
+      numChannels: parseInt(response.headers.get('X-Channels') || '', 10) || 1,
+      provider: 'local-http',
+      model: request.endpoint,
+    };
+  },
+};
@@ -0,0 +1,237 @@
+import { MessageKey } from "../types";
+import { MARKUP_PROMPTS } from "../constants";
+import { MessageParams, t } from "./i18n";
+
+// Inline delivery markup, written in the text itself:
+//   [pause 800ms] / [pause 1.5s]   exact silence, inserted when the audio is joined
+//   [slow]...[/slow]  [fast]...[/fast]  [emph]...[/emph]   turned into prompt directions
+// Anything else in square brackets that starts with a letter is reported as a malformed tag.
+
+export type SpanDirective = 'slow' | 'fast' | 'emph';
+
+export type MarkupNode =
+  | { type: 'text'; text: string }
+  | { type: 'pause'; ms: number }
+  | { type: 'span'; directive: SpanDirective; children: MarkupNode[] };
+
+export interface MarkupTag {
+  start: number; // Offsets into the parsed text
+  end: number;
+  valid: boolean;
+}
+
+export interface MarkupError {
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ParsedMarkup {
+  nodes: MarkupNode[];
+  tags: MarkupTag[];
+  errors: MarkupError[];
+}
+
+const TAG = /\[\s*(\/?)\s*([A-Za-z]+)([^\[\]\n]*)\]/g;
+const SPAN_DIRECTIVES: SpanDirective[] = ['slow', 'fast', 'emph'];
+const MAX_PAUSE_MS = 10000;
+
+const isSpanDirective = (name: string): name is SpanDirective => (SPAN_DIRECTIVES as string[]).includes(name);
+
+// "800ms", "1.5s", "2秒" -> milliseconds
+const parseDuration = (value: string): number | undefined => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|秒)?$/i);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1]);
+  return Math.round(match[2]?.toLowerCase() === 'ms' ? amount : amount * 1000);
+};
+
+export const parseMarkup = (text: string): ParsedMarkup => {
+  const root: MarkupNode[] = [];
+  const tags: MarkupTag[] = [];
+  const errors: MarkupError[] = [];
+  // Open spans, innermost last, with where their opening tag sits for error reporting
+  const stack: { directive: SpanDirective; children: MarkupNode[]; start: number; end: number }[] = [];
+  const current = () => stack.length > 0 ? stack[stack.length - 1].children : root;
+  let last = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const nodes = current();
+    const prev = nodes[nodes.length - 1];
+    if (prev?.type === 'text') prev.text += value;
+    else nodes.push({ type: 'text', text: value });
+  };
+
+  for (const match of text.matchAll(TAG)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const closing = match[1] === '/';
+    const name = match[2].toLowerCase();
+    const arg = match[3].trim();
+    const fail = (key: MessageKey, params: MessageParams = {}) => {
+      errors.push({ start, end, message: t(key, { tag: match[0], ...params }) });
+      tags.push({ start, end, valid: false });
+    };
+
+    pushText(text.slice(last, start));
+    last = end;
+
+    if (name === 'pause') {
+      const ms = arg ? parseDuration(arg) : undefined;
+      if (closing) fail('markup.pauseClosing');
+      else if (!arg) fail('markup.pauseMissing');
+      else if (ms === undefined) fail('markup.pauseInvalid', { value: arg });
+      else if (ms <= 0 || ms > MAX_PAUSE_MS) fail('markup.pauseTooLong', { count: MAX_PAUSE_MS / 1000 });
+      else {
+        current().push({ type: 'pause', ms });
+        tags.push({ start, end, valid: true });
+      }
+      continue;
+    }
+
+    if (!isSpanDirective(name)) {
+      fail('markup.unknownTag');
+      continue;
+    }
+    if (arg) {
+      fail('markup.noValue', { name });
+      continue;
+    }
+
+    if (!closing) {
+      const span = { type: 'span' as const, directive: name, children: [] as MarkupNode[] };
+      current().push(span);
+      stack.push({ directive: name, children: span.children, start, end });
+      tags.push({ start, end, valid: true });
+    } else if (stack[stack.length - 1]?.directive === name) {
+      stack.pop();
+      tags.push({ start, end, valid: true });
+    } else if (stack.some(s => s.directive === name)) {
+      fail('markup.closedEarly', { name: stack[stack.length - 1].directive });
+    } else {
+      fail('markup.noOpening');
+    }
+  }
+  pushText(text.slice(last));
+
+  for (const open of stack) {
+    errors.push({ start: open.start, end: open.end, message: t('markup.unclosed', { name: open.directive }) });
+    const tag = tags.find(entry => entry.start === open.start);
+    if (tag) tag.valid = false;
+  }
+  errors.sort((a, b) => a.start - b.start);
+  return { nodes: root, tags, errors };
+};
+
+// Script lines are parsed one by one (spans can't cross lines); offsets stay relative to the whole text
+export const checkMarkup = (text: string, byLine = false): ParsedMarkup => {
+  if (!byLine) return parseMarkup(text);
+  const result: ParsedMarkup = { nodes: [], tags: [], errors: [] };
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const parsed = parseMarkup(line);
+    result.nodes.push(...parsed.nodes);
+    result.tags.push(...parsed.tags.map(tag => ({ ...tag, start: tag.start + offset, end: tag.end + offset })));
+    result.errors.push(...parsed.errors.map(e => ({ ...e, start: e.start + offset, end: e.end + offset })));
+    offset += line.length + 1;
+  }
+  return result;
+};
+
+// Text as it should be displayed or spoken, with all markup removed
+export const stripMarkup = (text: string) => text.replace(TAG, '');
+
+export interface MarkupSpan {
+  directive: SpanDirective;
+  text: string;
+}
+
+// A stretch of text sent to the engine as a unit, followed by an exact pause
+export interface MarkupPiece {
+  text: string;
+  spans: MarkupSpan[];
+  pauseAfterMs: number;
+}
+
+export interface SplitMarkup {
+  leadingPauseMs: number;
+  pieces: MarkupPiece[];
+}
+
+interface Run {
+  text: string;
+  directives: SpanDirective[];
+}
+
+// Flatten nodes into runs of text separated by pauses
+const flatten = (nodes: MarkupNode[], directives: SpanDirective[], out: (Run | number)[]) => {
+  for (const node of nodes) {
+    if (node.type === 'text') out.push({ text: node.text, directives });
+    else if (node.type === 'pause') out.push(node.ms);
+    else flatten(node.children, [...directives, node.directive], out);
+  }
+};
+
+// Each directive covers the longest stretch of consecutive runs that carry it
+const spansOf = (runs: Run[]): MarkupSpan[] => {
+  const spans: MarkupSpan[] = [];
+  for (const directive of SPAN_DIRECTIVES) {
+    let current = '';
+    for (const run of [...runs, { text: '', directives: [] }]) {
+      if (run.directives.includes(directive)) {
+        current += run.text;
+      } else if (current.trim()) {
+        spans.push({ directive, text: current.trim() });
+        current = '';
+      }
+    }
+  }
+  return spans;
+};
+
+// Split one string at its pauses. Empty stretches are kept so pauses stay attached to the right place.
+const splitText = (text: string): { text: string; spans: MarkupSpan[]; pauseMs: number }[] => {
+  const items: (Run | number)[] = [];
+  flatten(parseMarkup(text).nodes, [], items);
+  const parts = [{ runs: [] as Run[], pauseMs: 0 }];
+  for (const item of items) {
+    if (typeof item === 'number') parts.push({ runs: [], pauseMs: item });
+    else parts[parts.length - 1].runs.push(item);
+  }
+  return parts.map(p => ({ text: p.runs.map(r => r.text).join('').trim(), spans: spansOf(p.runs), pauseMs: p.pauseMs }));
+};
+
+// Split text into pieces at every pause. In conversation mode markup is read per line and a line
+// broken by a pause repeats its "Name: (Emotion)" prefix so the continuation keeps speaker and tone.
+export const splitMarkup = (text: string, mode: 'single' | 'conversation'): SplitMarkup => {
+  const result: SplitMarkup = { leadingPauseMs: 0, pieces: [] };
+
+  const append = (value: string, spans: MarkupSpan[], pauseBeforeMs: number) => {
+    const last = result.pieces[result.pieces.length - 1];
+    if (pauseBeforeMs > 0) {
+      if (last) last.pauseAfterMs += pauseBeforeMs;
+      else result.leadingPauseMs += pauseBeforeMs;
+    }
+    if (!value) return;
+    if (last && last.pauseAfterMs === 0) {
+      last.text += '\n' + value;
+      last.spans.push(...spans);
+    } else {
+      result.pieces.push({ text: value, spans: [...spans], pauseAfterMs: 0 });
+    }
+  };
+
+  const lines = mode === 'conversation' ? text.split('\n') : [text];
+  for (const line of lines) {
+    const prefix = mode === 'conversation' ? line.match(/^[^:：\n[]{1,40}[:：]\s*(?:\([A-Za-z]+\)\s*)?/)?.[0] || '' : '';
+    splitText(line.slice(prefix.length)).forEach(part => {
+      append(part.text ? prefix + part.text : '', part.spans, part.pauseMs);
+    });
+  }
+  return result;
+};
+
+// Prompt lines for the spans whose text occurs in the chunk being sent
+export const spanDirections = (spans: MarkupSpan[], chunk: string): string[] =>
+  spans.filter(s => chunk.includes(s.text)).map(s => `${MARKUP_PROMPTS[s.directive]}: 「${s.text}」`);
@@ -0,0 +1,117 @@
+import { MixSettings } from "../types";
+import { detectSpeechSegments } from "./subtitles";
+import { t } from "./i18n";
+
+// Mixes speech over a music bed and placed sound effects, offline.
+// The music is ducked with gain automation planned from the speech's own silence detection,
+// so each ramp down can start `attack` before the speech rather than reacting after it.
+
+export interface MixClip {
+  name: string;
+  buffer: AudioBuffer;
+  start: number; // Seconds from the top of the mix
+  gainDb: number;
+}
+
+export interface MixInput {
+  speech: AudioBuffer;
+  music?: { name: string; buffer: AudioBuffer };
+  sfx: MixClip[];
+  settings: MixSettings;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Anything the browser can decode (WAV, MP3, AAC, OGG...) is accepted
+export const decodeAudioFile = async (file: File, ctx: BaseAudioContext): Promise<AudioBuffer> => {
+  try {
+    return await ctx.decodeAudioData(await file.arrayBuffer());
+  } catch (error) {
+    throw new Error(t('mix.decodeFailed', { name: file.name }), { cause: error });
+  }
+};
+
+// Stretches of speech to duck under, in seconds from the start of the speech.
+// Gaps too short for a full release and attack are bridged so the music doesn't pump.
+export const duckingRegions = (speech: AudioBuffer, settings: MixSettings) =>
+  detectSpeechSegments(speech, Math.max(0.2, (settings.attackMs + settings.releaseMs) / 1000));
+
+export const mixDuration = ({ speech, sfx, settings }: MixInput) =>
+  Math.max(
+    settings.leadInSeconds + speech.duration + settings.tailSeconds,
+    ...sfx.map(clip => clip.start + clip.buffer.duration),
+  );
+
+export const renderMix = async (input: MixInput): Promise<AudioBuffer> => {
+  const { speech, music, sfx, settings } = input;
+  const buffers = [speech, ...(music ? [music.buffer] : []), ...sfx.map(c => c.buffer)];
+  // Render at the best input rate so music isn't dragged down to the speech engine's 24 kHz
+  const sampleRate = Math.max(...buffers.map(b => b.sampleRate));
+  const channels = Math.min(2, Math.max(...buffers.map(b => b.numberOfChannels)));
+  const duration = mixDuration(input);
+  const ctx = new OfflineAudioContext(channels, Math.ceil(duration * sampleRate), sampleRate);
+  const speechStart = settings.leadInSeconds;
+  const speechEnd = speechStart + speech.duration;
+
+  const play = (buffer: AudioBuffer, when: number, gainDb = 0) => {
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    const gain = ctx.createGain();
+    gain.gain.value = dbToGain(gainDb);
+    source.connect(gain).connect(ctx.destination);
+    source.start(when);
+    return source;
+  };
+
+  play(speech, speechStart);
+  sfx.forEach(clip => play(clip.buffer, clip.start, clip.gainDb));
+
+  if (music) {
+    const source = ctx.createBufferSource();
+    source.buffer = music.buffer;
+    source.loop = settings.loopMusic;
+    const duck = ctx.createGain();
+    const fade = ctx.createGain();
+    source.connect(duck).connect(fade).connect(ctx.destination);
+
+    const base = dbToGain(settings.musicGainDb);
+    const ducked = base * dbToGain(settings.duckDb);
+    const attack = settings.attackMs / 1000;
+    const release = settings.releaseMs / 1000;
+    duck.gain.setValueAtTime(base, 0);
+    for (const region of duckingRegions(speech, settings)) {
+      const start = speechStart + region.start;
+      const end = speechStart + region.end;
+      duck.gain.setValueAtTime(base, Math.max(0, start - attack));
+      duck.gain.linearRampToValueAtTime(ducked, start);
+      duck.gain.setValueAtTime(ducked, end);
+      duck.gain.linearRampToValueAtTime(base, end + release);
+    }
+
+    // Fade the bed out over the tail instead of cutting it off
+    fade.gain.setValueAtTime(1, 0);
+    if (settings.tailSeconds > 0) {
+      fade.gain.setValueAtTime(1, speechEnd);
+      fade.gain.linearRampToValueAtTime(0, duration);
+    }
+    source.start(0);
+  }
+
+  const output = await ctx.startRendering();
+
+  // Summed sources can clip; pull the whole mix down to a -1 dBFS peak if they do
+  let peak = 0;
+  for (let c = 0; c < output.numberOfChannels; c++) {
+    const data = output.getChannelData(c);
+    for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+  }
+  const ceiling = dbToGain(-1);
+  if (peak > ceiling) {
+    const gain = ceiling / peak;
+    for (let c = 0; c < output.numberOfChannels; c++) {
+      const data = output.getChannelData(c);
+      for (let i = 0; i < data.length; i++) data[i] *= gain;
+    }
+  }
+  return output;
+};
@@ -0,0 +1,95 @@
+import { Emotion, VoiceOption } from "../types";
+import { BASE_VOICES } from "../constants";
+import { t } from "./i18n";
+
+// Shareable persona library file: { format, version, personas: VoiceOption[] }
+const LIBRARY_FORMAT = 'kanjo-personas';
+const LIBRARY_VERSION = 1;
+
+export const isPersona = (voice: VoiceOption) => !BASE_VOICES.some(v => v.id === voice.id);
+
+export const createPersona = (base: VoiceOption = BASE_VOICES[0]): VoiceOption => ({
+  name: t('persona.defaultName'),
+  id: `persona-${Date.now()}`,
+  apiName: base.apiName,
+  gender: base.gender,
+  description: '',
+});
+
+export const duplicatePersona = (persona: VoiceOption): VoiceOption => ({
+  ...persona,
+  id: `persona-${Date.now()}`,
+  name: t('common.copyOf', { name: persona.name }),
+});
+
+export const exportPersonaLibrary = (personas: VoiceOption[]): string =>
+  JSON.stringify({ format: LIBRARY_FORMAT, version: LIBRARY_VERSION, personas }, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEmotion = (value: unknown): value is Emotion => Object.values(Emotion).includes(value as Emotion);
+
+// Validate one entry; returns the reason it was rejected, or the cleaned persona
+const readPersona = (raw: unknown): VoiceOption | string => {
+  if (!isRecord(raw)) return t('persona.notObject');
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return t('persona.noName');
+  const base = BASE_VOICES.find(v => v.apiName === raw.apiName);
+  if (!base) return t('persona.unknownVoice', { voice: String(raw.apiName) });
+
+  const persona: VoiceOption = {
+    name: raw.name.trim(),
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `persona-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    apiName: base.apiName,
+    gender: raw.gender === 'Male' || raw.gender === 'Female' ? raw.gender : base.gender,
+    description: typeof raw.description === 'string' ? raw.description : '',
+  };
+  if (isEmotion(raw.defaultEmotion)) persona.defaultEmotion = raw.defaultEmotion;
+  return persona;
+};
+
+// Merge a shared library into ours: entries with the same id are replaced, new ones appended.
+// Base voice ids can't be overridden.
+export const importPersonaLibrary = (
+  text: string,
+  current: VoiceOption[],
+): { personas: VoiceOption[]; added: number; updated: number; errors: string[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { personas: current, added: 0, updated: 0, errors: [t('persona.notJson')] };
+  }
+
+  const entries = Array.isArray(data) ? data : isRecord(data) && data.format === LIBRARY_FORMAT ? data.personas : null;
+  if (!Array.isArray(entries)) {
+    return { personas: current, added: 0, updated: 0, errors: [t('persona.notLibrary')] };
+  }
+
+  const personas = [...current];
+  const errors: string[] = [];
+  let added = 0;
+  let updated = 0;
+
+  entries.forEach((raw, i) => {
+    const persona = readPersona(raw);
+    if (typeof persona === 'string') {
+      errors.push(t('persona.entryIssue', { index: i + 1, message: persona }));
+      return;
+    }
+    if (!isPersona(persona)) {
+      errors.push(t('persona.entryIssue', { index: i + 1, message: t('persona.baseVoiceId', { id: persona.id }) }));
+      return;
+    }
+    const index = personas.findIndex(p => p.id === persona.id);
+    if (index >= 0) {
+      personas[index] = persona;
+      updated++;
+    } else {
+      personas.push(persona);
+      added++;
+    }
+  });
+
+  return { personas, added, updated, errors };
+};
@@ -0,0 +1,221 @@
+import { GeneratedAudio, PostProcessPresetId, PostProcessSettings } from "../types";
+import { POST_PROCESS_PRESETS } from "../constants";
+
+// Offline effects chain for generated takes:
+//   silence trim -> high-pass -> low-pass -> 3-band EQ -> compressor -> room reverb -> loudness normalization
+// Filters, compression and reverb render through an OfflineAudioContext; trimming and gain are done on samples.
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+export const presetSettings = (id: PostProcessPresetId, custom: PostProcessSettings): PostProcessSettings =>
+  id === 'custom' ? custom : (POST_PROCESS_PRESETS.find(p => p.id === id) || POST_PROCESS_PRESETS[0]).settings;
+
+export const isPassThrough = (settings: PostProcessSettings) =>
+  !Object.values(settings).some(stage => stage.enabled);
+
+// Sample range left after removing leading/trailing audio below the threshold, plus padding
+const trimRange = (buffer: AudioBuffer, thresholdDb: number, paddingMs: number): [number, number] => {
+  const threshold = dbToGain(thresholdDb);
+  let start = buffer.length;
+  let end = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    let s = 0;
+    while (s < data.length && Math.abs(data[s]) < threshold) s++;
+    let e = data.length;
+    while (e > s && Math.abs(data[e - 1]) < threshold) e--;
+    start = Math.min(start, s);
+    end = Math.max(end, e);
+  }
+  if (start >= end) return [0, buffer.length];
+  const padding = Math.round(paddingMs / 1000 * buffer.sampleRate);
+  return [Math.max(0, start - padding), Math.min(buffer.length, end + padding)];
+};
+
+// Exponentially decaying noise, a cheap stand-in for a small room's impulse response
+const roomImpulse = (ctx: BaseAudioContext, decaySeconds: number): AudioBuffer => {
+  const length = Math.max(1, Math.round(decaySeconds * ctx.sampleRate));
+  const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let c = 0; c < 2; c++) {
+    const data = impulse.getChannelData(c);
+    for (let i = 0; i < length; i++) {
+      // -60 dB at the end of the decay
+      data[i] = (Math.random() * 2 - 1) * Math.pow(0.001, i / length);
+    }
+  }
+  return impulse;
+};
+
+// --- Loudness (ITU-R BS.1770): K-weighting, 400 ms blocks with 75% overlap, absolute and relative gates ---
+
+type Biquad = [number, number, number, number, number]; // b0, b1, b2, a1, a2 (a0 normalized to 1)
+
+// Filter coefficients derived for any sample rate, matching the 48 kHz reference values
+const kWeighting = (sampleRate: number): Biquad[] => {
+  const shelf = (() => {
+    const f0 = 1681.974450955533, gainDb = 3.999843853973347, q = 0.7071752369554196;
+    const k = Math.tan(Math.PI * f0 / sampleRate);
+    const vh = Math.pow(10, gainDb / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    const a0 = 1 + k / q + k * k;
+    return [(vh + vb * k / q + k * k) / a0, 2 * (k * k - vh) / a0, (vh - vb * k / q + k * k) / a0, 2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0] as Biquad;
+  })();
+  const highpass = (() => {
+    const f0 = 38.13547087602444, q = 0.5003270373238773;
+    const k = Math.tan(Math.PI * f0 / sampleRate);
+    const a0 = 1 + k / q + k * k;
+    return [1, -2, 1, 2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0] as Biquad;
+  })();
+  return [shelf, highpass];
+};
+
+const applyBiquad = (input: Float32Array, [b0, b1, b2, a1, a2]: Biquad): Float32Array => {
+  const out = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    out[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return out;
+};
+
+// Integrated loudness in LUFS; -Infinity for silence
+export const measureLoudness = (buffer: AudioBuffer): number => {
+  const filters = kWeighting(buffer.sampleRate);
+  const weighted = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    filters.reduce((data, f) => applyBiquad(data, f), buffer.getChannelData(c)));
+
+  const blockSize = Math.min(buffer.length, Math.round(0.4 * buffer.sampleRate));
+  const step = Math.max(1, Math.round(blockSize / 4));
+  const blocks: number[] = [];
+  for (let start = 0; start + blockSize <= buffer.length; start += step) {
+    let power = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) sum += data[i] * data[i];
+      power += sum / blockSize;
+    }
+    blocks.push(power);
+  }
+
+  const loudness = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const audible = blocks.filter(p => loudness(p) > -70);
+  if (audible.length === 0) return -Infinity;
+  const relativeGate = loudness(mean(audible)) - 10;
+  const gated = audible.filter(p => loudness(p) > relativeGate);
+  return loudness(mean(gated));
+};
+
+const peakOf = (buffer: AudioBuffer) => {
+  let peak = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+  }
+  return peak;
+};
+
+// Gain to reach the target loudness, reduced if it would push peaks past the ceiling
+const normalizeInPlace = (buffer: AudioBuffer, targetLufs: number, peakDb: number) => {
+  const lufs = measureLoudness(buffer);
+  const peak = peakOf(buffer);
+  if (!isFinite(lufs) || peak === 0) return;
+  const gain = Math.min(dbToGain(targetLufs - lufs), dbToGain(peakDb) / peak);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) data[i] *= gain;
+  }
+};
+
+export const processAudio = async (input: AudioBuffer, settings: PostProcessSettings): Promise<AudioBuffer> => {
+  if (isPassThrough(settings)) return input;
+  const { trim, highpass, lowpass, eq, compressor, reverb, normalize } = settings;
+
+  const [start, end] = trim.enabled ? trimRange(input, trim.thresholdDb, trim.paddingMs) : [0, input.length];
+  const tail = reverb.enabled ? Math.round(reverb.decaySeconds * input.sampleRate) : 0;
+  const ctx = new OfflineAudioContext(input.numberOfChannels, Math.max(1, end - start + tail), input.sampleRate);
+
+  const source = ctx.createBufferSource();
+  source.buffer = input;
+  let node: AudioNode = source;
+  const chain = (next: AudioNode) => {
+    node.connect(next);
+    node = next;
+  };
+
+  const biquad = (type: BiquadFilterType, frequency: number, gain = 0, q = 0.707) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = type;
+    // Keep filters below Nyquist; 24 kHz engine output tops out at 12 kHz
+    filter.frequency.value = Math.min(frequency, ctx.sampleRate / 2 - 100);
+    filter.gain.value = gain;
+    filter.Q.value = q;
+    return filter;
+  };
+
+  if (highpass.enabled) chain(biquad('highpass', highpass.frequency));
+  if (lowpass.enabled) chain(biquad('lowpass', lowpass.frequency));
+  if (eq.enabled) {
+    chain(biquad('lowshelf', 200, eq.lowGain));
+    chain(biquad('peaking', eq.midFrequency, eq.midGain, 1));
+    chain(biquad('highshelf', 6000, eq.highGain));
+  }
+  if (compressor.enabled) {
+    const comp = ctx.createDynamicsCompressor();
+    comp.threshold.value = compressor.thresholdDb;
+    comp.ratio.value = compressor.ratio;
+    comp.knee.value = 6;
+    comp.attack.value = compressor.attackMs / 1000;
+    comp.release.value = compressor.releaseMs / 1000;
+    chain(comp);
+  }
+  if (reverb.enabled && reverb.mix > 0) {
+    const dry = ctx.createGain();
+    const wet = ctx.createGain();
+    const convolver = ctx.createConvolver();
+    convolver.buffer = roomImpulse(ctx, reverb.decaySeconds);
+    dry.gain.value = 1 - reverb.mix;
+    wet.gain.value = reverb.mix;
+    node.connect(dry);
+    node.connect(convolver).connect(wet);
+    dry.connect(ctx.destination);
+    wet.connect(ctx.destination);
+  } else {
+    node.connect(ctx.destination);
+  }
+
+  source.start(0, start / input.sampleRate, (end - start) / input.sampleRate);
+  const output = await ctx.startRendering();
+  if (normalize.enabled) normalizeInPlace(output, normalize.targetLufs, normalize.peakDb);
+  return output;
+};
+
+// Re-run the chain from the unprocessed audio so presets never stack; 'none' restores the original.
+// Every take of a multi-take entry is processed the same way.
+export const withPostProcess = async (
+  item: GeneratedAudio,
+  preset: PostProcessPresetId,
+  settings: PostProcessSettings,
+): Promise<GeneratedAudio> => {
+  const { originalBuffer, postProcess, postProcessSettings, alternateTakes, ...rest } = item;
+  const off = preset === 'none' || isPassThrough(settings);
+
+  const process = async <T extends { audioBuffer: AudioBuffer; originalBuffer?: AudioBuffer }>(take: T) => {
+    const { originalBuffer, ...other } = take;
+    const source = originalBuffer || take.audioBuffer;
+    if (off) return { ...other, audioBuffer: source };
+    return { ...other, audioBuffer: await processAudio(source, settings), originalBuffer: source };
+  };
+
+  const result: GeneratedAudio = await process({ ...rest, originalBuffer });
+  if (alternateTakes) result.alternateTakes = await Promise.all(alternateTakes.map(process));
+  if (!off) {
+    result.postProcess = preset;
+    result.postProcessSettings = settings;
+  }
+  return result;
+};
@@ -0,0 +1,167 @@
+import { AlternateTake, GeneratedAudio, Project, ProjectState } from "../types";
+import { bufferToWav, decodeAudioData, decodeBase64, parseWav } from "./audioUtils";
+import { t } from "./i18n";
+import { deserialize, StoredAudio, StoredTake } from "./historyStore";
+import { createZip, readZip, ZipEntry } from "./zip";
+
+// History items created before projects existed belong to this one
+export const DEFAULT_PROJECT_ID = 'default';
+
+export const BUNDLE_EXTENSION = 'kanjo';
+const BUNDLE_FORMAT = 'kanjo-project';
+const BUNDLE_VERSION = 2;
+
+export const createProject = (name: string, state: ProjectState, id = `project-${Date.now()}`): Project => {
+  const now = Date.now();
+  return { ...state, id, name, createdAt: now, updatedAt: now };
+};
+
+export const projectStateOf = (project: Project): ProjectState => {
+  const { id, name, createdAt, updatedAt, ...state } = project;
+  return state;
+};
+
+export const belongsToProject = (item: Pick<GeneratedAudio, 'projectId'>, projectId: string) =>
+  (item.projectId || DEFAULT_PROJECT_ID) === projectId;
+
+// --- .kanjo bundle: a ZIP with project.json plus one 16-bit WAV per audio buffer ---
+// Version 1 bundles (gzip JSON with base64 float32 PCM) can still be imported.
+
+const MANIFEST_FILE = 'project.json';
+
+// Buffers are replaced by the names of their WAV files
+interface BundledBuffers {
+  audio: string;
+  original?: string;
+}
+
+type BundledTake = Omit<AlternateTake, 'audioBuffer' | 'originalBuffer'> & BundledBuffers;
+
+interface BundledAudio extends Omit<GeneratedAudio, 'audioBuffer' | 'originalBuffer' | 'alternateTakes'>, BundledBuffers {
+  alternateTakes?: BundledTake[];
+}
+
+interface ProjectBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  project: Project;
+  history: BundledAudio[];
+}
+
+export const exportProjectBundle = async (project: Project, items: GeneratedAudio[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  // Each buffer becomes its own file, so no single string ever holds the whole project
+  const addBuffers = async (path: string, audioBuffer: AudioBuffer, originalBuffer?: AudioBuffer): Promise<BundledBuffers> => {
+    const file = async (name: string, buffer: AudioBuffer) => {
+      entries.push({ name, data: new Uint8Array(await bufferToWav(buffer, 16).arrayBuffer()) });
+      return name;
+    };
+    return {
+      audio: await file(`${path}.wav`, audioBuffer),
+      original: originalBuffer && await file(`${path}-original.wav`, originalBuffer),
+    };
+  };
+
+  const history: BundledAudio[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const { audioBuffer, originalBuffer, alternateTakes, ...meta } = items[i];
+    const takes: BundledTake[] = [];
+    for (const { audioBuffer, originalBuffer, ...take } of alternateTakes || []) {
+      takes.push({ ...take, ...await addBuffers(`audio/${i + 1}-take${take.take}`, audioBuffer, originalBuffer) });
+    }
+    history.push({ ...meta, ...await addBuffers(`audio/${i + 1}`, audioBuffer, originalBuffer), alternateTakes: alternateTakes && takes });
+  }
+
+  const bundle: ProjectBundle = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, project, history };
+  return createZip([{ name: MANIFEST_FILE, data: JSON.stringify(bundle, null, 2) }, ...entries]);
+};
+
+// --- Version 1: Float32 channel data travels as base64 strings ---
+
+type Encoded<T> = Omit<T, 'channels' | 'originalChannels'> & { channels: string[]; originalChannels?: string[] };
+
+interface LegacyAudio extends Encoded<Omit<StoredAudio, 'alternateTakes'>> {
+  alternateTakes?: Encoded<StoredTake>[];
+}
+
+const fromBase64 = (base64: string) => {
+  const bytes = decodeBase64(base64);
+  return new Float32Array(bytes.buffer, 0, bytes.byteLength / 4);
+};
+
+const decode = <T extends { channels: string[]; originalChannels?: string[] }>(encoded: T) => ({
+  ...encoded,
+  channels: encoded.channels.map(fromBase64),
+  originalChannels: encoded.originalChannels?.map(fromBase64),
+});
+
+const pipeThrough = (data: BlobPart, stream: CompressionStream | DecompressionStream) =>
+  new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer();
+
+const parseBundle = (json: string) => {
+  let bundle: { format?: unknown; version: number; project: Project; history?: unknown[] };
+  try {
+    bundle = JSON.parse(json);
+  } catch {
+    throw new Error(t('project.unreadable'));
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || !bundle.project) {
+    throw new Error(t('project.notBundle'));
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error(t('project.newerVersion'));
+  }
+  return bundle;
+};
+
+// Imported projects and items get fresh ids so importing the same bundle twice never overwrites anything
+export const importProjectBundle = async (
+  file: Blob,
+  ctx: BaseAudioContext,
+): Promise<{ project: Project; items: GeneratedAudio[] }> => {
+  const raw = new Uint8Array(await file.arrayBuffer());
+  const isZip = raw[0] === 0x50 && raw[1] === 0x4b; // "PK"
+  const isGzip = raw[0] === 0x1f && raw[1] === 0x8b;
+  const files = isZip ? new Map(readZip(raw).map(entry => [entry.name, entry.data as Uint8Array])) : undefined;
+  const manifest = files?.get(MANIFEST_FILE);
+  if (isZip && !manifest) throw new Error(t('project.notBundle'));
+  const json = new TextDecoder().decode(manifest || (isGzip ? await pipeThrough(raw, new DecompressionStream('gzip')) : raw));
+  const bundle = parseBundle(json);
+
+  const stamp = Date.now();
+  const project: Project = { ...bundle.project, id: `project-${stamp}`, updatedAt: stamp };
+  const fresh = (i: number) => ({ id: `${stamp}-${i}`, projectId: project.id });
+
+  if (!files) {
+    const history = (bundle.history || []) as LegacyAudio[];
+    const items = history.map((record, i) => deserialize({
+      ...decode(record),
+      ...fresh(i),
+      alternateTakes: record.alternateTakes?.map(decode),
+    }, ctx));
+    return { project, items };
+  }
+
+  const load = async (name: string) => {
+    const data = files.get(name);
+    if (!data) throw new Error(t('project.unreadable'));
+    const { pcm, sampleRate, numChannels } = parseWav(data.slice().buffer);
+    return decodeAudioData(pcm, ctx, sampleRate, numChannels);
+  };
+  const loadBuffers = async ({ audio, original }: BundledBuffers) => ({
+    audioBuffer: await load(audio),
+    originalBuffer: original ? await load(original) : undefined,
+  });
+
+  const items: GeneratedAudio[] = [];
+  const history = (bundle.history || []) as BundledAudio[];
+  for (let i = 0; i < history.length; i++) {
+    const { audio, original, alternateTakes, ...meta } = history[i];
+    const takes: AlternateTake[] = [];
+    for (const { audio, original, ...take } of alternateTakes || []) {
+      takes.push({ ...take, ...await loadBuffers({ audio, original }) });
+    }
+    items.push({ ...meta, ...await loadBuffers({ audio, original }), ...fresh(i), alternateTakes: alternateTakes && takes });
+  }
+  return { project, items };
+};
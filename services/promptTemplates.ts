@@ -0,0 +1,85 @@
+import { AppMode, MessageKey, PromptTemplate, PromptTemplateRef } from "../types";
+import { DEFAULT_PROMPT_TEMPLATE_IDS, DEFAULT_PROMPT_TEMPLATES } from "../constants";
+import { t } from "./i18n";
+
+// Directing prompts as editable templates.
+// `{{name}}` inserts a variable; `{{#name}}...{{/name}}` keeps its contents only when the variable is non-empty.
+// pronunciation, lineDirections, delivery and continuity are prepared lines that are empty when they don't apply.
+
+export const PROMPT_VARIABLES: Record<AppMode, { name: string; label: MessageKey }[]> = {
+  single: [
+    { name: 'text', label: 'template.var.text' },
+    { name: 'emotionPrompt', label: 'template.var.emotionPrompt' },
+    { name: 'character', label: 'template.var.character' },
+    { name: 'context', label: 'template.var.description' },
+    { name: 'persona', label: 'template.var.persona' },
+    { name: 'voice', label: 'template.var.voice' },
+    { name: 'language', label: 'template.var.language' },
+    { name: 'fillers', label: 'template.var.fillers' },
+    { name: 'pronunciation', label: 'template.var.pronunciation' },
+    { name: 'delivery', label: 'template.var.delivery' },
+    { name: 'continuity', label: 'template.var.continuity' },
+  ],
+  conversation: [
+    { name: 'text', label: 'template.var.script' },
+    { name: 'speakerA', label: 'template.var.speakerA' },
+    { name: 'speakerB', label: 'template.var.speakerB' },
+    { name: 'context', label: 'template.var.situation' },
+    { name: 'characters', label: 'template.var.characters' },
+    { name: 'language', label: 'template.var.language' },
+    { name: 'fillers', label: 'template.var.fillers' },
+    { name: 'pronunciation', label: 'template.var.pronunciation' },
+    { name: 'lineDirections', label: 'template.var.lineDirections' },
+    { name: 'delivery', label: 'template.var.delivery' },
+    { name: 'continuity', label: 'template.var.continuity' },
+  ],
+};
+
+const SECTION = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Lines left empty by missing variables collapse so the prompt doesn't fill up with blank runs
+export const renderPrompt = (body: string, variables: Record<string, string>): string =>
+  body
+    .replace(SECTION, (_m, name, inner) => variables[name]?.trim() ? inner : '')
+    .replace(VARIABLE, (match, name) => name in variables ? variables[name] : match)
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// Names used in the body that the mode doesn't provide (likely typos)
+export const unknownVariables = (body: string, mode: AppMode): string[] => {
+  const known = new Set(PROMPT_VARIABLES[mode].map(v => v.name));
+  const used = [...body.matchAll(VARIABLE), ...body.matchAll(/\{\{[#/](\w+)\}\}/g)].map(m => m[1]);
+  return [...new Set(used.filter(name => !known.has(name)))];
+};
+
+export const defaultTemplate = (mode: AppMode): PromptTemplate =>
+  DEFAULT_PROMPT_TEMPLATES.find(template => template.id === DEFAULT_PROMPT_TEMPLATE_IDS[mode])!;
+
+// The selected template for a mode, falling back to the default when it was deleted or belongs to the other mode
+export const resolveTemplate = (templates: PromptTemplate[], mode: AppMode, id?: string): PromptTemplate =>
+  templates.find(template => template.id === id && template.mode === mode) || defaultTemplate(mode);
+
+export const templateRef = ({ id, name, version }: PromptTemplate): PromptTemplateRef => ({ id, name, version });
+
+const BUILT_IN_NAMES: Record<AppMode, MessageKey> = {
+  single: 'template.defaultSingle',
+  conversation: 'template.defaultConversation',
+};
+
+// Built-in templates are named in the UI language; user templates keep the name they were given
+export const templateName = ({ id, name }: { id: string; name: string }) => {
+  const mode = (Object.keys(DEFAULT_PROMPT_TEMPLATE_IDS) as AppMode[]).find(m => DEFAULT_PROMPT_TEMPLATE_IDS[m] === id);
+  return mode ? t(BUILT_IN_NAMES[mode]) : name;
+};
+
+export const formatTemplateRef = (ref: PromptTemplateRef) => `${templateName(ref)} v${ref.version}`;
+
+export const duplicateTemplate = (source: PromptTemplate): PromptTemplate => ({
+  id: `prompt-${Date.now()}`,
+  name: t('common.copyOf', { name: templateName(source) }),
+  mode: source.mode,
+  body: source.body,
+  version: 1,
+});
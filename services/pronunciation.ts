@@ -0,0 +1,95 @@
+import { LexiconEntry } from "../types";
+import { formatCsv, parseCsvRows } from "./csv";
+import { t } from "./i18n";
+
+// Reading overrides applied to text before it is sent for synthesis:
+//   1. inline ruby: |東雲《しののめ》 (explicit base) or 漢字《かんじ》 (base = the kanji run before 《)
+//   2. the user lexicon, longest surface form first
+// The text the user wrote (ruby included) is what history and the editor keep.
+
+const RUBY = /[|｜]([^|｜《》\n]+)《([^《》\n]+)》|([\u3400-\u9FFF\uF900-\uFAFF々〆〇ヶ]+)《([^《》\n]+)》/g;
+
+export interface RubySegment {
+  text: string;
+  reading?: string;
+}
+
+// Split text into plain and ruby-annotated segments, for display
+export const splitRuby = (text: string): RubySegment[] => {
+  const segments: RubySegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(RUBY)) {
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+    segments.push({ text: match[1] ?? match[3], reading: match[2] ?? match[4] });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
+
+// Text as it should appear on screen or in subtitles (ruby readings removed)
+export const stripRuby = (text: string) => text.replace(RUBY, (_m, base1, _r1, base2) => base1 ?? base2);
+
+const applyRuby = (text: string) => text.replace(RUBY, (_m, _b1, reading1, _b2, reading2) => reading1 ?? reading2);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface PreparedText {
+  text: string; // What the speech engine receives
+  notes: string[]; // Accent notes for the lexicon words that occur
+}
+
+export const preparePronunciation = (text: string, lexicon: LexiconEntry[]): PreparedText => {
+  let result = applyRuby(text);
+  const notes: string[] = [];
+  const entries = lexicon
+    .filter(e => e.surface.trim() && e.reading.trim())
+    .sort((a, b) => b.surface.length - a.surface.length);
+
+  if (entries.length > 0) {
+    // One alternation so a replaced reading is never matched again by a shorter entry
+    const pattern = new RegExp(entries.map(e => escapeRegExp(e.surface.trim())).join('|'), 'g');
+    const bySurface = new Map(entries.map(e => [e.surface.trim(), e]));
+    result = result.replace(pattern, surface => {
+      const entry = bySurface.get(surface)!;
+      const note = entry.accent?.trim() && `${entry.reading} (${entry.surface}): ${entry.accent.trim()}`;
+      if (note && !notes.includes(note)) notes.push(note);
+      return entry.reading;
+    });
+  }
+  return { text: result, notes };
+};
+
+// --- CSV: surface,reading,accent ---
+
+const HEADER = ['surface', 'reading', 'accent'];
+const HEADER_ALIASES = ['surface', '表記', '単語', '語'];
+
+export const importLexiconCsv = (text: string, current: LexiconEntry[]): { entries: LexiconEntry[]; issues: string[] } => {
+  const rows = parseCsvRows(text);
+  if (rows[0] && HEADER_ALIASES.includes(rows[0].cells[0]?.trim().toLowerCase())) rows.shift();
+
+  const entries = [...current];
+  const issues: string[] = [];
+  rows.forEach((row, i) => {
+    const [surface = '', reading = '', accent = ''] = row.cells.map(c => c.trim());
+    if (!surface || !reading) {
+      issues.push(t('lexicon.missingFields', { row: row.line }));
+      return;
+    }
+    if (!/^[\u3040-\u30FFー・\s]+$/.test(reading)) {
+      issues.push(t('lexicon.notKana', { row: row.line, reading }));
+      return;
+    }
+    // Later rows win over existing entries with the same surface form
+    const entry: LexiconEntry = { id: `lex-${Date.now()}-${i}`, surface, reading };
+    if (accent) entry.accent = accent;
+    const existing = entries.findIndex(e => e.surface === surface);
+    if (existing >= 0) entries[existing] = { ...entry, id: entries[existing].id };
+    else entries.push(entry);
+  });
+  return { entries, issues };
+};
+
+export const exportLexiconCsv = (lexicon: LexiconEntry[]): string =>
+  formatCsv(HEADER, lexicon.map(e => [e.surface, e.reading, e.accent || '']));
@@ -0,0 +1,121 @@
+import { CastMember, ConversationLine, Emotion } from "../types";
+import { translations } from "./i18n";
+
+// Plain-text script format used by the script editor:
+//   名前: セリフ
+//   名前: (Happy) 感情を指定したセリフ
+//   名前A & 名前B: 二人同時のセリフ
+// Speakers can also be referred to by position (A/B/C... or 1/2/3...).
+
+const LEGACY_BOTH = /^(Both|二人|2人)$/i;
+const EMOTION_TAG = /^[(（]([^()（）]{1,12})[)）]\s*/; // Validated by parseEmotion, so "(喜び)" works too
+
+// Accepts the enum value ("Happy"), its label in any locale ("喜び") or a tag ("(Happy)")
+export const parseEmotion = (value: string): Emotion | undefined => {
+  const key = value.trim().replace(/^\((.*)\)$/, '$1').trim().toLowerCase();
+  if (!key) return undefined;
+  return Object.values(Emotion).find(e => e.toLowerCase() === key || translations(`emotion.${e}`).some(label => label.toLowerCase() === key));
+};
+
+// Split a leading emotion tag off a line's text
+export const splitEmotionTag = (text: string): { emotion?: Emotion; text: string } => {
+  const match = text.match(EMOTION_TAG);
+  const emotion = match ? parseEmotion(match[1]) : undefined;
+  return emotion ? { emotion, text: text.slice(match![0].length) } : { text };
+};
+
+export const lineSpeakerLabel = (line: ConversationLine, cast: CastMember[]): string => {
+  const name = (id: string) => cast.find(m => m.id === id)?.name || id;
+  return line.partner ? `${name(line.speaker)} & ${name(line.partner)}` : name(line.speaker);
+};
+
+// A line's emotion is written as a leading tag, which is also how generateSpeech reads it
+export const formatLine = (line: ConversationLine, cast: CastMember[]): string =>
+  `${lineSpeakerLabel(line, cast)}: ${line.emotion ? `(${line.emotion}) ` : ''}${line.text}`;
+
+export const formatScript = (lines: ConversationLine[], cast: CastMember[]): string =>
+  lines.map(line => formatLine(line, cast)).join('\n');
+
+// Cast member id for a character name: exact match first, then ignoring case
+export const castIdByName = (ref: string, cast: CastMember[]): string | undefined => {
+  const key = ref.trim();
+  return (cast.find(m => m.name === key) || cast.find(m => m.name.toLowerCase() === key.toLowerCase()))?.id;
+};
+
+// Split "A & B" into speaker references; a line can be spoken by at most two of them
+export const splitSpeakerRefs = (label: string) => label.split(/[&＆]/).map(r => r.trim()).filter(Boolean);
+
+// Resolve a speaker reference to a cast member id: by name, then by letter or number position
+const resolveSpeaker = (ref: string, cast: CastMember[]): string | undefined => {
+  const key = ref.trim();
+  const byName = castIdByName(key, cast);
+  if (byName) return byName;
+
+  if (/^[A-Z]$/i.test(key)) return cast[key.toUpperCase().charCodeAt(0) - 65]?.id;
+  if (/^[0-9]+$/.test(key)) return cast[parseInt(key, 10) - 1]?.id;
+  return undefined;
+};
+
+// Split "Name: text" into speaker/partner ids for the script editor.
+// Returns null when the prefix names nobody in the cast or more than two speakers.
+export const parseSpeakerPrefix = (
+  prefix: string,
+  cast: CastMember[],
+): { speaker: string; partner?: string } | null => {
+  if (LEGACY_BOTH.test(prefix.trim()) && cast.length >= 2) {
+    return { speaker: cast[0].id, partner: cast[1].id };
+  }
+
+  const refs = splitSpeakerRefs(prefix);
+  if (refs.length > 2) return null;
+  const ids = refs.map(r => resolveSpeaker(r, cast));
+  if (ids.length === 0 || ids.some(id => !id)) return null;
+  return ids.length === 1 ? { speaker: ids[0]! } : { speaker: ids[0]!, partner: ids[1]! };
+};
+
+// `previous` supplies IDs by position so edits in the text editor keep line identity
+export const parseScript = (
+  text: string,
+  cast: CastMember[],
+  previous: ConversationLine[] = [],
+): ConversationLine[] => {
+  const rows = text.split('\n').map(row => row.trim()).filter(Boolean);
+
+  return rows.map((row, idx) => {
+    let speaker = cast[0]?.id || 'A'; // Default
+    let partner: string | undefined;
+    let content = row;
+
+    const match = row.match(/^([^:：]{1,40})[:：]\s*(.*)$/);
+    if (match) {
+      const resolved = parseSpeakerPrefix(match[1], cast);
+      if (resolved) {
+        speaker = resolved.speaker;
+        partner = resolved.partner;
+        content = match[2].trim();
+      }
+    }
+
+    const { emotion, text: spoken } = splitEmotionTag(content);
+    if (!spoken) return null;
+
+    const line: ConversationLine = {
+      id: previous[idx]?.id || `script-${idx}-${Date.now()}`,
+      speaker,
+      text: spoken,
+    };
+    if (partner) line.partner = partner;
+    if (emotion) line.emotion = emotion;
+    return line;
+  }).filter(Boolean) as ConversationLine[];
+};
+
+// Lines saved before casts existed used speaker 'Both' for lines spoken together,
+// and lines saved before per-line emotions kept the emotion as a tag in the text.
+// Returns the same object when nothing needs migrating.
+export const normalizeLine = (line: ConversationLine): ConversationLine => {
+  let result = line.speaker === 'Both' ? { ...line, speaker: 'A', partner: 'B' } : line;
+  const { emotion, text } = splitEmotionTag(result.text);
+  if (emotion && !result.emotion && text) result = { ...result, emotion, text };
+  return result;
+};
@@ -0,0 +1,331 @@
+import { CastMember, ConversationLine, Emotion } from "../types";
+import { BASE_VOICES } from "../constants";
+import { castIdByName, lineSpeakerLabel, parseEmotion, splitEmotionTag, splitSpeakerRefs } from "./scriptFormat";
+import { formatCsv, parseCsvRows } from "./csv";
+import { t } from "./i18n";
+
+// Import/export of conversation scripts in formats writers already use:
+//   Fountain screenplays, spreadsheets (CSV: speaker,text,emotion) and a JSON document.
+// Each line's emotion maps to a column (CSV), a parenthetical (Fountain) or a field (JSON).
+
+export type ScriptFileFormat = 'fountain' | 'csv' | 'json';
+
+export const SCRIPT_FILE_FORMATS: { id: ScriptFileFormat; label: string; extension: string; mime: string }[] = [
+  { id: 'fountain', label: 'Fountain', extension: 'fountain', mime: 'text/plain' },
+  { id: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv' },
+  { id: 'json', label: 'JSON', extension: 'json', mime: 'application/json' },
+];
+
+// A row that could not be imported as written. `row` is 1-based (source line for text formats, array index for JSON).
+export interface ScriptIssue {
+  row: number;
+  message: string;
+}
+
+export interface ScriptImportResult {
+  lines: ConversationLine[];
+  cast: CastMember[]; // Existing cast plus any characters the script introduced
+  issues: ScriptIssue[];
+}
+
+// JSON Schema (draft-07) of the exported document. `lines` follows ConversationLine; speaker/partner are cast ids.
+export const SCRIPT_JSON_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Kanjo Voice conversation script',
+  type: 'object',
+  required: ['lines'],
+  properties: {
+    version: { const: 1 },
+    cast: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'name'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          voiceId: { type: 'string' },
+        },
+      },
+    },
+    lines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['speaker', 'text'],
+        properties: {
+          id: { type: 'string' },
+          speaker: { type: 'string', description: 'Cast id, or a character name when no cast is given' },
+          partner: { type: 'string' },
+          text: { type: 'string', minLength: 1 },
+          emotion: { type: 'string', enum: Object.values(Emotion) },
+        },
+      },
+    },
+  },
+} as const;
+
+// Maps character names to cast ids, adding a cast member (with an unused voice) for each new name.
+// Names only: positions ("A", "2") and "Both" belong to the script editor, not to imported files.
+const createCastResolver = (initial: CastMember[]) => {
+  const cast = [...initial];
+
+  const addMember = (name: string): string => {
+    const used = new Set(cast.map(m => m.voiceId));
+    const voice = BASE_VOICES.find(v => !used.has(v.id)) || BASE_VOICES[cast.length % BASE_VOICES.length];
+    const member = { id: `cast-${Date.now()}-${cast.length}`, name, voiceId: voice.id };
+    cast.push(member);
+    return member.id;
+  };
+
+  // Returns the reason when the label can't be used
+  const resolve = (label: string): { speaker: string; partner?: string } | string => {
+    const refs = splitSpeakerRefs(label);
+    if (refs.length === 0) return t('import.emptySpeaker');
+    if (refs.length > 2) return t('import.tooManySpeakers', { speaker: label.trim() });
+    const ids = refs.map(ref => castIdByName(ref, cast) || addMember(ref));
+    return ids.length === 1 ? { speaker: ids[0] } : { speaker: ids[0], partner: ids[1] };
+  };
+
+  return { cast, resolve };
+};
+
+// An explicit emotion (column, parenthetical, field) wins over a tag left at the start of the text
+const makeLine = (
+  index: number,
+  speaker: { speaker: string; partner?: string },
+  body: string,
+  emotion?: Emotion,
+): ConversationLine => {
+  const split = splitEmotionTag(body);
+  const line: ConversationLine = { id: `import-${index}-${Date.now()}`, speaker: speaker.speaker, text: split.text };
+  if (speaker.partner) line.partner = speaker.partner;
+  if (emotion || split.emotion) line.emotion = emotion || split.emotion;
+  return line;
+};
+
+// --- CSV ---
+
+const HEADER_ALIASES: Record<'speaker' | 'text' | 'emotion', string[]> = {
+  speaker: ['speaker', 'character', 'name', '話者', '名前', 'キャラクター', '役'],
+  text: ['text', 'line', 'dialogue', 'セリフ', '台詞', 'テキスト'],
+  emotion: ['emotion', '感情'],
+};
+
+export const importCsv = (text: string, cast: CastMember[]): ScriptImportResult => {
+  const rows = parseCsvRows(text);
+  const resolver = createCastResolver(cast);
+  const issues: ScriptIssue[] = [];
+  const lines: ConversationLine[] = [];
+
+  // Column order comes from the header when there is one, otherwise speaker,text,emotion
+  let columns = { speaker: 0, text: 1, emotion: 2 };
+  const header = rows[0]?.cells.map(c => c.trim().toLowerCase());
+  if (header && HEADER_ALIASES.text.some(alias => header.includes(alias))) {
+    const find = (key: keyof typeof HEADER_ALIASES) => header.findIndex(c => HEADER_ALIASES[key].includes(c));
+    columns = { speaker: find('speaker'), text: find('text'), emotion: find('emotion') };
+    rows.shift();
+    if (columns.speaker === -1) issues.push({ row: 1, message: t('import.noSpeakerColumn') });
+  }
+
+  for (const row of rows) {
+    const label = row.cells[columns.speaker]?.trim() || '';
+    const body = row.cells[columns.text]?.trim() || '';
+    const emotionCell = columns.emotion >= 0 ? row.cells[columns.emotion]?.trim() || '' : '';
+
+    if (!body) {
+      issues.push({ row: row.line, message: t('import.emptyLine') });
+      continue;
+    }
+    const speaker = resolver.resolve(label);
+    if (typeof speaker === 'string') {
+      issues.push({ row: row.line, message: speaker });
+      continue;
+    }
+    const emotion = emotionCell ? parseEmotion(emotionCell) : undefined;
+    if (emotionCell && !emotion) issues.push({ row: row.line, message: t('import.unknownEmotion', { emotion: emotionCell }) });
+
+    lines.push(makeLine(lines.length, speaker, body, emotion));
+  }
+
+  return { lines, cast: resolver.cast, issues };
+};
+
+export const exportCsv = (lines: ConversationLine[], cast: CastMember[]): string =>
+  formatCsv(['speaker', 'text', 'emotion'], lines.map(line => [lineSpeakerLabel(line, cast), line.text, line.emotion || '']));
+
+// --- Fountain ---
+
+// Character cues: "@Name" forces one (needed for non-Latin names); otherwise an all-caps line
+const CHARACTER_EXTENSION = /\s*\((V\.O\.|O\.S\.|O\.C\.|CONT'D|CONT’D|cont'd|OFF)\)\s*$/;
+const SCENE_HEADING = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+
+const isCharacterCue = (row: string) => {
+  if (row.startsWith('@')) return true;
+  const name = row.replace(CHARACTER_EXTENSION, '').replace(/\s*\^$/, '');
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && !SCENE_HEADING.test(name) && !/(TO:|^>)/.test(name);
+};
+
+// Strip boneyard /* */ and notes [[ ]], keeping line count so row numbers stay accurate
+const stripFountainComments = (text: string) =>
+  text
+    .replace(/\/\*[\s\S]*?\*\//g, m => m.replace(/[^\n]/g, ''))
+    .replace(/\[\[[\s\S]*?\]\]/g, m => m.replace(/[^\n]/g, ''));
+
+export const importFountain = (text: string, cast: CastMember[]): ScriptImportResult => {
+  const rows = stripFountainComments(text.replace(/^﻿/, '')).split(/\r?\n/);
+  const resolver = createCastResolver(cast);
+  const issues: ScriptIssue[] = [];
+  const lines: ConversationLine[] = [];
+
+  let i = 0;
+  // Title page: "Key: value" rows up to the first blank line
+  if (/^[A-Za-z ]+:/.test(rows[0] || '')) {
+    while (i < rows.length && rows[i].trim()) i++;
+  }
+
+  for (; i < rows.length; i++) {
+    const row = rows[i].trim();
+    const previousBlank = i === 0 || !rows[i - 1].trim();
+    const next = rows[i + 1]?.trim();
+    if (!row || !previousBlank || !next || !isCharacterCue(row)) continue;
+
+    const cueRow = i + 1;
+    const label = row.replace(/^@/, '').replace(/\s*\^$/, '').replace(CHARACTER_EXTENSION, '').trim();
+    let emotion: Emotion | undefined;
+    const dialogue: string[] = [];
+
+    for (i++; i < rows.length && rows[i].trim(); i++) {
+      const part = rows[i].trim();
+      const parenthetical = part.match(/^\((.*)\)$/);
+      if (parenthetical) {
+        const parsed = parseEmotion(parenthetical[1]);
+        if (parsed) emotion = parsed;
+        else issues.push({ row: i + 1, message: t('import.actionSkipped', { text: part }) });
+        continue;
+      }
+      dialogue.push(part);
+    }
+
+    const body = dialogue.join(' ').trim();
+    if (!body) {
+      issues.push({ row: cueRow, message: t('import.noDialogue', { speaker: label }) });
+      continue;
+    }
+    const speaker = resolver.resolve(label);
+    if (typeof speaker === 'string') {
+      issues.push({ row: cueRow, message: speaker });
+      continue;
+    }
+    lines.push(makeLine(lines.length, speaker, body, emotion));
+  }
+
+  if (lines.length === 0 && issues.length === 0) {
+    issues.push({ row: 1, message: t('import.noCues') });
+  }
+  return { lines, cast: resolver.cast, issues };
+};
+
+export const exportFountain = (lines: ConversationLine[], cast: CastMember[], title = 'Kanjo Voice Script'): string => {
+  const blocks = lines.map(line => {
+    const label = lineSpeakerLabel(line, cast);
+    // All-caps Latin names are cues by themselves; anything else needs the @ prefix
+    const cue = /^[A-Z][A-Z0-9 .'&-]*$/.test(label) ? label : `@${label}`;
+    return [cue, ...(line.emotion ? [`(${line.emotion})`] : []), line.text].join('\n');
+  });
+  return [`Title: ${title}`, '', ...blocks.flatMap(block => [block, ''])].join('\n');
+};
+
+// --- JSON ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts the exported document or a bare ConversationLine[] whose speakers are character names
+export const importJsonScript = (text: string, cast: CastMember[]): ScriptImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^﻿/, ''));
+  } catch (error: any) {
+    return { lines: [], cast, issues: [{ row: 1, message: t('import.notJson', { message: error.message }) }] };
+  }
+
+  const resolver = createCastResolver(cast);
+  const issues: ScriptIssue[] = [];
+  const lines: ConversationLine[] = [];
+  const rawLines = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.lines) ? data.lines : null;
+  if (!rawLines) {
+    return { lines: [], cast, issues: [{ row: 1, message: t('import.noLines') }] };
+  }
+
+  // Ids in the file's own cast are translated to names, then matched against ours
+  const fileCast = isRecord(data) && Array.isArray(data.cast) ? data.cast.filter(isRecord) : [];
+  const nameOf = (ref: string) => {
+    const member = fileCast.find(m => m.id === ref);
+    return typeof member?.name === 'string' ? member.name : ref;
+  };
+
+  rawLines.forEach((raw, index) => {
+    const row = index + 1;
+    if (!isRecord(raw)) {
+      issues.push({ row, message: t('import.notObject') });
+      return;
+    }
+    if (typeof raw.text !== 'string' || !raw.text.trim()) {
+      issues.push({ row, message: t('import.badText') });
+      return;
+    }
+    if (typeof raw.speaker !== 'string' || (raw.partner !== undefined && typeof raw.partner !== 'string')) {
+      issues.push({ row, message: t('import.badSpeaker') });
+      return;
+    }
+    const label = raw.partner ? `${nameOf(raw.speaker)} & ${nameOf(raw.partner as string)}` : nameOf(raw.speaker);
+    const speaker = resolver.resolve(label);
+    if (typeof speaker === 'string') {
+      issues.push({ row, message: speaker });
+      return;
+    }
+    const emotion = typeof raw.emotion === 'string' ? parseEmotion(raw.emotion) : undefined;
+    if (raw.emotion !== undefined && !emotion) issues.push({ row, message: t('import.unknownEmotion', { emotion: String(raw.emotion) }) });
+
+    lines.push(makeLine(index, speaker, raw.text.trim(), emotion));
+  });
+
+  return { lines, cast: resolver.cast, issues };
+};
+
+export const exportJsonScript = (lines: ConversationLine[], cast: CastMember[]): string => {
+  const used = new Set(lines.flatMap(line => [line.speaker, line.partner]));
+  const doc = {
+    version: 1,
+    cast: cast.filter(m => used.has(m.id)).map(({ id, name, voiceId }) => ({ id, name, voiceId })),
+    lines: lines.map(({ id, speaker, partner, text, emotion }) => ({ id, speaker, partner, text, emotion })),
+  };
+  return JSON.stringify(doc, null, 2);
+};
+
+// --- Dispatch ---
+
+export const detectScriptFormat = (filename: string, text: string): ScriptFileFormat => {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  if (ext === 'json') return 'json';
+  if (ext === 'csv') return 'csv';
+  if (ext === 'fountain' || ext === 'spmd') return 'fountain';
+  return /^\s*[[{]/.test(text) ? 'json' : 'fountain';
+};
+
+export const importScript = (text: string, format: ScriptFileFormat, cast: CastMember[]): ScriptImportResult => {
+  switch (format) {
+    case 'csv': return importCsv(text, cast);
+    case 'json': return importJsonScript(text, cast);
+    default: return importFountain(text, cast);
+  }
+};
+
+export const exportScript = (lines: ConversationLine[], cast: CastMember[], format: ScriptFileFormat): string => {
+  switch (format) {
+    case 'csv': return exportCsv(lines, cast);
+    case 'json': return exportJsonScript(lines, cast);
+    default: return exportFountain(lines, cast);
+  }
+};
@@ -0,0 +1,162 @@
+// Typed failures for speech generation, plus retry/backoff helpers.
+// Providers throw (or are classified into) these so the UI can react per kind instead of showing raw messages.
+
+import { t } from "./i18n";
+
+export type SpeechErrorKind = 'invalidKey' | 'rateLimit' | 'quotaExceeded' | 'safety' | 'network' | 'decode' | 'cancelled' | 'unknown';
+
+export class SpeechError extends Error {
+  readonly kind: SpeechErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: SpeechErrorKind, message: string, options: { retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'SpeechError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+export class InvalidApiKeyError extends SpeechError {
+  constructor(message = "API key was rejected", cause?: unknown) {
+    super('invalidKey', message, { cause });
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class RateLimitError extends SpeechError {
+  constructor(message = "Rate limit or quota exceeded", cause?: unknown) {
+    super('rateLimit', message, { retryable: true, cause });
+    this.name = 'RateLimitError';
+  }
+}
+
+// A daily or project quota is used up; retrying before it resets only burns time
+export class QuotaExceededError extends SpeechError {
+  constructor(message = "Daily or project quota exhausted", cause?: unknown) {
+    super('quotaExceeded', message, { cause });
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// Covers both explicit safety blocks and responses that simply contain no audio
+export class SafetyBlockError extends SpeechError {
+  constructor(message = "No audio returned (blocked or empty candidate)", cause?: unknown) {
+    super('safety', message, { cause });
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class NetworkError extends SpeechError {
+  constructor(message = "Network request failed", cause?: unknown) {
+    super('network', message, { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class AudioDecodeError extends SpeechError {
+  constructor(message = "Could not decode audio data", cause?: unknown) {
+    super('decode', message, { cause });
+    this.name = 'AudioDecodeError';
+  }
+}
+
+export class GenerationCancelledError extends SpeechError {
+  constructor() {
+    super('cancelled', "Generation was cancelled");
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+// Map anything thrown by an SDK, fetch or our own code onto a SpeechError
+export const classifyError = (error: unknown): SpeechError => {
+  if (error instanceof SpeechError) return error;
+
+  const err = error as { name?: string; message?: string; status?: number };
+  const message = err?.message || String(error);
+
+  if (err?.name === 'AbortError') return new GenerationCancelledError();
+
+  const status = typeof err?.status === 'number' ? err.status : undefined;
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) {
+    return new InvalidApiKeyError(message, error);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    // 429s name the quota that ran out, e.g. "GenerateRequestsPerDayPerProjectPerModel"; only per-minute limits clear by waiting
+    if (/PerDay|per day|daily/i.test(message) && !/PerMinute|per minute/i.test(message)) {
+      return new QuotaExceededError(message, error);
+    }
+    return new RateLimitError(message, error);
+  }
+  if ((status !== undefined && status >= 500) || /Failed to fetch|NetworkError|network|ECONN|ETIMEDOUT/i.test(message)) {
+    return new NetworkError(message, error);
+  }
+  return new SpeechError('unknown', message, { cause: error });
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new GenerationCancelledError();
+};
+
+// Resolves after `ms`, or rejects early if the signal fires
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new GenerationCancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface RetryOptions {
+  retries?: number; // Extra attempts after the first
+  baseDelayMs?: number; // Doubled on every attempt, plus jitter
+  signal?: AbortSignal;
+  onRetry?: (error: SpeechError, attempt: number, delayMs: number) => void;
+}
+
+// Run `task`, retrying transient (retryable) failures with exponential backoff
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelayMs = 1000, signal, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await task();
+    } catch (e) {
+      const error = signal?.aborted ? new GenerationCancelledError() : classifyError(e);
+      if (!error.retryable || attempt >= retries) throw error;
+
+      const delay = baseDelayMs * 2 ** attempt + Math.random() * 250;
+      console.warn(`Retrying after ${error.name} (attempt ${attempt + 1}/${retries}) in ${Math.round(delay)}ms`);
+      onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+// User-facing text for each kind of failure
+export const describeError = (error: unknown): { title: string; message: string } => {
+  const err = classifyError(error);
+  switch (err.kind) {
+    case 'invalidKey':
+      return { title: t('error.invalidKey'), message: t('error.invalidKeyMessage') };
+    case 'rateLimit':
+      return { title: t('error.rateLimit'), message: t('error.rateLimitMessage') };
+    case 'quotaExceeded':
+      return { title: t('error.quotaExceeded'), message: t('error.quotaExceededMessage') };
+    case 'safety':
+      return { title: t('error.safety'), message: t('error.safetyMessage') };
+    case 'network':
+      return { title: t('error.network'), message: t('error.networkMessage') };
+    case 'decode':
+      return { title: t('error.decode'), message: t('error.decodeMessage') };
+    case 'cancelled':
+      return { title: t('error.cancelled'), message: t('error.cancelledMessage') };
+    default:
+      return { title: t('error.unknown'), message: err.message || t('common.unknownError') };
+  }
+};
@@ -0,0 +1,8 @@
+import { SpeechProvider, SpeechProviderId } from "../types";
+import { geminiProvider } from "./geminiProvider";
+import { localToneProvider, localHttpProvider } from "./localProvider";
+
+export const SPEECH_PROVIDERS: SpeechProvider[] = [geminiProvider, localToneProvider, localHttpProvider];
+
+export const getSpeechProvider = (id: SpeechProviderId = 'gemini'): SpeechProvider =>
+  SPEECH_PROVIDERS.find(p => p.id === id) || geminiProvider;
@@ -0,0 +1,160 @@
+import { GeneratedAudio } from "../types";
+import { splitSentences } from "./textChunker";
+import { stripRuby } from "./pronunciation";
+import { stripMarkup } from "./markup";
+
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number;
+  text: string;
+  speaker?: string; // Conversation mode
+}
+
+interface Segment {
+  start: number;
+  end: number;
+}
+
+const FRAME_SECONDS = 0.02;
+
+// Find stretches of speech by thresholding short-frame RMS energy relative to the loudest frame
+export function detectSpeechSegments(buffer: AudioBuffer, minSilence = 0.2): Segment[] {
+  const frameSize = Math.max(1, Math.round(FRAME_SECONDS * buffer.sampleRate));
+  const frames = Math.ceil(buffer.length / frameSize);
+  const data = buffer.getChannelData(0);
+  const energy = new Float32Array(frames);
+  let max = 0;
+
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    const start = f * frameSize;
+    const end = Math.min(buffer.length, start + frameSize);
+    for (let i = start; i < end; i++) sum += data[i] * data[i];
+    energy[f] = Math.sqrt(sum / Math.max(1, end - start));
+    max = Math.max(max, energy[f]);
+  }
+
+  // About -32 dB below the peak frame counts as silence
+  const threshold = max * 0.025;
+  const minSilenceFrames = Math.ceil(minSilence / FRAME_SECONDS);
+  const segments: Segment[] = [];
+  let segStart = -1;
+  let silentRun = 0;
+
+  for (let f = 0; f < frames; f++) {
+    if (energy[f] >= threshold) {
+      if (segStart === -1) segStart = f;
+      silentRun = 0;
+    } else if (segStart !== -1) {
+      silentRun++;
+      if (silentRun >= minSilenceFrames) {
+        segments.push({ start: segStart * FRAME_SECONDS, end: (f - silentRun + 1) * FRAME_SECONDS });
+        segStart = -1;
+        silentRun = 0;
+      }
+    }
+  }
+  if (segStart !== -1) segments.push({ start: segStart * FRAME_SECONDS, end: (frames - silentRun) * FRAME_SECONDS });
+  return segments;
+}
+
+// Emotion tags and markup are directions to the model, not part of what is said; ruby readings aren't shown either
+const stripTags = (text: string) => stripMarkup(stripRuby(text)).replace(/\((?:[A-Za-z]+)\)\s*/g, '').trim();
+
+// Script lines (conversation) or sentences (single) that each become one cue
+export function cueUnits(item: GeneratedAudio): { text: string; speaker?: string }[] {
+  if (item.mode === 'single') {
+    return splitSentences(item.text, item.language).map(stripTags).filter(Boolean).map(text => ({ text }));
+  }
+  return item.text.split('\n').map(line => {
+    const match = line.match(/^(.+?):\s*(.*)$/);
+    return match ? { speaker: match[1], text: stripTags(match[2]) } : { text: stripTags(line) };
+  }).filter(unit => unit.text);
+}
+
+// Assign units to speech segments: estimate each boundary from character counts, then snap it to the nearest pause
+export function alignCues(units: { text: string; speaker?: string }[], segments: Segment[], duration: number): SubtitleCue[] {
+  if (units.length === 0) return [];
+  if (segments.length === 0) segments = [{ start: 0, end: duration }];
+
+  const speechTotal = segments.reduce((sum, s) => sum + (s.end - s.start), 0);
+  const charTotal = units.reduce((sum, u) => sum + u.text.length, 0) || 1;
+
+  // Convert a position on the speech-only timeline into real time
+  const speechToTime = (t: number) => {
+    for (const s of segments) {
+      const len = s.end - s.start;
+      if (t <= len) return s.start + t;
+      t -= len;
+    }
+    return segments[segments.length - 1].end;
+  };
+
+  // Candidate boundaries: the middle of every pause between segments
+  const gaps = segments.slice(1).map((s, i) => ({ index: i + 1, time: (segments[i].end + s.start) / 2 }));
+
+  // boundaries[i] = index of the first segment belonging to unit i + 1, or a raw time when gaps run out
+  const boundaries: { segment?: number; time: number }[] = [];
+  let chars = 0;
+  let lastGap = 0;
+  for (let i = 0; i < units.length - 1; i++) {
+    chars += units[i].text.length;
+    const estimate = speechToTime((chars / charTotal) * speechTotal);
+    const remainingUnits = units.length - 1 - i;
+    // Leave enough later gaps for the remaining boundaries
+    const usable = gaps.filter(g => g.index > lastGap && gaps.filter(o => o.index > g.index).length >= remainingUnits - 1);
+    if (usable.length === 0) {
+      boundaries.push({ time: estimate });
+      continue;
+    }
+    const best = usable.reduce((a, b) => Math.abs(b.time - estimate) < Math.abs(a.time - estimate) ? b : a);
+    lastGap = best.index;
+    boundaries.push({ segment: best.index, time: best.time });
+  }
+
+  return units.map((unit, i) => {
+    const from = i === 0 ? { segment: 0, time: 0 } : boundaries[i - 1];
+    const to = i === units.length - 1 ? { segment: segments.length, time: duration } : boundaries[i];
+    const start = from.segment !== undefined ? segments[from.segment]?.start ?? from.time : from.time;
+    const end = to.segment !== undefined ? segments[to.segment - 1]?.end ?? to.time : to.time;
+    return { start, end: Math.max(start + 0.1, end), text: unit.text, speaker: unit.speaker };
+  });
+}
+
+export function buildCues(item: GeneratedAudio): SubtitleCue[] {
+  const buffer = item.audioBuffer;
+  return alignCues(cueUnits(item), detectSpeechSegments(buffer), buffer.duration);
+}
+
+const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// A blank line ends a cue in both formats, so edited text keeps only its non-empty lines, trimmed
+const cueText = (text: string) => text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).join('\n');
+
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues.map((cue, i) => [
+    i + 1,
+    `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+    cue.speaker ? `${cueText(cue.speaker)}: ${cueText(cue.text)}` : cueText(cue.text),
+  ].join('\n')).join('\n\n') + '\n';
+}
+
+// Cue text is markup in WebVTT, so "&", "<" and ">" must be entities (in voice names too).
+// That also turns a literal "-->", which would be read as a timing line, into "--&gt;".
+const escapeVtt = (text: string) => cueText(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function formatVtt(cues: SubtitleCue[]): string {
+  const body = cues.map(cue => [
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+    cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}` : escapeVtt(cue.text),
+  ].join('\n')).join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
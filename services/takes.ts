@@ -0,0 +1,65 @@
+import { AlternateTake, GeneratedAudio } from "../types";
+
+// Multi-take history entries: the entry's own audio is the chosen take and the rest sit in
+// `alternateTakes`. All helpers return new objects so they can go straight into state.
+
+export interface TakeView extends AlternateTake {
+  chosen: boolean;
+}
+
+// Every take of an entry, in generation order
+export const takesOf = (item: GeneratedAudio): TakeView[] => [
+  { take: item.take || 1, rating: item.rating, audioBuffer: item.audioBuffer, originalBuffer: item.originalBuffer, chosen: true },
+  ...(item.alternateTakes || []).map(t => ({ ...t, chosen: false })),
+].sort((a, b) => a.take - b.take);
+
+// Fold separately generated takes of one request into a single entry; the first becomes the chosen take
+export const groupTakes = (items: GeneratedAudio[]): GeneratedAudio => {
+  const [first, ...rest] = items;
+  if (rest.length === 0) return first;
+  return {
+    ...first,
+    take: 1,
+    alternateTakes: rest.map((item, i) => {
+      const alternate: AlternateTake = { take: i + 2, audioBuffer: item.audioBuffer };
+      if (item.originalBuffer) alternate.originalBuffer = item.originalBuffer;
+      return alternate;
+    }),
+  };
+};
+
+export const promoteTake = (item: GeneratedAudio, take: number): GeneratedAudio => {
+  const chosen = item.alternateTakes?.find(t => t.take === take);
+  if (!chosen) return item;
+  const demoted: AlternateTake = { take: item.take || 1, audioBuffer: item.audioBuffer };
+  if (item.rating) demoted.rating = item.rating;
+  if (item.originalBuffer) demoted.originalBuffer = item.originalBuffer;
+
+  const { originalBuffer, rating, ...rest } = item;
+  const promoted: GeneratedAudio = {
+    ...rest,
+    take: chosen.take,
+    audioBuffer: chosen.audioBuffer,
+    alternateTakes: [...item.alternateTakes!.filter(t => t.take !== take), demoted].sort((a, b) => a.take - b.take),
+  };
+  if (chosen.rating) promoted.rating = chosen.rating;
+  if (chosen.originalBuffer) promoted.originalBuffer = chosen.originalBuffer;
+  return promoted;
+};
+
+// Rating the same value again clears it
+export const rateTake = (item: GeneratedAudio, take: number, rating: number): GeneratedAudio => {
+  const next = (current?: number) => current === rating ? undefined : rating;
+  if ((item.take || 1) === take) return { ...item, rating: next(item.rating) };
+  return {
+    ...item,
+    alternateTakes: item.alternateTakes?.map(t => t.take === take ? { ...t, rating: next(t.rating) } : t),
+  };
+};
+
+export const hasAlternates = (item: GeneratedAudio) => (item.alternateTakes?.length || 0) > 0;
+
+export const dropAlternates = (item: GeneratedAudio): GeneratedAudio => {
+  const { alternateTakes, ...rest } = item;
+  return rest;
+};
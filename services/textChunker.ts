@@ -0,0 +1,99 @@
+import { SpeechLanguage } from "../types";
+import { speechLanguage } from "../constants";
+
+// Splits long input into chunks that each fit in a single TTS request.
+// Single mode breaks at sentence boundaries of the text's language; conversation mode only breaks between lines.
+
+const SENTENCE_END = /[。！？!?]/;
+const SPACED_SENTENCE_END = /[。！？!?.]/;
+const CLOSING = /[」』）)】〕"'”’]/;
+const SOFT_BREAK = /[、,，　 ]/;
+// "Dr. Smith" and "e.g. this" don't end a sentence
+const ABBREVIATION = /(?:^|\s)(?:Mr|Mrs|Ms|Dr|Prof|St|Jr|Sr|vs|etc|e\.g|i\.e|No)\.$/i;
+
+// Split into sentences, keeping terminal punctuation and any closing brackets that follow it.
+// Spaced languages (English, Korean) also end sentences with '.', but only before whitespace.
+export function splitSentences(text: string, language: SpeechLanguage = 'ja'): string[] {
+  const spaced = speechLanguage(language).spaced;
+  const end = spaced ? SPACED_SENTENCE_END : SENTENCE_END;
+  const sentences: string[] = [];
+  let current = "";
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n') {
+      if (current.trim()) sentences.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += ch;
+    if (end.test(ch)) {
+      // Absorb repeated marks ("！？", "...") and closing quotes ("。」")
+      while (i + 1 < text.length && (end.test(text[i + 1]) || CLOSING.test(text[i + 1]))) {
+        current += text[++i];
+      }
+      if (spaced && (/\S/.test(text[i + 1] || ' ') || ABBREVIATION.test(current))) continue;
+      if (current.trim()) sentences.push(current.trim());
+      current = "";
+    }
+  }
+  if (current.trim()) sentences.push(current.trim());
+  return sentences;
+}
+
+// Hard-split a single unit that is longer than maxChars, preferring commas and spaces
+function splitOversized(unit: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let rest = unit;
+  while (rest.length > maxChars) {
+    let cut = -1;
+    for (let i = maxChars; i > maxChars / 2; i--) {
+      if (SOFT_BREAK.test(rest[i - 1])) {
+        cut = i;
+        break;
+      }
+    }
+    if (cut === -1) cut = maxChars;
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut);
+  }
+  if (rest.trim()) parts.push(rest.trim());
+  return parts;
+}
+
+// Greedily pack units into chunks of at most maxChars, joined by `separator`
+function pack(units: string[], maxChars: number, separator: string): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const unit of units.flatMap(u => u.length > maxChars ? splitOversized(u, maxChars) : [u])) {
+    const candidate = current ? current + separator + unit : unit;
+    if (candidate.length > maxChars && current) {
+      chunks.push(current);
+      current = unit;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+export function chunkText(text: string, maxChars: number, mode: 'single' | 'conversation', language: SpeechLanguage = 'ja'): string[] {
+  if (text.length <= maxChars) return [text];
+
+  if (mode === 'conversation') {
+    // Never split inside a line of dialogue unless the line alone is too long
+    const lines = text.split('\n').map(l => l.trim()).filter(Boolean).flatMap(line => {
+      if (line.length <= maxChars) return [line];
+      // Repeat the "Name:" prefix on every piece so each chunk stays attributable
+      const match = line.match(/^([^:：]{1,40}[:：])\s*(.*)$/);
+      if (!match) return [line];
+      const [, prefix, body] = match;
+      return splitOversized(body, maxChars - prefix.length - 1).map(part => `${prefix} ${part}`);
+    });
+    return pack(lines, maxChars, '\n');
+  }
+
+  return pack(splitSentences(text, language), maxChars, speechLanguage(language).spaced ? ' ' : '');
+}
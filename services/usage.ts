@@ -0,0 +1,105 @@
+import { UsageBudgets, UsageMetric, UsageRecord } from "../types";
+import { formatCsv } from "./csv";
+import { formatNumber, t } from "./i18n";
+
+// Usage ledger: what each API key used per usage day, kept in the browser.
+// A usage day runs from 17:00 to 17:00 Asia/Tokyo, independent of the machine's time zone.
+
+export const USAGE_TIME_ZONE = 'Asia/Tokyo';
+export const USAGE_RESET_HOUR = 17;
+const TOKYO_UTC_OFFSET_HOURS = 9; // Japan has no daylight saving time
+const RETENTION_DAYS = 400; // Enough for this and the previous month, with room for yearly comparisons
+const WARNING_RATIO = 0.8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const USAGE_METRICS: UsageMetric[] = ['requests', 'characters', 'seconds'];
+
+export type UsageAmount = Record<UsageMetric, number>;
+export type UsagePeriod = 'daily' | 'monthly';
+
+const EMPTY_AMOUNT: UsageAmount = { requests: 0, characters: 0, seconds: 0 };
+
+const tokyoDate = new Intl.DateTimeFormat('en-US', { timeZone: USAGE_TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' });
+
+// YYYY-MM-DD of the usage day `time` falls in
+export const usageDay = (time: number = Date.now()): string => {
+  const parts = Object.fromEntries(tokyoDate.formatToParts(time - USAGE_RESET_HOUR * 60 * 60 * 1000).map(p => [p.type, p.value]));
+  return `${parts.year}-${parts.month}-${parts.day}`;
+};
+
+// A usage day belongs to the month it starts in
+export const usageMonth = (time: number = Date.now()) => usageDay(time).slice(0, 7);
+
+// When the current usage day ends
+export const nextUsageReset = (time: number = Date.now()): number => {
+  const [year, month, day] = usageDay(time).split('-').map(Number);
+  return Date.UTC(year, month - 1, day + 1, USAGE_RESET_HOUR - TOKYO_UTC_OFFSET_HOURS);
+};
+
+// The ledger never stores a key; the last few characters are enough to tell keys apart
+export const usageKeyId = (apiKey?: string) => apiKey ? `…${apiKey.slice(-4)}` : 'env';
+
+export const usageKeyLabel = (keyId: string) => keyId === 'env' ? t('usage.envKey') : keyId;
+
+// Adds to the row for the key and day, dropping rows past retention
+export const recordUsage = (ledger: UsageRecord[], keyId: string, amount: UsageAmount, time: number = Date.now()): UsageRecord[] => {
+  const day = usageDay(time);
+  const oldest = usageDay(time - RETENTION_DAYS * DAY_MS);
+  const kept = ledger.filter(r => r.day >= oldest);
+  const existing = kept.find(r => r.day === day && r.keyId === keyId);
+  if (!existing) return [...kept, { day, keyId, ...amount }];
+  return kept.map(r => r === existing
+    ? { ...r, requests: r.requests + amount.requests, characters: r.characters + amount.characters, seconds: r.seconds + amount.seconds }
+    : r);
+};
+
+// Sums rows for one key (or all keys) over a day ('YYYY-MM-DD') or month ('YYYY-MM') prefix
+export const usageTotals = (ledger: UsageRecord[], keyId: string | undefined, period: string): UsageAmount =>
+  ledger
+    .filter(r => (keyId === undefined || r.keyId === keyId) && r.day.startsWith(period))
+    .reduce((sum, r) => ({
+      requests: sum.requests + r.requests,
+      characters: sum.characters + r.characters,
+      seconds: sum.seconds + r.seconds,
+    }), EMPTY_AMOUNT);
+
+export interface UsageAlert {
+  period: UsagePeriod;
+  metric: UsageMetric;
+  used: number;
+  limit: number;
+  exceeded: boolean;
+}
+
+// Budgets the key is close to (80%) or past in the current day and month
+export const usageAlerts = (ledger: UsageRecord[], budgets: UsageBudgets, keyId: string, time: number = Date.now()): UsageAlert[] => {
+  const periods: [UsagePeriod, string][] = [['daily', usageDay(time)], ['monthly', usageMonth(time)]];
+  return periods.flatMap(([period, prefix]) => {
+    const used = usageTotals(ledger, keyId, prefix);
+    return USAGE_METRICS.flatMap(metric => {
+      const limit = budgets[period][metric];
+      if (!limit || used[metric] < limit * WARNING_RATIO) return [];
+      return [{ period, metric, used: used[metric], limit, exceeded: used[metric] >= limit }];
+    });
+  });
+};
+
+export const formatUsage = (metric: UsageMetric, value: number) => metric === 'seconds'
+  ? formatNumber(value, { style: 'unit', unit: 'second', maximumFractionDigits: 0 })
+  : formatNumber(value);
+
+export const describeUsageAlert = (alert: UsageAlert) => t(alert.exceeded ? 'usage.exceeded' : 'usage.warning', {
+  period: t(alert.period === 'daily' ? 'usage.periodDaily' : 'usage.periodMonthly'),
+  metric: t(`usage.metric.${alert.metric}`),
+  percent: Math.round(WARNING_RATIO * 100),
+  used: formatUsage(alert.metric, alert.used),
+  limit: formatUsage(alert.metric, alert.limit),
+});
+
+const HEADER = ['day', 'key', 'requests', 'characters', 'seconds'];
+
+// Newest day first; days are usage days in Asia/Tokyo
+export const exportUsageCsv = (ledger: UsageRecord[]): string =>
+  formatCsv(HEADER, [...ledger]
+    .sort((a, b) => b.day.localeCompare(a.day) || a.keyId.localeCompare(b.keyId))
+    .map(r => [r.day, r.keyId, String(r.requests), String(r.characters), r.seconds.toFixed(1)]));
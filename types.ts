@@ -1,3 +1,5 @@
+import type jaLocale from './locales/ja';
+
 export enum Emotion {
   NEUTRAL = 'Neutral',
   HAPPY = 'Happy',
@@ -11,44 +13,274 @@ export enum Emotion {
 
 export type AppMode = 'single' | 'conversation';
 
+// Language the text is read in (constants.ts SPEECH_LANGUAGES)
+export type SpeechLanguage = 'ja' | 'en' | 'ko' | 'zh';
+
+// A weighted blend of emotions, e.g. 70% Sad + 30% Fearful, played at `intensity` (0-1)
+export interface EmotionMix {
+  components: { emotion: Emotion; weight: number }[]; // Weights are relative; they need not sum to 1
+  intensity: number;
+}
+
+// How conversation mode is rendered: the whole script in one request, or one request per line
+export type ConversationRenderMode = 'script' | 'perLine';
+
 export interface VoiceOption {
   name: string;
   id: string; // Internal ID for logic
   apiName: string; // The name expected by the API (e.g., 'Kore')
   gender: 'Male' | 'Female';
+  description?: string; // Personas only: character/style direction added to the prompt
+  defaultEmotion?: Emotion; // Personas only: used when nothing else sets the emotion
+}
+
+// A named character in a conversation, voiced by a base voice or persona
+export interface CastMember {
+  id: string;
+  name: string;
+  voiceId: string;
 }
 
 export interface ConversationLine {
   id: string;
-  speaker: 'A' | 'B' | 'Both';
+  speaker: string; // CastMember id
+  partner?: string; // CastMember id speaking the line together with `speaker`
   text: string;
-  emotion?: string; // e.g., "(Happy)"
+  emotion?: Emotion; // Direction for this line only; missing = inherit (no explicit direction)
 }
 
 export interface GeneratedAudio {
   id: string;
   text: string; // Compiled text for display in history
   mode: AppMode;
-  emotion?: Emotion; // Single mode only
+  emotion?: Emotion; // Single mode only; the dominant emotion of `emotionMix`
+  emotionMix?: EmotionMix; // Single mode; exactly what the prompt was built from
   voiceName?: string; // Single mode only
   speaker1?: string; // Conversation mode
   speaker2?: string; // Conversation mode
   speaker1Name?: string; // Custom name for Speaker A
   speaker2Name?: string; // Custom name for Speaker B
+  cast?: { name: string; voiceName: string }[]; // Conversation mode, in cast order
   contextDescription?: string; // Situation description
+  renderMode?: ConversationRenderMode; // Conversation mode
+  lineGap?: number; // Seconds between lines when rendered per line
+  provider?: SpeechProviderId; // Which engine produced the audio (missing = Gemini)
+  projectId?: string; // Missing = the default project
+  postProcess?: PostProcessPresetId; // Effects preset applied to `audioBuffer` (missing = none)
+  postProcessSettings?: PostProcessSettings; // Exactly what was applied
   timestamp: number;
+  audioBuffer: AudioBuffer; // What plays and exports, post-processed when a preset is applied
+  originalBuffer?: AudioBuffer; // Unprocessed engine output, kept whenever a preset is applied
+  mix?: MixInfo; // Set on entries rendered by the mix panel
+  take?: number; // Which take `audioBuffer` is, when several were generated (1-based)
+  rating?: number; // 1-5, for the chosen take
+  alternateTakes?: AlternateTake[]; // The other takes of the same request
+  label?: string; // Output name, e.g. the id of the batch item that produced it
+  batchOutput?: boolean; // Made by the batch queue; never counted or pruned by the history limit
+  promptTemplates?: PromptTemplateRef[]; // Templates the prompts were built from (per-line renders use both modes)
+  language?: SpeechLanguage; // Missing = Japanese
+}
+
+// A take generated alongside the chosen one; promoting swaps it with the entry's own audio
+export interface AlternateTake {
+  take: number;
+  rating?: number;
   audioBuffer: AudioBuffer;
+  originalBuffer?: AudioBuffer;
+}
+
+// Music bed and ducking settings for the mix panel (services/mixer.ts)
+export interface MixSettings {
+  musicGainDb: number; // Music level while nobody is speaking
+  duckDb: number; // How far the music drops under speech
+  attackMs: number; // Ramp down, finishing as speech starts
+  releaseMs: number; // Ramp back up after speech ends
+  leadInSeconds: number; // Music before the speech starts
+  tailSeconds: number; // Music after the speech ends, faded out
+  loopMusic: boolean;
+}
+
+// What a mixed history entry was built from; the audio files themselves are not kept
+export interface MixInfo {
+  sourceId: string; // History entry that supplied the speech
+  music?: string; // File name
+  sfx: { name: string; start: number; gainDb: number }[]; // start in seconds from the top of the mix
+  settings: MixSettings;
+}
+
+// Pacing of the batch queue; the free tier rate limit is the usual constraint
+export interface BatchSettings {
+  concurrency: number;
+  intervalMs: number; // Minimum time between two request starts
+}
+
+export type BatchStatus = 'pending' | 'running' | 'done' | 'failed';
+
+// One utterance of a batch run (services/batch.ts)
+export interface BatchItem {
+  id: string; // Unique within the batch; also the output file name
+  text: string;
+  voiceId?: string; // Missing = the batch's default voice
+  emotion?: Emotion; // Missing = the voice's default emotion
+  description?: string;
+  language?: SpeechLanguage; // Missing = the project's language
+  status: BatchStatus;
+  attempts: number;
+  error?: string; // Last failure, for the summary
+  retrying?: { attempt: number; delayMs: number }; // Backoff in progress while running
+  result?: GeneratedAudio;
+}
+
+// Offline effects chain applied after generation (services/postProcess.ts), in this order.
+// Every stage can be switched off on its own.
+export interface PostProcessSettings {
+  trim: { enabled: boolean; thresholdDb: number; paddingMs: number }; // Leading/trailing silence
+  highpass: { enabled: boolean; frequency: number };
+  lowpass: { enabled: boolean; frequency: number };
+  eq: { enabled: boolean; lowGain: number; midGain: number; midFrequency: number; highGain: number }; // dB
+  compressor: { enabled: boolean; thresholdDb: number; ratio: number; attackMs: number; releaseMs: number };
+  reverb: { enabled: boolean; mix: number; decaySeconds: number }; // mix 0..1 wet
+  normalize: { enabled: boolean; targetLufs: number; peakDb: number }; // Integrated loudness, then a peak ceiling
+}
+
+export type PostProcessPresetId = 'none' | 'podcast' | 'gameSe' | 'phone' | 'custom';
+
+// User pronunciation dictionary entry: every occurrence of `surface` is read as `reading`
+export interface LexiconEntry {
+  id: string;
+  surface: string;
+  reading: string; // Kana
+  accent?: string; // Free-form accent note passed to the model, e.g. "頭高" or "か↑んじ"
+}
+
+// Everything a project restores when it is opened
+export interface ProjectState {
+  mode: AppMode;
+  singleText: string;
+  emotionMix: EmotionMix;
+  emotion?: Emotion; // Projects saved before emotion mixes
+  voiceId: string;
+  singleDescription: string;
+  convLines: ConversationLine[];
+  cast: CastMember[];
+  contextDescription: string;
+  renderMode: ConversationRenderMode;
+  lineGap: number;
+  language?: SpeechLanguage; // Missing = Japanese
+  fillers?: boolean; // Ask for natural fillers ("えっと", "um"...); missing = yes
+}
+
+export interface Project extends ProjectState {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
 }
 
+// Directing prompt with {{variables}} and {{#name}}...{{/name}} sections (services/promptTemplates.ts)
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  mode: AppMode;
+  body: string;
+  version: number; // Bumped on every saved edit
+  builtIn?: boolean; // Shipped defaults are read-only
+}
+
+export type PromptTemplateRef = Pick<PromptTemplate, 'id' | 'name' | 'version'>;
+
 export interface GenerateSpeechRequest {
   text: string;
   mode: AppMode;
   emotion?: Emotion;
+  emotionMix?: EmotionMix; // Single mode; takes precedence over `emotion`
   voice?: VoiceOption;
   speaker1?: VoiceOption;
   speaker2?: VoiceOption;
   speaker1Name?: string;
   speaker2Name?: string;
   contextDescription?: string;
+  pronunciationNotes?: string[]; // Accent notes for words whose reading was substituted
+  promptTemplate?: PromptTemplate; // Must match `mode`; missing = the built-in default
+  language?: SpeechLanguage; // Missing = Japanese
+  fillers?: boolean; // Missing = yes
   apiKey?: string;
-}
\ No newline at end of file
+  provider?: SpeechProviderSettings; // Defaults to Gemini
+  signal?: AbortSignal; // Cancels the remaining chunks and any pending retry
+  onRetry?: (attempt: number, delayMs: number) => void;
+  onProgress?: (completed: number, total: number) => void; // Called as long texts are generated chunk by chunk
+  onRequest?: (usage: Record<UsageMetric, number>) => void; // Once per provider request, including retries and failures
+}
+
+// A rendered take for a single conversation line (per-line render mode)
+export interface LineTake {
+  lineId: string;
+  key: string; // Fingerprint of the inputs; a mismatch means the take is stale
+  audioBuffer: AudioBuffer;
+  timestamp: number;
+}
+
+export type SpeechProviderId = 'gemini' | 'local-tone' | 'local-http';
+
+export interface SpeechProviderSettings {
+  id: SpeechProviderId;
+  endpoint?: string; // local-http only
+}
+
+// What a provider is asked to speak: the directing prompt plus the raw text and voices it was built from
+export interface SpeechSynthesisRequest {
+  prompt: string;
+  text: string;
+  voices: { speaker?: string; voiceName: string }[]; // One entry for single voice, two for multi-speaker
+  apiKey?: string;
+  endpoint?: string;
+  signal?: AbortSignal;
+}
+
+export interface SpeechSynthesisResult {
+  pcm: Uint8Array; // 16-bit little-endian PCM
+  sampleRate: number;
+  numChannels: number;
+  provider: SpeechProviderId;
+  model: string;
+}
+
+export interface SpeechProvider {
+  id: SpeechProviderId;
+  label: MessageKey;
+  requiresApiKey: boolean;
+  synthesize: (request: SpeechSynthesisRequest) => Promise<SpeechSynthesisResult>;
+}
+
+// A catalog entry: plain text, or wording per plural category chosen by the `count` parameter
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+// Japanese is the reference catalog, so its keys are the full set every locale must provide
+export type MessageKey = keyof typeof jaLocale.messages;
+
+export interface LocaleDefinition {
+  id: string; // Stored in settings
+  label: string; // Shown in the locale switcher in its own language
+  intl: string; // BCP 47 tag for Intl number, date and plural formatting
+  messages: Record<MessageKey, Message>;
+}
+
+export type UsageMetric = 'requests' | 'characters' | 'seconds';
+
+// What one API key used on one usage day (services/usage.ts)
+export interface UsageRecord {
+  day: string; // YYYY-MM-DD of the usage day in Asia/Tokyo
+  keyId: string; // Masked key, never the key itself
+  requests: number;
+  characters: number; // Characters sent for synthesis
+  seconds: number; // Audio received
+}
+
+// Limits per metric; a missing metric is unlimited
+export type UsageLimits = Partial<Record<UsageMetric, number>>;
+
+// Applied to each key separately, since the API counts quota per key
+export interface UsageBudgets {
+  daily: UsageLimits;
+  monthly: UsageLimits;
+}